@@ -65,8 +65,8 @@ world.addSystem(new SpawnSystem(spatialGrid, {
   dynamicDifficulty: true
 }))
 
-// Create player entity
-const player = world.createEntity()
+// Create player entity, named so the AI and spawn systems can find it
+const player = world.createEntity().setName('player')
 player.addComponent(new TransformComponent(0, 0))
 player.addComponent(new HealthComponent(1000))
 player.addComponent(new MovementComponent(100))
@@ -133,7 +133,7 @@ const customBoss: EnemyType = {
     {
       type: 'combat',
       data: {
-        damage: { min: 100, max: 150 },
+        damage: { $range: [100, 150] },
         attackSpeed: 0.8,
         range: 150,
         criticalChance: 0.4
@@ -490,7 +490,8 @@ class GameFrontend {
     
     private createPlayer(): void {
         try {
-            const player = this.world.createEntity()
+            // The AI and spawn systems find the player by this name
+            const player = this.world.createEntity().setName('player')
             this.playerId = player.id
             console.log('Created player entity:', player.id)
             
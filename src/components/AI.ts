@@ -1,5 +1,9 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityId,
+  EntityHandle,
+  ComponentSchema,
+} from '../types/CoreTypes'
 import type { Vector2 } from '../utils/Math'
 
 /**
@@ -69,7 +73,7 @@ export interface AIContext {
  * AI memory for learning and adaptation
  */
 export interface AIMemory {
-  lastSeenPositions: Map<EntityId, Vector2>
+  lastSeenPositions: Map<EntityHandle, Vector2>
   damageReceived: Map<EntityId, number>
   threatLevels: Map<EntityId, number>
   blackboard: Map<string, unknown>
@@ -106,6 +110,47 @@ export interface BehaviorNode {
  * AI component with advanced behavior state machine and behavior trees
  */
 export class AIComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    currentState: 'string',
+    previousState: 'string',
+    stateStartTime: 'number',
+    stateCooldowns: 'array',
+    personality: 'string',
+    aggressionLevel: 'number',
+    fearLevel: 'number',
+    curiosity: 'number',
+    loyalty: 'number',
+    targetId: 'number?',
+    targetPosition: 'vector2?',
+    homePosition: 'vector2?',
+    guardPosition: 'vector2?',
+    patrolPath: 'array',
+    currentPatrolIndex: 'number',
+    sightRange: 'number',
+    hearingRange: 'number',
+    attackRange: 'number',
+    fleeDistance: 'number',
+    fieldOfView: 'number',
+    moveSpeed: 'number',
+    turnSpeed: 'number',
+    preferredDistance: 'number',
+    avoidanceRadius: 'number',
+    attackCooldown: 'number',
+    lastAttackTime: 'number',
+    damageDealt: 'number',
+    damageReceived: 'number',
+    memory: 'object',
+    updatePriority: 'number',
+    lastUpdateTime: 'number',
+    updateInterval: 'number',
+    currentPath: 'array',
+    pathIndex: 'number',
+    lastPathfindTime: 'number',
+    pathfindCooldown: 'number',
+    stuckCounter: 'number',
+    lastPosition: 'vector2?',
+  }
+
   readonly type = 'ai'
 
   // State machine
@@ -124,7 +169,7 @@ export class AIComponent extends Component {
   public loyalty: number = 0.5
 
   // Targeting
-  public targetId: EntityId | null = null
+  public targetId: EntityHandle | null = null
   public targetPosition: Vector2 | null = null
   public homePosition: Vector2 | null = null
   public guardPosition: Vector2 | null = null
@@ -491,7 +536,7 @@ export class AIComponent extends Component {
   /**
    * Sets a target for the AI
    */
-  setTarget(targetId: EntityId | null, position?: Vector2): void {
+  setTarget(targetId: EntityHandle | null, position?: Vector2): void {
     this.targetId = targetId
     if (position) {
       this.targetPosition = { ...position }
@@ -720,6 +765,15 @@ export class AIComponent extends Component {
     }
   }
 
+  applyTemplate(data: Record<string, unknown>): void {
+    // Derive the personality traits first so the template can override them
+    if (data.personality !== undefined) {
+      this.personality = data.personality as AIPersonality
+      this.initializePersonality()
+    }
+    super.applyTemplate(data)
+  }
+
   deserialize(data: Record<string, unknown>): void {
     this.currentState = data.currentState as AIState
     this.previousState = data.previousState as AIState
@@ -732,7 +786,7 @@ export class AIComponent extends Component {
     this.curiosity = data.curiosity as number
     this.loyalty = data.loyalty as number
 
-    this.targetId = data.targetId as EntityId | null
+    this.targetId = data.targetId as EntityHandle | null
     this.targetPosition = data.targetPosition as Vector2 | null
     this.homePosition = data.homePosition as Vector2 | null
     this.guardPosition = data.guardPosition as Vector2 | null
@@ -777,4 +831,9 @@ export class AIComponent extends Component {
     // Reinitialize state machine
     this.initializeStateMachine()
   }
+
+  reset(): void {
+    // deserialize() expects complete data, so reset from a fresh instance
+    this.deserialize(new AIComponent().serialize())
+  }
 }
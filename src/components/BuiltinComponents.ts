@@ -0,0 +1,80 @@
+import { ComponentRegistry, type Component } from '../core/ECS/Component'
+import type { ComponentType } from '../types/CoreTypes'
+import { TransformComponent } from './Transform'
+import { HealthComponent } from './Health'
+import { MovementComponent } from './Movement'
+import { CombatComponent } from './Combat'
+import { ExperienceComponent } from './Experience'
+import { InventoryComponent } from './Inventory'
+import { SkillsComponent } from './Skills'
+import { AIComponent } from './AI'
+import { EnemyAIComponent } from './EnemyAI'
+import { SpawnerComponent } from './Spawner'
+import { CollectibleComponent } from './Collectible'
+import { MagnetComponent } from './Magnet'
+import { DifficultyComponent } from './Difficulty'
+import { HierarchyComponent } from './Hierarchy'
+import { PlayerControllerComponent } from './PlayerController'
+import { TweenComponent } from './Tween'
+
+declare module '../types/CoreTypes' {
+  interface ComponentTypeMap {
+    transform: TransformComponent
+    health: HealthComponent
+    movement: MovementComponent
+    combat: CombatComponent
+    experience: ExperienceComponent
+    inventory: InventoryComponent
+    skills: SkillsComponent
+    ai: AIComponent
+    enemyAI: EnemyAIComponent
+    spawner: SpawnerComponent
+    collectible: CollectibleComponent
+    magnet: MagnetComponent
+    difficulty: DifficultyComponent
+    hierarchy: HierarchyComponent
+    playerController: PlayerControllerComponent
+    tween: TweenComponent
+  }
+}
+
+type RegisteredComponentClass = new (...args: unknown[]) => Component
+
+/**
+ * Component classes shipped with the SDK, keyed by their component type
+ */
+export const BUILTIN_COMPONENTS: Record<
+  ComponentType,
+  RegisteredComponentClass
+> = {
+  transform: TransformComponent as unknown as RegisteredComponentClass,
+  health: HealthComponent as unknown as RegisteredComponentClass,
+  movement: MovementComponent as unknown as RegisteredComponentClass,
+  combat: CombatComponent as unknown as RegisteredComponentClass,
+  experience: ExperienceComponent as unknown as RegisteredComponentClass,
+  inventory: InventoryComponent as unknown as RegisteredComponentClass,
+  skills: SkillsComponent as unknown as RegisteredComponentClass,
+  ai: AIComponent as unknown as RegisteredComponentClass,
+  enemyAI: EnemyAIComponent as unknown as RegisteredComponentClass,
+  spawner: SpawnerComponent as unknown as RegisteredComponentClass,
+  collectible: CollectibleComponent as unknown as RegisteredComponentClass,
+  magnet: MagnetComponent as unknown as RegisteredComponentClass,
+  difficulty: DifficultyComponent as unknown as RegisteredComponentClass,
+  hierarchy: HierarchyComponent as unknown as RegisteredComponentClass,
+  playerController:
+    PlayerControllerComponent as unknown as RegisteredComponentClass,
+  tween: TweenComponent as unknown as RegisteredComponentClass,
+}
+
+/**
+ * Registers every built-in component type with the ComponentRegistry so
+ * they can be created from serialized data (e.g. when restoring a world).
+ * Types that are already registered are skipped.
+ */
+export function registerBuiltinComponents(): void {
+  Object.entries(BUILTIN_COMPONENTS).forEach(([type, componentClass]) => {
+    if (!ComponentRegistry.has(type)) {
+      ComponentRegistry.register(type, componentClass)
+    }
+  })
+}
@@ -1,5 +1,9 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityId,
+  EntityHandle,
+  ComponentSchema,
+} from '../types/CoreTypes'
 import type { Vector2 } from '../utils/Math'
 import { Vector2Math } from '../utils/Math'
 
@@ -92,6 +96,38 @@ export interface CollectionRequirement {
  * Collectible component for items that can be picked up
  */
 export class CollectibleComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    collectibleType: 'string',
+    rarity: 'string',
+    value: 'number',
+    stackSize: 'number',
+    currentStack: 'number',
+    collectionBehavior: 'string',
+    autoCollectDelay: 'number',
+    canBeCollectedBy: 'array',
+    magnetismConfig: 'object',
+    lifetime: 'number',
+    spawnTime: 'number?',
+    despawnOnCollect: 'boolean',
+    persistAfterDeath: 'boolean',
+    visualEffect: 'string',
+    effectIntensity: 'number',
+    soundEffect: 'string?',
+    collectSound: 'string?',
+    isBeingAttracted: 'boolean',
+    attractionTarget: 'number?',
+    attractionStartTime: 'number',
+    lastAttractionUpdate: 'number',
+    requirements: 'array',
+    collectionMessage: 'string?',
+    metadata: 'object',
+    dropSource: 'number?',
+    isTemporary: 'boolean',
+    updatePriority: 'number',
+    lastUpdateTime: 'number',
+    updateInterval: 'number',
+  }
+
   readonly type = 'collectible'
 
   // Core properties
@@ -118,7 +154,8 @@ export class CollectibleComponent extends Component {
 
   // Lifetime and despawn
   public lifetime: number = 30000 // 30 seconds default
-  public spawnTime: number = 0
+  // Game time; the CollectionSystem stamps it when it first sees the item
+  public spawnTime: number | null = null
   public despawnOnCollect: boolean = true
   public persistAfterDeath: boolean = false
 
@@ -130,7 +167,7 @@ export class CollectibleComponent extends Component {
 
   // Collection state
   public isBeingAttracted: boolean = false
-  public attractionTarget: EntityId | null = null
+  public attractionTarget: EntityHandle | null = null
   public attractionStartTime: number = 0
   public lastAttractionUpdate: number = 0
 
@@ -157,7 +194,6 @@ export class CollectibleComponent extends Component {
     this.collectibleType = collectibleType
     this.value = value
     this.rarity = rarity
-    this.spawnTime = Date.now()
     this.initializeDefaults()
   }
 
@@ -306,7 +342,7 @@ export class CollectibleComponent extends Component {
   /**
    * Starts magnetic attraction to a target
    */
-  startAttraction(targetId: EntityId, currentTime: number): void {
+  startAttraction(targetId: EntityHandle, currentTime: number): void {
     this.isBeingAttracted = true
     this.attractionTarget = targetId
     this.attractionStartTime = currentTime
@@ -357,6 +393,13 @@ export class CollectibleComponent extends Component {
     }
   }
 
+  /**
+   * Gets the time since the collectible spawned (0 until it is stamped)
+   */
+  getAge(currentTime: number): number {
+    return this.spawnTime === null ? 0 : currentTime - this.spawnTime
+  }
+
   /**
    * Checks if the collectible has expired
    */
@@ -364,7 +407,7 @@ export class CollectibleComponent extends Component {
     if (this.lifetime <= 0) {
       return false // Never expires
     }
-    return currentTime - this.spawnTime >= this.lifetime
+    return this.getAge(currentTime) >= this.lifetime
   }
 
   /**
@@ -374,7 +417,7 @@ export class CollectibleComponent extends Component {
     if (this.collectionBehavior !== CollectionBehavior.AUTOMATIC) {
       return false
     }
-    return currentTime - this.spawnTime >= this.autoCollectDelay
+    return this.getAge(currentTime) >= this.autoCollectDelay
   }
 
   /**
@@ -384,7 +427,7 @@ export class CollectibleComponent extends Component {
     if (this.lifetime <= 0) {
       return Infinity
     }
-    return Math.max(0, this.lifetime - (currentTime - this.spawnTime))
+    return Math.max(0, this.lifetime - this.getAge(currentTime))
   }
 
   /**
@@ -395,7 +438,7 @@ export class CollectibleComponent extends Component {
       return 0
     }
 
-    const elapsed = currentTime - this.spawnTime
+    const elapsed = this.getAge(currentTime)
     return Math.min(1, elapsed / this.autoCollectDelay)
   }
 
@@ -479,7 +522,7 @@ export class CollectibleComponent extends Component {
   /**
    * Gets display information for UI
    */
-  getDisplayInfo(): Record<string, unknown> {
+  getDisplayInfo(currentTime: number): Record<string, unknown> {
     return {
       type: this.collectibleType,
       rarity: this.rarity,
@@ -489,8 +532,8 @@ export class CollectibleComponent extends Component {
       visualEffect: this.visualEffect,
       effectIntensity: this.effectIntensity,
       isBeingAttracted: this.isBeingAttracted,
-      timeRemaining: this.getTimeRemaining(Date.now()),
-      collectionProgress: this.getCollectionProgress(Date.now()),
+      timeRemaining: this.getTimeRemaining(currentTime),
+      collectionProgress: this.getCollectionProgress(currentTime),
     }
   }
 
@@ -594,7 +637,7 @@ export class CollectibleComponent extends Component {
     this.magnetismConfig = data.magnetismConfig as MagnetismConfig
 
     this.lifetime = data.lifetime as number
-    this.spawnTime = data.spawnTime as number
+    this.spawnTime = data.spawnTime as number | null
     this.despawnOnCollect = data.despawnOnCollect as boolean
     this.persistAfterDeath = data.persistAfterDeath as boolean
 
@@ -604,7 +647,7 @@ export class CollectibleComponent extends Component {
     this.collectSound = data.collectSound as string | null
 
     this.isBeingAttracted = data.isBeingAttracted as boolean
-    this.attractionTarget = data.attractionTarget as EntityId | null
+    this.attractionTarget = data.attractionTarget as EntityHandle | null
     this.attractionStartTime = data.attractionStartTime as number
     this.lastAttractionUpdate = data.lastAttractionUpdate as number
 
@@ -619,4 +662,23 @@ export class CollectibleComponent extends Component {
     this.lastUpdateTime = data.lastUpdateTime as number
     this.updateInterval = data.updateInterval as number
   }
+
+  applyTemplate(data: Record<string, unknown>): void {
+    // Type and rarity drive the defaults, so derive those first and let the
+    // rest of the template override them
+    if (data.collectibleType !== undefined || data.rarity !== undefined) {
+      this.collectibleType =
+        (data.collectibleType as CollectibleType) ?? this.collectibleType
+      this.rarity = (data.rarity as CollectibleRarity) ?? this.rarity
+      this.initializeDefaults()
+    }
+    super.applyTemplate(data)
+  }
+
+  reset(): void {
+    // deserialize() expects complete data, so reset from a fresh instance
+    this.deserialize(
+      new CollectibleComponent(CollectibleType.EXPERIENCE).serialize()
+    )
+  }
 }
@@ -1,5 +1,10 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityHandle,
+  RandomSource,
+  ComponentSchema,
+} from '../types/CoreTypes'
+import { unseededRandom } from '../utils/Random'
 
 export interface WeaponStats {
   damage: number
@@ -15,11 +20,19 @@ export interface WeaponStats {
  * Combat component for entities that can attack
  */
 export class CombatComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    weapon: 'object',
+    lastAttackTime: 'number',
+    targetId: 'number?',
+    autoAttack: 'boolean',
+  }
+
   readonly type = 'combat'
 
   weapon: WeaponStats
   lastAttackTime: number
-  targetId: EntityId | null
+  /** Handle of the current target (see World.resolve) */
+  targetId: EntityHandle | null
   autoAttack: boolean
 
   constructor(weapon?: WeaponStats, autoAttack: boolean = true) {
@@ -39,7 +52,7 @@ export class CombatComponent extends Component {
   /**
    * Checks if the entity can attack (cooldown finished)
    */
-  canAttack(currentTime: number = Date.now()): boolean {
+  canAttack(currentTime: number): boolean {
     const attackCooldown = 1000 / this.weapon.attackSpeed // ms between attacks
     return currentTime - this.lastAttackTime >= attackCooldown
   }
@@ -47,26 +60,26 @@ export class CombatComponent extends Component {
   /**
    * Performs an attack and updates the last attack time
    */
-  attack(currentTime: number = Date.now()): void {
+  attack(currentTime: number): void {
     this.lastAttackTime = currentTime
   }
 
   /**
    * Sets the current target
    */
-  setTarget(targetId: EntityId | null): void {
+  setTarget(targetId: EntityHandle | null): void {
     this.targetId = targetId
   }
 
   /**
    * Calculates damage with critical hit chance
    */
-  calculateDamage(): number {
+  calculateDamage(random: RandomSource = unseededRandom): number {
     let damage = this.weapon.damage
 
     // Apply critical hit
     if (this.weapon.criticalChance && this.weapon.criticalMultiplier) {
-      if (Math.random() < this.weapon.criticalChance) {
+      if (random.chance(this.weapon.criticalChance)) {
         damage *= this.weapon.criticalMultiplier
       }
     }
@@ -84,7 +97,7 @@ export class CombatComponent extends Component {
   /**
    * Gets the remaining cooldown time
    */
-  getRemainingCooldown(currentTime: number = Date.now()): number {
+  getRemainingCooldown(currentTime: number): number {
     const cooldown = this.getAttackCooldown()
     const elapsed = currentTime - this.lastAttackTime
     return Math.max(0, cooldown - elapsed)
@@ -132,7 +145,9 @@ export class CombatComponent extends Component {
     this.lastAttackTime =
       data.lastAttackTime !== undefined ? (data.lastAttackTime as number) : 0
     this.targetId =
-      data.targetId !== undefined ? (data.targetId as EntityId | null) : null
+      data.targetId !== undefined
+        ? (data.targetId as EntityHandle | null)
+        : null
     this.autoAttack =
       data.autoAttack !== undefined ? (data.autoAttack as boolean) : true
   }
@@ -1,4 +1,5 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 
 export type DifficultyLevel =
   | 'EASY'
@@ -87,6 +88,17 @@ export interface AdaptiveSettings {
 }
 
 export class DifficultyComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    currentLevel: 'string',
+    currentScore: 'number',
+    targetScore: 'number',
+    performanceMetrics: 'object',
+    adaptiveSettings: 'object',
+    performanceHistory: 'array',
+    lastAdaptationTime: 'number',
+    isStabilized: 'boolean',
+  }
+
   readonly type = 'difficulty'
 
   public currentLevel: DifficultyLevel = 'NORMAL'
@@ -105,7 +117,7 @@ export class DifficultyComponent extends Component {
     averageReactionTime: 1000,
     skillActivations: 0,
     deathCount: 0,
-    lastUpdateTime: Date.now(),
+    lastUpdateTime: 0,
   }
 
   public difficultyBands: DifficultyBand[] = []
@@ -124,7 +136,7 @@ export class DifficultyComponent extends Component {
   }
 
   public performanceHistory: number[] = []
-  public lastAdaptationTime: number = Date.now()
+  public lastAdaptationTime: number = 0
   public isStabilized: boolean = false
 
   constructor() {
@@ -294,10 +306,9 @@ export class DifficultyComponent extends Component {
   public updatePerformanceMetrics(
     metric: ScalingMetric,
     value: number,
-    isIncrement: boolean = false
+    isIncrement: boolean,
+    currentTime: number
   ): void {
-    const currentTime = Date.now()
-
     switch (metric) {
       case 'SURVIVAL_TIME':
         this.performanceMetrics.survivalTime = isIncrement
@@ -557,7 +568,7 @@ export class DifficultyComponent extends Component {
     this.adaptiveSettings =
       (data.adaptiveSettings as AdaptiveSettings) || this.adaptiveSettings
     this.performanceHistory = (data.performanceHistory as number[]) || []
-    this.lastAdaptationTime = (data.lastAdaptationTime as number) || Date.now()
+    this.lastAdaptationTime = (data.lastAdaptationTime as number) || 0
     this.isStabilized = (data.isStabilized as boolean) || false
   }
 }
@@ -1,5 +1,9 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityId,
+  EntityHandle,
+  ComponentSchema,
+} from '../types/CoreTypes'
 import type { Vector2 } from '../utils/Math'
 import { Vector2Math } from '../utils/Math'
 
@@ -88,6 +92,38 @@ export interface PatrolPoint {
  * AI component for enemy behavior
  */
 export class EnemyAIComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    behaviorType: 'string',
+    currentState: 'string',
+    previousState: 'string',
+    stateEnterTime: 'number',
+    stateUpdateInterval: 'number',
+    targetEntityId: 'number?',
+    lastKnownTargetPosition: 'vector2?',
+    detectionRange: 'number',
+    attackRange: 'number',
+    loseTargetDistance: 'number',
+    movementPattern: 'string',
+    moveSpeed: 'number',
+    patrolPoints: 'array',
+    currentPatrolIndex: 'number',
+    lastPatrolTime: 'number',
+    aggressionLevel: 'number',
+    fleeThreshold: 'number',
+    groupRadius: 'number',
+    reactionTime: 'number',
+    actionQueue: 'array',
+    lastActionTime: 'number',
+    actionCooldown: 'number',
+    lastDecisionTime: 'number',
+    memory: 'object',
+    lastDamageTime: 'number',
+    lastDamageSource: 'number?',
+    threatLevel: 'number',
+    lastUpdateTime: 'number',
+    updatePriority: 'number',
+  }
+
   readonly type = 'enemyAI'
 
   // Core AI properties
@@ -98,7 +134,7 @@ export class EnemyAIComponent extends Component {
   public stateUpdateInterval: number = 500 // Update AI every 500ms
 
   // Targeting
-  public targetEntityId: EntityId | null = null
+  public targetEntityId: EntityHandle | null = null
   public lastKnownTargetPosition: Vector2 | null = null
   public detectionRange: number = 150
   public attackRange: number = 50
@@ -318,7 +354,7 @@ export class EnemyAIComponent extends Component {
   /**
    * Sets the current target
    */
-  setTarget(targetId: EntityId | null, targetPosition?: Vector2): void {
+  setTarget(targetId: EntityHandle | null, targetPosition?: Vector2): void {
     this.targetEntityId = targetId
     if (targetPosition) {
       this.lastKnownTargetPosition = targetPosition
@@ -576,7 +612,7 @@ export class EnemyAIComponent extends Component {
     this.stateEnterTime = data.stateEnterTime as number
     this.stateUpdateInterval = data.stateUpdateInterval as number
 
-    this.targetEntityId = data.targetEntityId as EntityId | null
+    this.targetEntityId = data.targetEntityId as EntityHandle | null
     this.lastKnownTargetPosition =
       data.lastKnownTargetPosition as Vector2 | null
     this.detectionRange = data.detectionRange as number
@@ -612,4 +648,9 @@ export class EnemyAIComponent extends Component {
     // Reinitialize state machine and behavior defaults
     this.initializeStateMachine()
   }
+
+  reset(): void {
+    // deserialize() expects complete data, so reset from a fresh instance
+    this.deserialize(new EnemyAIComponent().serialize())
+  }
 }
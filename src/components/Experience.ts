@@ -1,9 +1,17 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 
 /**
  * Experience component for entities that can gain XP and level up
  */
 export class ExperienceComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    level: 'number',
+    currentXP: 'number',
+    xpToNextLevel: 'number',
+    totalXP: 'number',
+  }
+
   readonly type = 'experience'
 
   level: number
@@ -36,6 +44,7 @@ export class ExperienceComponent extends Component {
       this.xpToNextLevel = this.calculateXPRequirement(this.level + 1)
     }
 
+    this.markChanged()
     return levelsGained
   }
 
@@ -71,6 +80,7 @@ export class ExperienceComponent extends Component {
     this.level = newLevel
     this.currentXP = 0
     this.xpToNextLevel = this.calculateXPRequirement(newLevel + 1)
+    this.markChanged()
   }
 
   clone(): Component {
@@ -1,9 +1,17 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 
 /**
  * Health component for entities that can take damage
  */
 export class HealthComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    current: 'number',
+    maximum: 'number',
+    regeneration: 'number',
+    lastDamageTime: 'number',
+  }
+
   readonly type = 'health'
 
   current: number
@@ -26,10 +34,11 @@ export class HealthComponent extends Component {
   /**
    * Takes damage and returns actual damage dealt
    */
-  takeDamage(amount: number, timestamp: number = Date.now()): number {
+  takeDamage(amount: number, timestamp: number): number {
     const actualDamage = Math.min(amount, this.current)
     this.current -= actualDamage
     this.lastDamageTime = timestamp
+    this.markChanged()
     return actualDamage
   }
 
@@ -39,6 +48,9 @@ export class HealthComponent extends Component {
   heal(amount: number): number {
     const actualHealing = Math.min(amount, this.maximum - this.current)
     this.current += actualHealing
+    if (actualHealing !== 0) {
+      this.markChanged()
+    }
     return actualHealing
   }
 
@@ -47,6 +59,7 @@ export class HealthComponent extends Component {
    */
   fullHeal(): void {
     this.current = this.maximum
+    this.markChanged()
   }
 
   /**
@@ -82,6 +95,7 @@ export class HealthComponent extends Component {
       this.maximum = newMaximum
       this.current = Math.min(this.current, newMaximum)
     }
+    this.markChanged()
   }
 
   /**
@@ -124,6 +138,15 @@ export class HealthComponent extends Component {
       data.lastDamageTime !== undefined ? (data.lastDamageTime as number) : 0
   }
 
+  applyTemplate(data: Record<string, unknown>): void {
+    // A template that only sets the maximum starts at full health
+    super.applyTemplate(
+      data.maximum !== undefined && data.current === undefined
+        ? { ...data, current: data.maximum }
+        : data
+    )
+  }
+
   reset(): void {
     this.current = 100
     this.maximum = 100
@@ -0,0 +1,134 @@
+import { Component } from '../core/ECS/Component'
+import type { EntityHandle, ComponentSchema } from '../types/CoreTypes'
+import type { Vector2 } from '../types/GameTypes'
+
+/**
+ * Hierarchy component linking an entity to its parent and children.
+ * Use World.setParent() to change the hierarchy so both sides stay in sync.
+ *
+ * The local transform is relative to the parent. For entities with a parent
+ * the TransformPropagationSystem overwrites the TransformComponent with the
+ * resulting world transform every fixed step.
+ */
+export class HierarchyComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    parent: 'number?',
+    children: 'array',
+    localPosition: 'vector2',
+    localRotation: 'number',
+    localScale: 'vector2',
+  }
+
+  readonly type = 'hierarchy'
+
+  parent: EntityHandle | null = null
+  children: EntityHandle[] = []
+  localPosition: Vector2
+  localRotation: number
+  localScale: Vector2
+
+  constructor(
+    localX: number = 0,
+    localY: number = 0,
+    localRotation: number = 0,
+    localScaleX: number = 1,
+    localScaleY: number = 1
+  ) {
+    super()
+    this.localPosition = { x: localX, y: localY }
+    this.localRotation = localRotation
+    this.localScale = { x: localScaleX, y: localScaleY }
+  }
+
+  /**
+   * Sets the position relative to the parent
+   */
+  setLocalPosition(x: number, y: number): void {
+    this.localPosition.x = x
+    this.localPosition.y = y
+    this.markChanged()
+  }
+
+  /**
+   * Sets the rotation relative to the parent (in radians)
+   */
+  setLocalRotation(rotation: number): void {
+    this.localRotation = rotation
+    this.markChanged()
+  }
+
+  /**
+   * Checks if the entity has a parent
+   */
+  hasParent(): boolean {
+    return this.parent !== null
+  }
+
+  /**
+   * Records a child (called by World.setParent)
+   */
+  addChild(child: EntityHandle): void {
+    if (!this.children.includes(child)) {
+      this.children.push(child)
+    }
+  }
+
+  /**
+   * Forgets a child (called by World.setParent)
+   */
+  removeChild(child: EntityHandle): void {
+    const index = this.children.indexOf(child)
+    if (index !== -1) {
+      this.children.splice(index, 1)
+    }
+  }
+
+  clone(): Component {
+    const clone = new HierarchyComponent(
+      this.localPosition.x,
+      this.localPosition.y,
+      this.localRotation,
+      this.localScale.x,
+      this.localScale.y
+    )
+    clone.parent = this.parent
+    clone.children = [...this.children]
+    return clone
+  }
+
+  serialize(): Record<string, unknown> {
+    return {
+      parent: this.parent,
+      children: [...this.children],
+      localPosition: { x: this.localPosition.x, y: this.localPosition.y },
+      localRotation: this.localRotation,
+      localScale: { x: this.localScale.x, y: this.localScale.y },
+    }
+  }
+
+  deserialize(data: Record<string, unknown>): void {
+    this.parent = (data.parent as EntityHandle | null) ?? null
+    this.children = data.children ? [...(data.children as EntityHandle[])] : []
+
+    const localPosition = data.localPosition as Vector2 | undefined
+    this.localPosition = {
+      x: localPosition?.x ?? 0,
+      y: localPosition?.y ?? 0,
+    }
+    this.localRotation = (data.localRotation as number) ?? 0
+
+    const localScale = data.localScale as Vector2 | undefined
+    this.localScale = {
+      x: localScale?.x ?? 1,
+      y: localScale?.y ?? 1,
+    }
+  }
+
+  reset(): void {
+    this.parent = null
+    this.children = []
+    this.localPosition = { x: 0, y: 0 }
+    this.localRotation = 0
+    this.localScale = { x: 1, y: 1 }
+  }
+}
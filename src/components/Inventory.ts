@@ -1,4 +1,5 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 
 export interface ResourceType {
   name: string
@@ -16,6 +17,12 @@ export interface ItemStack {
  * Inventory component for entities that can carry items and resources
  */
 export class InventoryComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    resources: 'object',
+    items: 'array',
+    maxSlots: 'number',
+  }
+
   readonly type = 'inventory'
 
   resources: Map<string, number>
@@ -214,4 +221,9 @@ export class InventoryComponent extends Component {
     this.items = items.map((item) => ({ ...item }))
     this.maxSlots = data.maxSlots as number
   }
+
+  reset(): void {
+    // deserialize() expects complete data, so reset from a fresh instance
+    this.deserialize(new InventoryComponent().serialize())
+  }
 }
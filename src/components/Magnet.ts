@@ -1,5 +1,9 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityId,
+  EntityHandle,
+  ComponentSchema,
+} from '../types/CoreTypes'
 import type { Vector2 } from '../utils/Math'
 import { Vector2Math } from '../utils/Math'
 
@@ -79,6 +83,41 @@ export interface MagnetStats {
  * Magnet component for entities that can attract collectibles
  */
 export class MagnetComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    active: 'boolean',
+    magneticField: 'object',
+    trigger: 'string',
+    manuallyActivated: 'boolean',
+    activationDuration: 'number',
+    activationCooldown: 'number',
+    lastActivationTime: 'number',
+    collectionFilters: 'array',
+    attractedItems: 'array',
+    blacklistedItems: 'array',
+    rangeMultiplier: 'number',
+    strengthMultiplier: 'number',
+    efficiencyBonus: 'number',
+    experienceBonus: 'number',
+    currencyBonus: 'number',
+    pulseInterval: 'number',
+    pulseStrength: 'number',
+    pulseDuration: 'number',
+    lastPulseTime: 'number',
+    isPulsing: 'boolean',
+    visualEffect: 'string',
+    pulseEffect: 'string',
+    collectEffect: 'string',
+    soundEnabled: 'boolean',
+    updateInterval: 'number',
+    lastUpdateTime: 'number',
+    maxUpdatesPerFrame: 'number',
+    currentUpdates: 'number',
+    stats: 'object',
+    temporaryRangeBonus: 'number',
+    temporaryStrengthBonus: 'number',
+    bonusExpirationTime: 'number',
+  }
+
   readonly type = 'magnet'
 
   // Core magnet properties
@@ -102,7 +141,7 @@ export class MagnetComponent extends Component {
 
   // Filtering and targeting
   public collectionFilters: CollectionFilter[] = []
-  public attractedItems: Set<EntityId> = new Set()
+  public attractedItems: Set<EntityHandle> = new Set()
   public blacklistedItems: Set<EntityId> = new Set() // Items that shouldn't be attracted
 
   // Enhancement and scaling
@@ -431,7 +470,7 @@ export class MagnetComponent extends Component {
   /**
    * Starts attracting an item
    */
-  startAttractingItem(itemId: EntityId, _currentTime: number): void {
+  startAttractingItem(itemId: EntityHandle, _currentTime: number): void {
     this.attractedItems.add(itemId)
     this.stats.totalItemsAttracted++
   }
@@ -439,10 +478,21 @@ export class MagnetComponent extends Component {
   /**
    * Stops attracting an item
    */
-  stopAttractingItem(itemId: EntityId): void {
+  stopAttractingItem(itemId: EntityHandle): void {
     this.attractedItems.delete(itemId)
   }
 
+  /**
+   * Drops attracted items whose handles no longer refer to a live entity
+   */
+  pruneAttractedItems(isAlive: (handle: EntityHandle) => boolean): void {
+    this.attractedItems.forEach((handle) => {
+      if (!isAlive(handle)) {
+        this.attractedItems.delete(handle)
+      }
+    })
+  }
+
   /**
    * Records item collection for statistics
    */
@@ -470,10 +520,10 @@ export class MagnetComponent extends Component {
    * Applies temporary bonuses
    */
   applyTemporaryBonus(
+    currentTime: number,
     rangeBonus: number = 0,
     strengthBonus: number = 0,
-    duration: number = 5000,
-    currentTime: number = Date.now()
+    duration: number = 5000
   ): void {
     this.temporaryRangeBonus = Math.max(this.temporaryRangeBonus, rangeBonus)
     this.temporaryStrengthBonus = Math.max(
@@ -530,7 +580,7 @@ export class MagnetComponent extends Component {
   /**
    * Gets magnet display information
    */
-  getDisplayInfo(): Record<string, unknown> {
+  getDisplayInfo(currentTime: number): Record<string, unknown> {
     return {
       active: this.active,
       range: this.getEffectiveRange(),
@@ -542,7 +592,7 @@ export class MagnetComponent extends Component {
       temporaryBonuses: {
         range: this.temporaryRangeBonus,
         strength: this.temporaryStrengthBonus,
-        timeRemaining: Math.max(0, this.bonusExpirationTime - Date.now()),
+        timeRemaining: Math.max(0, this.bonusExpirationTime - currentTime),
       },
     }
   }
@@ -653,7 +703,7 @@ export class MagnetComponent extends Component {
     this.lastActivationTime = data.lastActivationTime as number
 
     this.collectionFilters = data.collectionFilters as CollectionFilter[]
-    this.attractedItems = new Set(data.attractedItems as EntityId[])
+    this.attractedItems = new Set(data.attractedItems as EntityHandle[])
     this.blacklistedItems = new Set(data.blacklistedItems as EntityId[])
 
     this.rangeMultiplier = data.rangeMultiplier as number
@@ -1,10 +1,18 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 import type { Vector2 } from '../types/GameTypes'
 
 /**
  * Movement component for entities that can move
  */
 export class MovementComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    velocity: 'vector2',
+    acceleration: 'vector2',
+    maxSpeed: 'number',
+    friction: 'number',
+  }
+
   readonly type = 'movement'
 
   velocity: Vector2
@@ -31,6 +39,7 @@ export class MovementComponent extends Component {
   setVelocity(x: number, y: number): void {
     this.velocity.x = x
     this.velocity.y = y
+    this.markChanged()
   }
 
   /**
@@ -39,6 +48,7 @@ export class MovementComponent extends Component {
   addVelocity(x: number, y: number): void {
     this.velocity.x += x
     this.velocity.y += y
+    this.markChanged()
   }
 
   /**
@@ -47,6 +57,7 @@ export class MovementComponent extends Component {
   setAcceleration(x: number, y: number): void {
     this.acceleration.x = x
     this.acceleration.y = y
+    this.markChanged()
   }
 
   /**
@@ -55,6 +66,7 @@ export class MovementComponent extends Component {
   addAcceleration(x: number, y: number): void {
     this.acceleration.x += x
     this.acceleration.y += y
+    this.markChanged()
   }
 
   /**
@@ -88,6 +100,7 @@ export class MovementComponent extends Component {
     this.velocity.y = 0
     this.acceleration.x = 0
     this.acceleration.y = 0
+    this.markChanged()
   }
 
   /**
@@ -96,6 +109,7 @@ export class MovementComponent extends Component {
   applyForce(forceX: number, forceY: number): void {
     this.acceleration.x += forceX
     this.acceleration.y += forceY
+    this.markChanged()
   }
 
   /**
@@ -104,6 +118,7 @@ export class MovementComponent extends Component {
   applyImpulse(impulseX: number, impulseY: number): void {
     this.velocity.x += impulseX
     this.velocity.y += impulseY
+    this.markChanged()
   }
 
   clone(): Component {
@@ -0,0 +1,136 @@
+import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
+import type { Vector2 } from '../types/GameTypes'
+
+/**
+ * Player controller component for entities driven by an InputSystem.
+ * Holds the state commands leave behind (held movement, facing, aim), so
+ * the input stream only needs to carry changes.
+ */
+export class PlayerControllerComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    playerId: 'number',
+    dashDistance: 'number',
+    dashCooldown: 'number',
+    moveDirection: 'vector2',
+    facing: 'vector2',
+    aimPosition: 'vector2?',
+    nextDashTime: 'number',
+  }
+
+  readonly type = 'playerController'
+
+  /** Input slot that drives this entity */
+  playerId: number
+  /** Distance covered by a dash */
+  dashDistance: number
+  /** Time between dashes in milliseconds */
+  dashCooldown: number
+
+  moveDirection: Vector2
+  facing: Vector2
+  aimPosition: Vector2 | null
+  nextDashTime: number
+
+  constructor(
+    playerId: number = 0,
+    dashDistance: number = 150,
+    dashCooldown: number = 1000
+  ) {
+    super()
+    this.playerId = playerId
+    this.dashDistance = dashDistance
+    this.dashCooldown = dashCooldown
+    this.moveDirection = { x: 0, y: 0 }
+    this.facing = { x: 1, y: 0 }
+    this.aimPosition = null
+    this.nextDashTime = 0
+  }
+
+  /**
+   * Sets the held movement direction. Non-zero directions also update the
+   * facing direction.
+   */
+  setMoveDirection(x: number, y: number): void {
+    this.moveDirection.x = x
+    this.moveDirection.y = y
+    if (x !== 0 || y !== 0) {
+      const length = Math.sqrt(x * x + y * y)
+      this.facing.x = x / length
+      this.facing.y = y / length
+    }
+    this.markChanged()
+  }
+
+  /**
+   * Sets the position the player aims at
+   */
+  setAimPosition(position: Vector2 | null): void {
+    this.aimPosition = position ? { x: position.x, y: position.y } : null
+    this.markChanged()
+  }
+
+  /**
+   * Checks if the dash cooldown has passed
+   */
+  canDash(currentTime: number): boolean {
+    return currentTime >= this.nextDashTime
+  }
+
+  /**
+   * Starts the dash cooldown
+   */
+  useDash(currentTime: number): void {
+    this.nextDashTime = currentTime + this.dashCooldown
+    this.markChanged()
+  }
+
+  clone(): Component {
+    const clone = new PlayerControllerComponent(
+      this.playerId,
+      this.dashDistance,
+      this.dashCooldown
+    )
+    clone.moveDirection = { ...this.moveDirection }
+    clone.facing = { ...this.facing }
+    clone.aimPosition = this.aimPosition ? { ...this.aimPosition } : null
+    clone.nextDashTime = this.nextDashTime
+    return clone
+  }
+
+  serialize(): Record<string, unknown> {
+    return {
+      playerId: this.playerId,
+      dashDistance: this.dashDistance,
+      dashCooldown: this.dashCooldown,
+      moveDirection: { ...this.moveDirection },
+      facing: { ...this.facing },
+      aimPosition: this.aimPosition ? { ...this.aimPosition } : null,
+      nextDashTime: this.nextDashTime,
+    }
+  }
+
+  deserialize(data: Record<string, unknown>): void {
+    const moveDirection = data.moveDirection as Vector2 | undefined
+    const facing = data.facing as Vector2 | undefined
+    const aimPosition = data.aimPosition as Vector2 | null | undefined
+
+    this.playerId = (data.playerId as number) ?? 0
+    this.dashDistance = (data.dashDistance as number) ?? 150
+    this.dashCooldown = (data.dashCooldown as number) ?? 1000
+    this.moveDirection = moveDirection ? { ...moveDirection } : { x: 0, y: 0 }
+    this.facing = facing ? { ...facing } : { x: 1, y: 0 }
+    this.aimPosition = aimPosition ? { ...aimPosition } : null
+    this.nextDashTime = (data.nextDashTime as number) ?? 0
+  }
+
+  reset(): void {
+    this.playerId = 0
+    this.dashDistance = 150
+    this.dashCooldown = 1000
+    this.moveDirection = { x: 0, y: 0 }
+    this.facing = { x: 1, y: 0 }
+    this.aimPosition = null
+    this.nextDashTime = 0
+  }
+}
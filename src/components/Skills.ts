@@ -1,5 +1,5 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type { EntityId, ComponentSchema } from '../types/CoreTypes'
 
 /**
  * Skill type definitions
@@ -87,6 +87,14 @@ export interface ActiveEffect {
  * Skills component for entities that can use abilities
  */
 export class SkillsComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    skillPoints: 'number',
+    skills: 'object',
+    activeEffects: 'array',
+    selectedSkills: 'array',
+    evolutionProgress: 'object',
+  }
+
   readonly type = 'skills'
 
   public skills: Map<string, Skill> = new Map()
@@ -348,4 +356,9 @@ export class SkillsComponent extends Component {
       Object.entries(data.evolutionProgress as Record<string, number>)
     )
   }
+
+  reset(): void {
+    // deserialize() expects complete data, so reset from a fresh instance
+    this.deserialize(new SkillsComponent().serialize())
+  }
 }
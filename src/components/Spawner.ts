@@ -1,6 +1,12 @@
 import { Component } from '../core/ECS/Component'
-import type { EntityId } from '../types/CoreTypes'
+import type {
+  EntityId,
+  ComponentTemplate,
+  RandomSource,
+  ComponentSchema,
+} from '../types/CoreTypes'
 import type { Vector2 } from '../utils/Math'
+import { unseededRandom } from '../utils/Random'
 
 /**
  * Spawn pattern types
@@ -39,13 +45,7 @@ export interface EnemyType {
   scalingFactors?: ScalingFactors
 }
 
-/**
- * Component template for creating entities
- */
-export interface ComponentTemplate {
-  type: string
-  data: Record<string, unknown>
-}
+export type { ComponentTemplate }
 
 /**
  * Scaling factors for enemy stats
@@ -118,6 +118,41 @@ export interface BossPhase {
  * Spawner component for managing enemy creation
  */
 export class SpawnerComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    active: 'boolean',
+    spawnTiming: 'string',
+    spawnPattern: 'string',
+    spawnArea: 'object',
+    enemyTypes: 'array',
+    levelRange: 'object',
+    difficultyMultiplier: 'number',
+    baseSpawnRate: 'number',
+    currentSpawnRate: 'number',
+    maxActiveEnemies: 'number',
+    currentActiveEnemies: 'number',
+    totalSpawned: 'number',
+    waves: 'array',
+    currentWaveIndex: 'number',
+    currentWave: 'object?',
+    waveProgress: 'number',
+    waveStartTime: 'number',
+    timeBetweenWaves: 'number',
+    bossPhases: 'array',
+    currentBossPhase: 'number',
+    bossEntityId: 'number?',
+    lastSpawnTime: 'number',
+    nextSpawnTime: 'number',
+    spawnCooldown: 'number',
+    timeMultiplier: 'number',
+    levelMultiplier: 'number',
+    survivalMultiplier: 'number',
+    spawnHistory: 'array',
+    maxHistorySize: 'number',
+    updateInterval: 'number',
+    lastUpdateTime: 'number',
+    spawnBudget: 'number',
+  }
+
   readonly type = 'spawner'
 
   // Core spawning properties
@@ -173,7 +208,8 @@ export class SpawnerComponent extends Component {
   constructor(spawnArea: SpawnArea) {
     super()
     this.spawnArea = spawnArea
-    this.calculateNextSpawnTime()
+    // The first spawn has no jitter so new spawners are deterministic
+    this.nextSpawnTime = this.lastSpawnTime + 1000 / this.currentSpawnRate
   }
 
   /**
@@ -335,7 +371,10 @@ export class SpawnerComponent extends Component {
   /**
    * Selects a random enemy type based on weights and level
    */
-  selectEnemyType(currentLevel: number): EnemyType | null {
+  selectEnemyType(
+    currentLevel: number,
+    random: RandomSource = unseededRandom
+  ): EnemyType | null {
     const validTypes = this.enemyTypes.filter(
       (type) => currentLevel >= type.minLevel && currentLevel <= type.maxLevel
     )
@@ -345,11 +384,11 @@ export class SpawnerComponent extends Component {
     }
 
     const totalWeight = validTypes.reduce((sum, type) => sum + type.weight, 0)
-    let random = Math.random() * totalWeight
+    let roll = random.next() * totalWeight
 
     for (const type of validTypes) {
-      random -= type.weight
-      if (random <= 0) {
+      roll -= type.weight
+      if (roll <= 0) {
         return type
       }
     }
@@ -360,28 +399,31 @@ export class SpawnerComponent extends Component {
   /**
    * Calculates spawn position based on pattern and area
    */
-  calculateSpawnPosition(pattern?: SpawnPattern): Vector2 {
+  calculateSpawnPosition(
+    pattern?: SpawnPattern,
+    random: RandomSource = unseededRandom
+  ): Vector2 {
     const currentPattern = pattern || this.spawnPattern
     const area = this.spawnArea
 
     switch (currentPattern) {
       case SpawnPattern.RANDOM:
-        return this.randomPositionInArea(area)
+        return this.randomPositionInArea(area, random)
 
       case SpawnPattern.CIRCLE:
-        return this.circularSpawnPosition(area)
+        return this.circularSpawnPosition(area, random)
 
       case SpawnPattern.PERIMETER:
-        return this.perimeterSpawnPosition(area)
+        return this.perimeterSpawnPosition(area, random)
 
       case SpawnPattern.LINE:
-        return this.lineSpawnPosition(area)
+        return this.lineSpawnPosition(area, random)
 
       case SpawnPattern.GRID:
-        return this.gridSpawnPosition(area)
+        return this.gridSpawnPosition(area, random)
 
       case SpawnPattern.PORTAL:
-        return this.portalSpawnPosition(area)
+        return this.portalSpawnPosition(area, random)
 
       default:
         return { ...area.center }
@@ -391,10 +433,10 @@ export class SpawnerComponent extends Component {
   /**
    * Random position within the spawn area
    */
-  private randomPositionInArea(area: SpawnArea): Vector2 {
+  private randomPositionInArea(area: SpawnArea, random: RandomSource): Vector2 {
     if (area.radius) {
-      const angle = Math.random() * Math.PI * 2
-      const distance = Math.random() * area.radius
+      const angle = random.next() * Math.PI * 2
+      const distance = random.next() * area.radius
       return {
         x: area.center.x + Math.cos(angle) * distance,
         y: area.center.y + Math.sin(angle) * distance,
@@ -404,16 +446,19 @@ export class SpawnerComponent extends Component {
     const width = area.width || 100
     const height = area.height || 100
     return {
-      x: area.center.x + (Math.random() - 0.5) * width,
-      y: area.center.y + (Math.random() - 0.5) * height,
+      x: area.center.x + (random.next() - 0.5) * width,
+      y: area.center.y + (random.next() - 0.5) * height,
     }
   }
 
   /**
    * Circular spawn position (around perimeter)
    */
-  private circularSpawnPosition(area: SpawnArea): Vector2 {
-    const angle = Math.random() * Math.PI * 2
+  private circularSpawnPosition(
+    area: SpawnArea,
+    random: RandomSource
+  ): Vector2 {
+    const angle = random.next() * Math.PI * 2
     const radius = area.radius || 100
     return {
       x: area.center.x + Math.cos(angle) * radius,
@@ -424,31 +469,34 @@ export class SpawnerComponent extends Component {
   /**
    * Perimeter spawn position
    */
-  private perimeterSpawnPosition(area: SpawnArea): Vector2 {
+  private perimeterSpawnPosition(
+    area: SpawnArea,
+    random: RandomSource
+  ): Vector2 {
     const width = area.width || 200
     const height = area.height || 200
-    const side = Math.floor(Math.random() * 4)
+    const side = Math.floor(random.next() * 4)
 
     switch (side) {
       case 0: // Top
         return {
-          x: area.center.x + (Math.random() - 0.5) * width,
+          x: area.center.x + (random.next() - 0.5) * width,
           y: area.center.y - height / 2,
         }
       case 1: // Right
         return {
           x: area.center.x + width / 2,
-          y: area.center.y + (Math.random() - 0.5) * height,
+          y: area.center.y + (random.next() - 0.5) * height,
         }
       case 2: // Bottom
         return {
-          x: area.center.x + (Math.random() - 0.5) * width,
+          x: area.center.x + (random.next() - 0.5) * width,
           y: area.center.y + height / 2,
         }
       case 3: // Left
         return {
           x: area.center.x - width / 2,
-          y: area.center.y + (Math.random() - 0.5) * height,
+          y: area.center.y + (random.next() - 0.5) * height,
         }
       default:
         return { ...area.center }
@@ -458,9 +506,9 @@ export class SpawnerComponent extends Component {
   /**
    * Line spawn position
    */
-  private lineSpawnPosition(area: SpawnArea): Vector2 {
+  private lineSpawnPosition(area: SpawnArea, random: RandomSource): Vector2 {
     const width = area.width || 100
-    const offset = (Math.random() - 0.5) * width
+    const offset = (random.next() - 0.5) * width
     return {
       x: area.center.x + offset,
       y: area.center.y,
@@ -470,13 +518,13 @@ export class SpawnerComponent extends Component {
   /**
    * Grid spawn position
    */
-  private gridSpawnPosition(area: SpawnArea): Vector2 {
+  private gridSpawnPosition(area: SpawnArea, random: RandomSource): Vector2 {
     const width = area.width || 100
     const height = area.height || 100
     const gridSize = 5
 
-    const gridX = Math.floor(Math.random() * gridSize)
-    const gridY = Math.floor(Math.random() * gridSize)
+    const gridX = Math.floor(random.next() * gridSize)
+    const gridY = Math.floor(random.next() * gridSize)
 
     return {
       x: area.center.x - width / 2 + (gridX / (gridSize - 1)) * width,
@@ -487,9 +535,9 @@ export class SpawnerComponent extends Component {
   /**
    * Portal spawn position (from predefined points)
    */
-  private portalSpawnPosition(area: SpawnArea): Vector2 {
+  private portalSpawnPosition(area: SpawnArea, random: RandomSource): Vector2 {
     if (area.points && area.points.length > 0) {
-      const randomIndex = Math.floor(Math.random() * area.points.length)
+      const randomIndex = Math.floor(random.next() * area.points.length)
       return { ...area.points[randomIndex] }
     }
     return { ...area.center }
@@ -498,9 +546,9 @@ export class SpawnerComponent extends Component {
   /**
    * Calculates the next spawn time
    */
-  calculateNextSpawnTime(): void {
+  calculateNextSpawnTime(random: RandomSource = unseededRandom): void {
     const baseInterval = 1000 / this.currentSpawnRate
-    const jitter = baseInterval * 0.2 * (Math.random() - 0.5) // ±10% jitter
+    const jitter = baseInterval * 0.2 * (random.next() - 0.5) // ±10% jitter
     this.nextSpawnTime = this.lastSpawnTime + baseInterval + jitter
   }
 
@@ -526,7 +574,8 @@ export class SpawnerComponent extends Component {
     entityId: EntityId,
     enemyType: string,
     position: Vector2,
-    currentTime: number
+    currentTime: number,
+    random: RandomSource = unseededRandom
   ): void {
     const spawnEvent: SpawnEvent = {
       entityId,
@@ -546,7 +595,7 @@ export class SpawnerComponent extends Component {
     this.totalSpawned++
     this.currentActiveEnemies++
     this.lastSpawnTime = currentTime
-    this.calculateNextSpawnTime()
+    this.calculateNextSpawnTime(random)
   }
 
   /**
@@ -1,15 +1,30 @@
 import { Component } from '../core/ECS/Component'
+import type { ComponentSchema } from '../types/CoreTypes'
 import type { Vector2 } from '../types/GameTypes'
 
 /**
  * Transform component for entity position, rotation, and scale
  */
 export class TransformComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    position: 'vector2',
+    rotation: 'number',
+    scale: 'vector2',
+    previousPosition: 'vector2?',
+    previousRotation: 'number?',
+  }
+
   readonly type = 'transform'
 
   position: Vector2
   rotation: number
   scale: Vector2
+  /**
+   * Position and rotation at the start of the current fixed step, recorded
+   * by the World so renderers can interpolate between steps
+   */
+  previousPosition: Vector2
+  previousRotation: number
 
   constructor(
     x: number = 0,
@@ -22,6 +37,41 @@ export class TransformComponent extends Component {
     this.position = { x, y }
     this.rotation = rotation
     this.scale = { x: scaleX, y: scaleY }
+    this.previousPosition = { x, y }
+    this.previousRotation = rotation
+  }
+
+  /**
+   * Records the current position and rotation as the previous step's
+   */
+  storePrevious(): void {
+    this.previousPosition.x = this.position.x
+    this.previousPosition.y = this.position.y
+    this.previousRotation = this.rotation
+  }
+
+  /**
+   * Gets the position between the previous and the current step, where
+   * alpha 0 is the previous step and 1 the current one
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return {
+      x:
+        this.previousPosition.x +
+        (this.position.x - this.previousPosition.x) * alpha,
+      y:
+        this.previousPosition.y +
+        (this.position.y - this.previousPosition.y) * alpha,
+    }
+  }
+
+  /**
+   * Gets the rotation between the previous and the current step
+   */
+  getInterpolatedRotation(alpha: number): number {
+    return (
+      this.previousRotation + (this.rotation - this.previousRotation) * alpha
+    )
   }
 
   /**
@@ -30,6 +80,7 @@ export class TransformComponent extends Component {
   setPosition(x: number, y: number): void {
     this.position.x = x
     this.position.y = y
+    this.markChanged()
   }
 
   /**
@@ -38,6 +89,7 @@ export class TransformComponent extends Component {
   translate(dx: number, dy: number): void {
     this.position.x += dx
     this.position.y += dy
+    this.markChanged()
   }
 
   /**
@@ -45,6 +97,7 @@ export class TransformComponent extends Component {
    */
   rotate(angle: number): void {
     this.rotation += angle
+    this.markChanged()
   }
 
   /**
@@ -53,6 +106,7 @@ export class TransformComponent extends Component {
   setScale(x: number, y: number): void {
     this.scale.x = x
     this.scale.y = y
+    this.markChanged()
   }
 
   /**
@@ -76,13 +130,16 @@ export class TransformComponent extends Component {
   }
 
   clone(): Component {
-    return new TransformComponent(
+    const clone = new TransformComponent(
       this.position.x,
       this.position.y,
       this.rotation,
       this.scale.x,
       this.scale.y
     )
+    clone.previousPosition = { ...this.previousPosition }
+    clone.previousRotation = this.previousRotation
+    return clone
   }
 
   serialize(): Record<string, unknown> {
@@ -90,6 +147,11 @@ export class TransformComponent extends Component {
       position: { x: this.position.x, y: this.position.y },
       rotation: this.rotation,
       scale: { x: this.scale.x, y: this.scale.y },
+      previousPosition: {
+        x: this.previousPosition.x,
+        y: this.previousPosition.y,
+      },
+      previousRotation: this.previousRotation,
     }
   }
 
@@ -113,6 +175,24 @@ export class TransformComponent extends Component {
       this.scale.x = 1
       this.scale.y = 1
     }
+
+    // Data without a previous step starts at rest
+    const previous = data.previousPosition as Vector2 | undefined
+    this.previousPosition.x = previous?.x ?? this.position.x
+    this.previousPosition.y = previous?.y ?? this.position.y
+    this.previousRotation =
+      (data.previousRotation as number | undefined) ?? this.rotation
+  }
+
+  applyTemplate(data: Record<string, unknown>): void {
+    super.applyTemplate(data)
+    // New instances start at rest unless the template sets a previous step
+    if (
+      data.previousPosition === undefined &&
+      data.previousRotation === undefined
+    ) {
+      this.storePrevious()
+    }
   }
 
   /**
@@ -124,5 +204,8 @@ export class TransformComponent extends Component {
     this.rotation = 0
     this.scale.x = 1
     this.scale.y = 1
+    this.previousPosition.x = 0
+    this.previousPosition.y = 0
+    this.previousRotation = 0
   }
 }
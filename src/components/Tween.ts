@@ -0,0 +1,156 @@
+import { Component } from '../core/ECS/Component'
+import type { ComponentType, ComponentSchema } from '../types/CoreTypes'
+import type { Vector2 } from '../types/GameTypes'
+import type { EasingName } from '../utils/Easing'
+
+export type TweenValue = number | Vector2
+
+/**
+ * One animation of a component property, e.g. transform.scale to 2x2
+ */
+export interface TweenStep {
+  component: ComponentType
+  /** Property of the component; dots reach nested objects ("position.x") */
+  property: string
+  to: TweenValue
+  /** Milliseconds of game time; must be greater than 0 */
+  duration: number
+  /** Defaults to linear */
+  easing?: EasingName
+  /** Milliseconds to wait before the step */
+  delay?: number
+}
+
+export interface TweenOptions {
+  /** Label sent with the TWEEN_COMPLETED event */
+  name?: string
+  /** Number of extra runs; -1 repeats until the tween is stopped */
+  repeat?: number
+  /** Plays the steps backwards after every forward run */
+  yoyo?: boolean
+}
+
+/**
+ * A running sequence of steps and how far it got
+ */
+export interface Tween {
+  id: number
+  name?: string
+  steps: TweenStep[]
+  /** Value each step started from, captured when it first runs */
+  from: (TweenValue | null)[]
+  stepIndex: number
+  /** Time spent in the current step, including its delay */
+  elapsed: number
+  repeat: number
+  yoyo: boolean
+  reversed: boolean
+}
+
+/**
+ * Tween component holding the tweens running on an entity. Tweens are plain
+ * data, so they are saved and restored with the entity.
+ */
+export class TweenComponent extends Component {
+  static readonly schema: ComponentSchema = {
+    tweens: 'array',
+    nextTweenId: 'number',
+  }
+
+  readonly type = 'tween'
+
+  tweens: Tween[]
+  nextTweenId: number
+
+  constructor() {
+    super()
+    this.tweens = []
+    this.nextTweenId = 1
+  }
+
+  /**
+   * Starts a sequence of steps and returns the tween's ID
+   */
+  add(steps: TweenStep[], options: TweenOptions = {}): number {
+    const id = this.nextTweenId++
+    this.tweens.push({
+      id,
+      name: options.name,
+      steps: steps.map((step) => ({ ...step, to: copyValue(step.to) })),
+      from: steps.map(() => null),
+      stepIndex: 0,
+      elapsed: 0,
+      repeat: options.repeat ?? 0,
+      yoyo: options.yoyo ?? false,
+      reversed: false,
+    })
+    this.markChanged()
+    return id
+  }
+
+  /**
+   * Stops a tween, leaving the property at its current value
+   */
+  remove(tweenId: number): boolean {
+    const index = this.tweens.findIndex((tween) => tween.id === tweenId)
+    if (index === -1) {
+      return false
+    }
+
+    this.tweens.splice(index, 1)
+    this.markChanged()
+    return true
+  }
+
+  /**
+   * Checks whether a tween is still running
+   */
+  has(tweenId: number): boolean {
+    return this.tweens.some((tween) => tween.id === tweenId)
+  }
+
+  /**
+   * Stops every tween
+   */
+  clear(): void {
+    this.tweens = []
+    this.markChanged()
+  }
+
+  clone(): Component {
+    const clone = new TweenComponent()
+    clone.tweens = this.tweens.map(copyTween)
+    clone.nextTweenId = this.nextTweenId
+    return clone
+  }
+
+  serialize(): Record<string, unknown> {
+    return {
+      tweens: this.tweens.map(copyTween),
+      nextTweenId: this.nextTweenId,
+    }
+  }
+
+  deserialize(data: Record<string, unknown>): void {
+    const tweens = data.tweens as Tween[] | undefined
+    this.tweens = tweens ? tweens.map(copyTween) : []
+    this.nextTweenId = (data.nextTweenId as number) ?? 1
+  }
+
+  reset(): void {
+    this.tweens = []
+    this.nextTweenId = 1
+  }
+}
+
+function copyValue(value: TweenValue): TweenValue {
+  return typeof value === 'number' ? value : { x: value.x, y: value.y }
+}
+
+function copyTween(tween: Tween): Tween {
+  return {
+    ...tween,
+    steps: tween.steps.map((step) => ({ ...step, to: copyValue(step.to) })),
+    from: tween.from.map((value) => (value === null ? null : copyValue(value))),
+  }
+}
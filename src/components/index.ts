@@ -63,3 +63,16 @@ export {
   type DifficultyLevel,
   type DifficultyModifier,
 } from './Difficulty'
+export { HierarchyComponent } from './Hierarchy'
+export { PlayerControllerComponent } from './PlayerController'
+export {
+  TweenComponent,
+  type Tween,
+  type TweenStep,
+  type TweenValue,
+  type TweenOptions,
+} from './Tween'
+export {
+  BUILTIN_COMPONENTS,
+  registerBuiltinComponents,
+} from './BuiltinComponents'
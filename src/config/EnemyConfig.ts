@@ -24,9 +24,11 @@ export const BASIC_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 8, max: 12 },
-          attackSpeed: 1.0,
-          range: 40,
+          weapon: {
+            damage: { $range: [8, 12] },
+            attackSpeed: 1.0,
+            range: 40,
+          },
         },
       },
       {
@@ -59,9 +61,11 @@ export const BASIC_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 10, max: 15 },
-          attackSpeed: 0.8,
-          range: 150,
+          weapon: {
+            damage: { $range: [10, 15] },
+            attackSpeed: 0.8,
+            range: 150,
+          },
         },
       },
       {
@@ -94,9 +98,11 @@ export const BASIC_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 5, max: 8 },
-          attackSpeed: 2.0,
-          range: 30,
+          weapon: {
+            damage: { $range: [5, 8] },
+            attackSpeed: 2.0,
+            range: 30,
+          },
         },
       },
       {
@@ -129,9 +135,11 @@ export const BASIC_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 15, max: 20 },
-          attackSpeed: 0.5,
-          range: 50,
+          weapon: {
+            damage: { $range: [15, 20] },
+            attackSpeed: 0.5,
+            range: 50,
+          },
         },
       },
       {
@@ -170,9 +178,11 @@ export const ADVANCED_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 4, max: 6 },
-          attackSpeed: 1.5,
-          range: 30,
+          weapon: {
+            damage: { $range: [4, 6] },
+            attackSpeed: 1.5,
+            range: 30,
+          },
         },
       },
       {
@@ -205,10 +215,12 @@ export const ADVANCED_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 20, max: 30 },
-          attackSpeed: 1.2,
-          range: 45,
-          criticalChance: 0.3,
+          weapon: {
+            damage: { $range: [20, 30] },
+            attackSpeed: 1.2,
+            range: 45,
+            criticalChance: 0.3,
+          },
         },
       },
       {
@@ -241,9 +253,11 @@ export const ADVANCED_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 3, max: 5 },
-          attackSpeed: 0.5,
-          range: 100,
+          weapon: {
+            damage: { $range: [3, 5] },
+            attackSpeed: 0.5,
+            range: 100,
+          },
         },
       },
       {
@@ -276,11 +290,13 @@ export const ADVANCED_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 25, max: 35 },
-          attackSpeed: 1.0,
-          range: 60,
-          criticalChance: 0.25,
-          criticalDamage: 2.0,
+          weapon: {
+            damage: { $range: [25, 35] },
+            attackSpeed: 1.0,
+            range: 60,
+            criticalChance: 0.25,
+            criticalMultiplier: 2.0,
+          },
         },
       },
       {
@@ -319,11 +335,13 @@ export const BOSS_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 40, max: 60 },
-          attackSpeed: 0.7,
-          range: 100,
-          criticalChance: 0.2,
-          criticalDamage: 2.5,
+          weapon: {
+            damage: { $range: [40, 60] },
+            attackSpeed: 0.7,
+            range: 100,
+            criticalChance: 0.2,
+            criticalMultiplier: 2.5,
+          },
         },
       },
       {
@@ -356,9 +374,11 @@ export const BOSS_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 30, max: 40 },
-          attackSpeed: 1.0,
-          range: 200,
+          weapon: {
+            damage: { $range: [30, 40] },
+            attackSpeed: 1.0,
+            range: 200,
+          },
         },
       },
       {
@@ -391,11 +411,13 @@ export const BOSS_ENEMIES: EnemyType[] = [
       {
         type: 'combat',
         data: {
-          damage: { min: 35, max: 50 },
-          attackSpeed: 1.5,
-          range: 80,
-          criticalChance: 0.4,
-          criticalDamage: 3.0,
+          weapon: {
+            damage: { $range: [35, 50] },
+            attackSpeed: 1.5,
+            range: 80,
+            criticalChance: 0.4,
+            criticalMultiplier: 3.0,
+          },
         },
       },
       {
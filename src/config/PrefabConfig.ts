@@ -0,0 +1,112 @@
+import type { Prefab } from '../types/CoreTypes'
+import { PrefabRegistry } from '../core/ECS/Prefab'
+import { registerBuiltinComponents } from '../components/BuiltinComponents'
+import { AIPersonality } from '../components/AI'
+
+/**
+ * Base prefab for spawned enemies. Enemy types extend it with the
+ * components from their EnemyType definition.
+ */
+export const ENEMY_PREFAB: Prefab = {
+  name: 'enemy',
+  components: [
+    { type: 'transform', data: {} },
+    { type: 'health', data: { maximum: 100 } },
+    { type: 'movement', data: { maxSpeed: 50 } },
+    {
+      type: 'combat',
+      data: {
+        weapon: {
+          damage: 10,
+          attackSpeed: 1.0,
+          range: 50,
+          criticalChance: 0.1,
+          criticalMultiplier: 1.5,
+        },
+      },
+    },
+    { type: 'ai', data: {} },
+  ],
+  tags: ['enemy'],
+}
+
+/**
+ * Base prefab for bosses
+ */
+export const BOSS_PREFAB: Prefab = {
+  name: 'boss',
+  extends: 'enemy',
+  components: [
+    { type: 'health', data: { maximum: 1000 } },
+    { type: 'movement', data: { maxSpeed: 30 } },
+    {
+      type: 'combat',
+      data: {
+        weapon: {
+          damage: 50,
+          attackSpeed: 0.5,
+          range: 100,
+          criticalChance: 0.25,
+          criticalMultiplier: 2.0,
+        },
+      },
+    },
+    {
+      type: 'ai',
+      data: {
+        personality: AIPersonality.BERSERKER,
+        sightRange: 400,
+        attackRange: 100,
+        moveSpeed: 0.8,
+        fearLevel: 0,
+        aggressionLevel: 1.0,
+      },
+    },
+  ],
+  tags: ['boss'],
+}
+
+/**
+ * Prefab for dropped collectibles (experience orbs, coins, ...)
+ */
+export const PICKUP_PREFAB: Prefab = {
+  name: 'pickup',
+  components: [
+    { type: 'transform', data: {} },
+    { type: 'collectible', data: {} },
+    { type: 'movement', data: {} },
+  ],
+  tags: ['pickup'],
+}
+
+/**
+ * Prefab for skill projectiles. Projectiles keep their speed.
+ */
+export const PROJECTILE_PREFAB: Prefab = {
+  name: 'projectile',
+  components: [
+    { type: 'transform', data: {} },
+    { type: 'movement', data: { maxSpeed: 1000, friction: 0 } },
+  ],
+  tags: ['projectile'],
+}
+
+export const DEFAULT_PREFABS: Prefab[] = [
+  ENEMY_PREFAB,
+  BOSS_PREFAB,
+  PICKUP_PREFAB,
+  PROJECTILE_PREFAB,
+]
+
+/**
+ * Registers the built-in components and the default prefabs. Prefabs that
+ * are already registered (e.g. replaced by the game) are skipped.
+ */
+export function registerDefaultPrefabs(): void {
+  registerBuiltinComponents()
+  DEFAULT_PREFABS.forEach((prefab) => {
+    if (!PrefabRegistry.has(prefab.name)) {
+      PrefabRegistry.register(prefab)
+    }
+  })
+}
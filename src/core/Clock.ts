@@ -0,0 +1,42 @@
+import type { TimeSource } from '../types/CoreTypes'
+
+/**
+ * Game clock measuring simulated time in milliseconds. It only moves when
+ * advanced (the World advances it by each frame's delta), so game logic that
+ * reads it behaves the same no matter how long frames really take.
+ */
+export class Clock implements TimeSource {
+  private time: number
+
+  constructor(startTime: number = 0) {
+    this.time = startTime
+  }
+
+  /**
+   * Gets the current game time
+   */
+  now(): number {
+    return this.time
+  }
+
+  /**
+   * Moves the clock forward
+   */
+  advance(deltaTime: number): void {
+    this.time += deltaTime
+  }
+
+  /**
+   * Sets the current game time (e.g. when restoring a save)
+   */
+  setTime(time: number): void {
+    this.time = time
+  }
+}
+
+/**
+ * Wall clock time source. Used by systems that run outside of a World.
+ */
+export const realtimeClock: TimeSource = {
+  now: () => Date.now(),
+}
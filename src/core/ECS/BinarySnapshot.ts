@@ -0,0 +1,462 @@
+import type { EntitySnapshot, WorldSnapshot } from '../../types/CoreTypes'
+
+/**
+ * How numbers that aren't integers are stored. Integers are always stored
+ * exactly, as varints.
+ * - float64: exact; numbers that fit a float32 exactly take 4 bytes
+ * - float32: 4 bytes, about 7 significant digits
+ * - quantized: rounded to a multiple of the quantization step and stored
+ *   as a varint
+ */
+export type FloatEncoding = 'float64' | 'float32' | 'quantized'
+
+export interface BinarySnapshotOptions {
+  /** Defaults to float64 */
+  floats?: FloatEncoding
+  /** Step quantized numbers are rounded to; defaults to 0.001 */
+  quantizationStep?: number
+}
+
+const MAGIC = [0x56, 0x45, 0x53, 0x42] // "VESB"
+const FORMAT_VERSION = 1
+const FLOAT_ENCODINGS: FloatEncoding[] = ['float64', 'float32', 'quantized']
+
+const TAG_NULL = 0
+const TAG_FALSE = 1
+const TAG_TRUE = 2
+const TAG_INT = 3
+const TAG_NEGATIVE_INT = 4
+const TAG_FLOAT32 = 5
+const TAG_FLOAT64 = 6
+const TAG_QUANTIZED = 7
+const TAG_STRING = 8
+const TAG_ARRAY = 9
+const TAG_OBJECT = 10
+
+const ENTITY_ACTIVE = 1
+const ENTITY_NAMED = 2
+const ENTITY_TAGGED = 4
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// Builtins used for every value of a snapshot, looked up once: reading a
+// global is slow in sandboxed contexts such as Node's vm module, which Jest
+// runs code in
+const { isArray } = Array
+const { keys } = Object
+const { isSafeInteger } = Number
+const { abs, floor, fround, round } = Math
+
+/**
+ * Encodes a world snapshot in a compact binary format. Component types and
+ * strings (field names included) are stored once in dictionaries and
+ * referenced by index; integers are varints.
+ *
+ * Values round-trip like JSON: undefined object fields are dropped and
+ * undefined array items become null. Unlike JSON, NaN and Infinity are kept.
+ */
+export function encodeSnapshot(
+  snapshot: WorldSnapshot,
+  options: BinarySnapshotOptions = {}
+): Uint8Array {
+  return new SnapshotEncoder(options).encode(snapshot)
+}
+
+/**
+ * Decodes a snapshot made by encodeSnapshot()
+ */
+export function decodeSnapshot(bytes: Uint8Array): WorldSnapshot {
+  return new SnapshotDecoder(bytes).decode()
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(4096)
+  private view = new DataView(this.bytes.buffer)
+  private length = 0
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.bytes[this.length++] = value
+  }
+
+  /** Writes a non-negative integer, 7 bits per byte */
+  varint(value: number): void {
+    this.reserve(8)
+    while (value >= 0x80) {
+      this.bytes[this.length++] = value % 0x80 | 0x80
+      value = floor(value / 0x80)
+    }
+    this.bytes[this.length++] = value
+  }
+
+  float32(value: number): void {
+    this.reserve(4)
+    this.view.setFloat32(this.length, value, true)
+    this.length += 4
+  }
+
+  float64(value: number): void {
+    this.reserve(8)
+    this.view.setFloat64(this.length, value, true)
+    this.length += 8
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.reserve(bytes.length)
+    this.bytes.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  string(value: string): void {
+    const bytes = textEncoder.encode(value)
+    this.varint(bytes.length)
+    this.raw(bytes)
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) {
+      return
+    }
+    let capacity = this.bytes.length * 2
+    while (capacity < this.length + size) {
+      capacity *= 2
+    }
+    const bytes = new Uint8Array(capacity)
+    bytes.set(this.bytes.subarray(0, this.length))
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer)
+  }
+}
+
+class SnapshotEncoder {
+  private body = new ByteWriter()
+  private componentTypes = new Map<string, number>()
+  private strings = new Map<string, number>()
+  private floats: FloatEncoding
+  private quantizationStep: number
+  private quantizationScale: number
+
+  constructor(options: BinarySnapshotOptions) {
+    this.floats = options.floats ?? 'float64'
+    this.quantizationStep = options.quantizationStep ?? 0.001
+    if (!FLOAT_ENCODINGS.includes(this.floats)) {
+      throw new Error(`Unknown float encoding "${this.floats}"`)
+    }
+    if (!(this.quantizationStep > 0)) {
+      throw new Error('Quantization step must be greater than 0')
+    }
+    this.quantizationScale = 1 / this.quantizationStep
+  }
+
+  encode(snapshot: WorldSnapshot): Uint8Array {
+    const { entities, ...world } = snapshot
+    this.value(world)
+    this.body.varint(entities.length)
+    entities.forEach((entity) => this.entity(entity))
+    const body = this.body.finish()
+
+    const output = new ByteWriter()
+    MAGIC.forEach((byte) => output.byte(byte))
+    output.byte(FORMAT_VERSION)
+    output.byte(FLOAT_ENCODINGS.indexOf(this.floats))
+    if (this.floats === 'quantized') {
+      output.float64(this.quantizationStep)
+    }
+    for (const dictionary of [this.componentTypes, this.strings]) {
+      output.varint(dictionary.size)
+      dictionary.forEach((_index, value) => output.string(value))
+    }
+    output.raw(body)
+    return output.finish()
+  }
+
+  private entity(entity: EntitySnapshot): void {
+    const { body } = this
+    body.varint(entity.id)
+    body.varint(entity.generation)
+    body.byte(
+      (entity.active ? ENTITY_ACTIVE : 0) |
+        (entity.name !== undefined ? ENTITY_NAMED : 0) |
+        (entity.tags !== undefined ? ENTITY_TAGGED : 0)
+    )
+    if (entity.name !== undefined) {
+      body.varint(this.index(this.strings, entity.name))
+    }
+    if (entity.tags !== undefined) {
+      body.varint(entity.tags.length)
+      entity.tags.forEach((tag) => body.varint(this.index(this.strings, tag)))
+    }
+
+    const types = keys(entity.components)
+    body.varint(types.length)
+    types.forEach((type) => {
+      body.varint(this.index(this.componentTypes, type))
+      this.value(entity.components[type])
+    })
+  }
+
+  private value(value: unknown): void {
+    const { body } = this
+    switch (typeof value) {
+      case 'number':
+        this.number(value)
+        return
+      case 'string':
+        body.byte(TAG_STRING)
+        body.varint(this.index(this.strings, value))
+        return
+      case 'boolean':
+        body.byte(value ? TAG_TRUE : TAG_FALSE)
+        return
+      case 'undefined':
+        body.byte(TAG_NULL)
+        return
+      case 'object':
+        break
+      default:
+        throw new Error(
+          `Cannot encode ${typeof value} values in a binary snapshot`
+        )
+    }
+
+    if (value === null) {
+      body.byte(TAG_NULL)
+    } else if (isArray(value)) {
+      body.byte(TAG_ARRAY)
+      body.varint(value.length)
+      for (const item of value) {
+        this.value(item)
+      }
+    } else {
+      const object = value as Record<string, unknown>
+      const fields = keys(object)
+      let count = 0
+      for (const key of fields) {
+        if (object[key] !== undefined) {
+          count++
+        }
+      }
+      body.byte(TAG_OBJECT)
+      body.varint(count)
+      for (const key of fields) {
+        if (object[key] !== undefined) {
+          body.varint(this.index(this.strings, key))
+          this.value(object[key])
+        }
+      }
+    }
+  }
+
+  private number(value: number): void {
+    const { body } = this
+    if (isSafeInteger(value)) {
+      body.byte(value < 0 ? TAG_NEGATIVE_INT : TAG_INT)
+      body.varint(abs(value))
+      return
+    }
+
+    if (this.floats === 'quantized') {
+      const steps = round(value * this.quantizationScale)
+      if (isSafeInteger(steps * 2)) {
+        body.byte(TAG_QUANTIZED)
+        body.varint(steps < 0 ? -steps * 2 - 1 : steps * 2)
+        return
+      }
+    }
+
+    if (this.floats === 'float32' || fround(value) === value) {
+      body.byte(TAG_FLOAT32)
+      body.float32(value)
+    } else {
+      body.byte(TAG_FLOAT64)
+      body.float64(value)
+    }
+  }
+
+  private index(dictionary: Map<string, number>, value: string): number {
+    let index = dictionary.get(value)
+    if (index === undefined) {
+      index = dictionary.size
+      dictionary.set(value, index)
+    }
+    return index
+  }
+}
+
+class SnapshotDecoder {
+  private view: DataView
+  private offset = 0
+  private componentTypes: string[] = []
+  private strings: string[] = []
+  private quantizationScale = 1
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  decode(): WorldSnapshot {
+    if (MAGIC.some((byte) => this.byte() !== byte)) {
+      this.fail('not a binary world snapshot')
+    }
+    const version = this.byte()
+    if (version !== FORMAT_VERSION) {
+      this.fail(`format version ${version} is not supported`)
+    }
+    if (FLOAT_ENCODINGS[this.byte()] === 'quantized') {
+      this.quantizationScale = 1 / this.float64()
+    }
+    this.componentTypes = this.dictionary()
+    this.strings = this.dictionary()
+
+    const world = this.value() as Omit<WorldSnapshot, 'entities'>
+    const entities: EntitySnapshot[] = []
+    const count = this.varint()
+    for (let i = 0; i < count; i++) {
+      entities.push(this.entity())
+    }
+    if (this.offset !== this.bytes.length) {
+      this.fail('unexpected data after the snapshot')
+    }
+    return { ...world, entities }
+  }
+
+  private entity(): EntitySnapshot {
+    const id = this.varint()
+    const generation = this.varint()
+    const flags = this.byte()
+    const entity: EntitySnapshot = {
+      id,
+      generation,
+      components: {},
+      active: (flags & ENTITY_ACTIVE) !== 0,
+    }
+    if (flags & ENTITY_NAMED) {
+      entity.name = this.lookup(this.strings, this.varint())
+    }
+    if (flags & ENTITY_TAGGED) {
+      const count = this.varint()
+      entity.tags = []
+      for (let i = 0; i < count; i++) {
+        entity.tags.push(this.lookup(this.strings, this.varint()))
+      }
+    }
+
+    const count = this.varint()
+    for (let i = 0; i < count; i++) {
+      const type = this.lookup(this.componentTypes, this.varint())
+      entity.components[type] = this.value() as Record<string, unknown>
+    }
+    return entity
+  }
+
+  private value(): unknown {
+    const tag = this.byte()
+    switch (tag) {
+      case TAG_NULL:
+        return null
+      case TAG_FALSE:
+        return false
+      case TAG_TRUE:
+        return true
+      case TAG_INT:
+        return this.varint()
+      case TAG_NEGATIVE_INT:
+        return -this.varint()
+      case TAG_FLOAT32:
+        this.need(4)
+        this.offset += 4
+        return this.view.getFloat32(this.offset - 4, true)
+      case TAG_FLOAT64:
+        return this.float64()
+      case TAG_QUANTIZED: {
+        const encoded = this.varint()
+        const steps = encoded % 2 === 0 ? encoded / 2 : -(encoded + 1) / 2
+        return steps / this.quantizationScale
+      }
+      case TAG_STRING:
+        return this.lookup(this.strings, this.varint())
+      case TAG_ARRAY: {
+        const length = this.varint()
+        const array: unknown[] = []
+        for (let i = 0; i < length; i++) {
+          array.push(this.value())
+        }
+        return array
+      }
+      case TAG_OBJECT: {
+        const count = this.varint()
+        const object: Record<string, unknown> = {}
+        for (let i = 0; i < count; i++) {
+          object[this.lookup(this.strings, this.varint())] = this.value()
+        }
+        return object
+      }
+      default:
+        return this.fail(`unknown value tag ${tag}`)
+    }
+  }
+
+  private dictionary(): string[] {
+    const count = this.varint()
+    const values: string[] = []
+    for (let i = 0; i < count; i++) {
+      const length = this.varint()
+      this.need(length)
+      values.push(
+        textDecoder.decode(
+          this.bytes.subarray(this.offset, this.offset + length)
+        )
+      )
+      this.offset += length
+    }
+    return values
+  }
+
+  private lookup(dictionary: string[], index: number): string {
+    if (index >= dictionary.length) {
+      this.fail(`dictionary index ${index} is out of range`)
+    }
+    return dictionary[index]
+  }
+
+  private byte(): number {
+    this.need(1)
+    return this.bytes[this.offset++]
+  }
+
+  private varint(): number {
+    let value = 0
+    let scale = 1
+    let byte: number
+    do {
+      byte = this.byte()
+      value += (byte & 0x7f) * scale
+      scale *= 0x80
+    } while (byte & 0x80)
+    return value
+  }
+
+  private float64(): number {
+    this.need(8)
+    this.offset += 8
+    return this.view.getFloat64(this.offset - 8, true)
+  }
+
+  private need(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      this.fail('unexpected end of data')
+    }
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`Cannot decode binary snapshot: ${reason}`)
+  }
+}
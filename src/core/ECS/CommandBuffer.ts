@@ -0,0 +1,233 @@
+import type {
+  EntityId,
+  EntityHandle,
+  ComponentType,
+  PrefabOverrides,
+} from '../../types/CoreTypes'
+import type { Component } from './Component'
+import type { World } from './World'
+import { getHandleId } from './EntityHandle'
+import { PrefabRegistry } from './Prefab'
+
+/**
+ * Entity that has been queued for creation. Its ID is reserved right away
+ * so it can be referenced (e.g. in events) before the buffer is flushed.
+ */
+export interface PendingEntity {
+  readonly id: EntityId
+  readonly handle: EntityHandle
+  addComponent(component: Component): PendingEntity
+  addTag(tag: string): PendingEntity
+  setName(name: string | null): PendingEntity
+}
+
+type Command =
+  | {
+      type: 'create'
+      handle: EntityHandle
+      components: Component[]
+      tags: string[]
+      name: string | null
+    }
+  | { type: 'destroy'; handle: EntityHandle }
+  | { type: 'addComponent'; handle: EntityHandle; component: Component }
+  | {
+      type: 'removeComponent'
+      handle: EntityHandle
+      componentType: ComponentType
+    }
+
+/**
+ * Records structural changes (creating/destroying entities, adding/removing
+ * components) so they can be applied later instead of in the middle of a
+ * system update. The World flushes its buffer at sync points: at the start
+ * of a frame, at the end of every phase and after systems that declare
+ * syncPoint.
+ *
+ * Commands target entities by handle, so a command for an entity that was
+ * destroyed before the flush is skipped.
+ */
+export class CommandBuffer {
+  private commands: Command[] = []
+  private pendingHandles = new Map<EntityId, EntityHandle>()
+
+  constructor(private world: World) {}
+
+  /**
+   * Queues the creation of an entity with the given components
+   */
+  createEntity(components: Component[] = []): PendingEntity {
+    const handle = this.world.reserveEntity()
+    const command: Command = {
+      type: 'create',
+      handle,
+      components: [...components],
+      tags: [],
+      name: null,
+    }
+    this.commands.push(command)
+    this.pendingHandles.set(getHandleId(handle), handle)
+
+    const pending: PendingEntity = {
+      id: getHandleId(handle),
+      handle,
+      addComponent: (component) => {
+        command.components.push(component)
+        return pending
+      },
+      addTag: (tag) => {
+        command.tags.push(tag)
+        return pending
+      },
+      setName: (name) => {
+        command.name = name
+        return pending
+      },
+    }
+    return pending
+  }
+
+  /**
+   * Queues the creation of an entity from a registered prefab. The
+   * components are built right away, so an unknown prefab throws here.
+   */
+  instantiate(prefabName: string, overrides?: PrefabOverrides): PendingEntity {
+    const pending = this.createEntity(
+      PrefabRegistry.createComponents(prefabName, overrides, () =>
+        this.world.random.next()
+      )
+    )
+    PrefabRegistry.getTags(prefabName).forEach((tag) => pending.addTag(tag))
+    return pending
+  }
+
+  /**
+   * Queues the destruction of an entity
+   */
+  destroyEntity(entityId: EntityId): void {
+    this.record(entityId, (handle) => ({ type: 'destroy', handle }))
+  }
+
+  /**
+   * Queues adding a component to an entity
+   */
+  addComponent(entityId: EntityId, component: Component): void {
+    this.record(entityId, (handle) => ({
+      type: 'addComponent',
+      handle,
+      component,
+    }))
+  }
+
+  /**
+   * Queues removing a component from an entity
+   */
+  removeComponent(entityId: EntityId, componentType: ComponentType): void {
+    this.record(entityId, (handle) => ({
+      type: 'removeComponent',
+      handle,
+      componentType,
+    }))
+  }
+
+  /**
+   * Gets the number of queued commands
+   */
+  get size(): number {
+    return this.commands.length
+  }
+
+  /**
+   * Checks if there are no queued commands
+   */
+  isEmpty(): boolean {
+    return this.commands.length === 0
+  }
+
+  /**
+   * Applies the queued commands to the world in the order they were
+   * recorded. Commands recorded while flushing are applied as well. A
+   * command that throws doesn't stop the others: the buffer is always
+   * drained, and the first error is rethrown afterwards.
+   */
+  flush(): void {
+    const errors: unknown[] = []
+    while (this.commands.length > 0) {
+      const commands = this.commands
+      this.commands = []
+      this.pendingHandles.clear()
+      commands.forEach((command) => {
+        try {
+          this.apply(command)
+        } catch (error) {
+          errors.push(error)
+        }
+      })
+    }
+    if (errors.length > 0) {
+      throw errors[0]
+    }
+  }
+
+  /**
+   * Discards the queued commands, releasing the IDs reserved for entities
+   * that were never created
+   */
+  clear(): void {
+    this.commands.forEach((command) => {
+      if (command.type === 'create') {
+        this.world.releaseReservedEntity(command.handle)
+      }
+    })
+    this.commands = []
+    this.pendingHandles.clear()
+  }
+
+  private record(
+    entityId: EntityId,
+    createCommand: (handle: EntityHandle) => Command
+  ): void {
+    const handle =
+      this.pendingHandles.get(entityId) ??
+      this.world.getEntity(entityId)?.handle
+    if (handle !== undefined) {
+      this.commands.push(createCommand(handle))
+    }
+  }
+
+  private apply(command: Command): void {
+    if (command.type === 'create') {
+      const entity = this.world.createReservedEntity(command.handle)
+      try {
+        command.components.forEach((component) =>
+          entity.addComponent(component)
+        )
+        command.tags.forEach((tag) => entity.addTag(tag))
+        entity.setName(command.name)
+      } catch (error) {
+        // Don't leave a half-built entity behind; destroying it recycles
+        // the reserved ID
+        this.world.destroyEntity(entity.id)
+        throw error
+      }
+      return
+    }
+
+    const entity = this.world.resolve(command.handle)
+    if (!entity) {
+      return
+    }
+
+    switch (command.type) {
+      case 'destroy':
+        this.world.destroyEntity(entity.id)
+        break
+      case 'addComponent':
+        entity.addComponent(command.component)
+        break
+      case 'removeComponent':
+        entity.removeComponent(command.componentType)
+        break
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import type {
   Component as IComponent,
   ComponentType,
+  ComponentSchema,
+  ComponentMigration,
 } from '../../types/CoreTypes'
 import {
   ObjectPool,
@@ -8,13 +10,66 @@ import {
   type Poolable,
 } from '../../utils/Pooling'
 
+/**
+ * Listeners notified by Component.markChanged(). They are kept outside the
+ * components so components stay plain data objects.
+ */
+const changeListeners = new WeakMap<Component, (component: Component) => void>()
+
+/**
+ * Key under which serialized component data stores its schema version
+ */
+export const COMPONENT_VERSION_KEY = '$version'
+
 /**
  * Base class for all components in the ECS architecture.
  * Components are pure data containers with no logic.
  */
 export abstract class Component implements IComponent, Poolable {
+  /**
+   * Version of the serialized format. Bump it when serialize() changes and
+   * register a migration from the previous version with the registry.
+   */
+  static readonly version: number = 1
+
+  /**
+   * Fields serialized data must contain. ComponentRegistry.create() checks
+   * data against it before deserialize().
+   */
+  static readonly schema?: ComponentSchema
+
   abstract readonly type: ComponentType
 
+  /**
+   * World change tick at which this component was added to an entity
+   */
+  addedTick: number = 0
+
+  /**
+   * World change tick at which this component was last marked as changed
+   */
+  changedTick: number = 0
+
+  /**
+   * Flags the component as changed so `changed` query filters and
+   * COMPONENT_UPDATED events pick it up. Mutating methods call this; code
+   * that writes fields directly should call it as well.
+   */
+  markChanged(): void {
+    changeListeners.get(this)?.(this)
+  }
+
+  /**
+   * Sets the listener notified by markChanged() (used by Entity)
+   */
+  setChangeListener(listener: ((component: Component) => void) | null): void {
+    if (listener) {
+      changeListeners.set(this, listener)
+    } else {
+      changeListeners.delete(this)
+    }
+  }
+
   /**
    * Creates a deep clone of the component
    */
@@ -30,6 +85,15 @@ export abstract class Component implements IComponent, Poolable {
    */
   abstract deserialize(data: Record<string, unknown>): void
 
+  /**
+   * Applies prefab template data on top of the component's current state.
+   * Template data uses the serialized format but may be partial; nested
+   * plain objects are merged and everything else is replaced.
+   */
+  applyTemplate(data: Record<string, unknown>): void {
+    this.deserialize(mergeTemplateData(this.serialize(), data))
+  }
+
   /**
    * Resets the component for reuse (Poolable interface)
    * Default implementation calls deserialize with empty object
@@ -39,15 +103,54 @@ export abstract class Component implements IComponent, Poolable {
   }
 }
 
+/**
+ * Deep merges template data into a base object. Plain objects are merged
+ * recursively; arrays and other values from the template replace the base.
+ */
+export function mergeTemplateData(
+  base: Record<string, unknown>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base }
+  Object.entries(data).forEach(([key, value]) => {
+    const current = merged[key]
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeTemplateData(current, value)
+        : value
+  })
+  return merged
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  )
+}
+
+/**
+ * Registered component class with the statics ComponentRegistry reads
+ */
+type RegisteredComponentClass = (new (...args: unknown[]) => Component) & {
+  version?: number
+  schema?: ComponentSchema
+}
+
 /**
  * Component registry for managing component types
  */
 export class ComponentRegistry {
-  private static components = new Map<ComponentType, typeof Component>()
+  private static components = new Map<ComponentType, RegisteredComponentClass>()
   private static componentPools = new Map<
     ComponentType,
     ObjectPool<Component>
   >()
+  private static migrations = new Map<
+    ComponentType,
+    Map<number, ComponentMigration>
+  >()
   private static poolingEnabled = true
 
   /**
@@ -61,7 +164,7 @@ export class ComponentRegistry {
     if (ComponentRegistry.components.has(type)) {
       throw new Error(`Component type "${type}" is already registered`)
     }
-    ComponentRegistry.components.set(type, componentClass as typeof Component)
+    ComponentRegistry.components.set(type, componentClass)
 
     // Create component pool if pooling is enabled
     if (ComponentRegistry.poolingEnabled) {
@@ -82,17 +185,128 @@ export class ComponentRegistry {
   }
 
   /**
-   * Creates a component instance from type and data
+   * Unregisters a component type and drops its pool
+   */
+  static unregister(type: ComponentType): void {
+    ComponentRegistry.componentPools.get(type)?.clear()
+    ComponentRegistry.componentPools.delete(type)
+    ComponentRegistry.components.delete(type)
+  }
+
+  /**
+   * Registers a migration that upgrades serialized data of a component type
+   * from one version to the next
+   */
+  static registerMigration(
+    type: ComponentType,
+    fromVersion: number,
+    migration: ComponentMigration
+  ): void {
+    let migrations = ComponentRegistry.migrations.get(type)
+    if (!migrations) {
+      migrations = new Map()
+      ComponentRegistry.migrations.set(type, migrations)
+    }
+    if (migrations.has(fromVersion)) {
+      throw new Error(
+        `A migration of component type "${type}" from version ${fromVersion} is already registered`
+      )
+    }
+    migrations.set(fromVersion, migration)
+  }
+
+  /**
+   * Serializes a component along with its schema version
+   */
+  static serialize(component: Component): Record<string, unknown> {
+    return {
+      ...component.serialize(),
+      [COMPONENT_VERSION_KEY]:
+        (component.constructor as RegisteredComponentClass).version ?? 1,
+    }
+  }
+
+  /**
+   * Upgrades serialized data to the current version of its component type
+   * and checks it against the type's schema. Data without a version is
+   * treated as version 1. Throws an error naming the offending field.
+   */
+  static migrate(
+    type: ComponentType,
+    data: Record<string, unknown>
+  ): Record<string, unknown> {
+    const ComponentClass = ComponentRegistry.components.get(type)
+    if (!ComponentClass) {
+      throw new Error(`Unknown component type: ${type}`)
+    }
+
+    const { [COMPONENT_VERSION_KEY]: savedVersion = 1, ...fields } = data
+    const currentVersion = ComponentClass.version ?? 1
+    if (
+      typeof savedVersion !== 'number' ||
+      !Number.isInteger(savedVersion) ||
+      savedVersion < 1
+    ) {
+      throw new Error(
+        `Invalid "${type}" component data: field "${COMPONENT_VERSION_KEY}" must be a positive integer`
+      )
+    }
+    if (savedVersion > currentVersion) {
+      throw new Error(
+        `Cannot load "${type}" component data of version ${savedVersion}: the latest version is ${currentVersion}`
+      )
+    }
+
+    let migrated = fields
+    for (let version = savedVersion; version < currentVersion; version++) {
+      const migration = ComponentRegistry.migrations.get(type)?.get(version)
+      if (!migration) {
+        throw new Error(
+          `Cannot migrate "${type}" component data from version ${version}: no migration is registered`
+        )
+      }
+      migrated = migration(migrated)
+    }
+
+    if (ComponentClass.schema) {
+      validateSchema(type, ComponentClass.schema, migrated)
+    }
+    return { ...migrated, [COMPONENT_VERSION_KEY]: currentVersion }
+  }
+
+  /**
+   * Creates a component instance from type and data. The data is migrated
+   * to the current version and validated first (see migrate()).
    */
   static create(
     type: ComponentType,
     data?: Record<string, unknown>
+  ): Component {
+    return ComponentRegistry.instantiate(
+      type,
+      data && ComponentRegistry.migrate(type, data)
+    )
+  }
+
+  /**
+   * Creates a component instance from data that migrate() has already
+   * returned, without migrating or validating it again
+   */
+  static instantiate(
+    type: ComponentType,
+    data?: Record<string, unknown>
   ): Component {
     const ComponentClass = ComponentRegistry.components.get(type)
     if (!ComponentClass) {
       throw new Error(`Unknown component type: ${type}`)
     }
 
+    let fields: Record<string, unknown> | undefined
+    if (data) {
+      fields = { ...data }
+      delete fields[COMPONENT_VERSION_KEY]
+    }
+
     let component: Component
 
     // Try to get from pool if pooling is enabled
@@ -115,8 +329,8 @@ export class ComponentRegistry {
       component = new Constructor()
     }
 
-    if (data) {
-      component.deserialize(data)
+    if (fields) {
+      component.deserialize(fields)
     }
     return component
   }
@@ -195,5 +409,63 @@ export class ComponentRegistry {
     ComponentRegistry.componentPools.forEach((pool) => pool.clear())
     ComponentRegistry.componentPools.clear()
     ComponentRegistry.components.clear()
+    ComponentRegistry.migrations.clear()
+  }
+}
+
+/**
+ * Checks serialized data against a component schema
+ */
+function validateSchema(
+  type: ComponentType,
+  schema: ComponentSchema,
+  data: Record<string, unknown>
+): void {
+  Object.entries(schema).forEach(([field, fieldSchema]) => {
+    const optional = fieldSchema.endsWith('?')
+    const expected = fieldSchema.replace('?', '')
+    const value = data[field]
+
+    if (value === undefined || (optional && value === null)) {
+      if (!optional) {
+        throw new Error(
+          `Invalid "${type}" component data: field "${field}" is missing`
+        )
+      }
+      return
+    }
+    if (!matchesFieldType(value, expected)) {
+      throw new Error(
+        `Invalid "${type}" component data: field "${field}" must be of type ${expected}, got ${describeValue(value)}`
+      )
+    }
+  })
+}
+
+function matchesFieldType(value: unknown, expected: string): boolean {
+  switch (expected) {
+    case 'vector2':
+      return (
+        isObject(value) &&
+        typeof value.x === 'number' &&
+        typeof value.y === 'number'
+      )
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return isObject(value)
+    default:
+      return typeof value === expected
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null'
   }
+  return Array.isArray(value) ? 'array' : typeof value
 }
@@ -1,12 +1,30 @@
 import type {
   EntityId,
+  EntityHandle,
   ComponentType,
-  ComponentMap,
   EntitySnapshot,
 } from '../../types/CoreTypes'
 import type { Component } from './Component'
 import { ComponentRegistry } from './Component'
 import type { Poolable } from '../../utils/Pooling'
+import { createEntityHandle } from './EntityHandle'
+
+/**
+ * Receives changes made to an entity (implemented by the World to keep its
+ * queries, change ticks and events up to date)
+ */
+export interface EntityChangeListener {
+  /** Components were added or removed */
+  entityChanged(entity: Entity): void
+  activeChanged(entity: Entity): void
+  componentAdded(entity: Entity, component: Component): void
+  componentRemoved(entity: Entity, component: Component): void
+  componentChanged(entity: Entity, component: Component): void
+  /** Called before the name changes; throws if the name is taken */
+  nameChanging(entity: Entity, name: string | null): void
+  tagAdded(entity: Entity, tag: string): void
+  tagRemoved(entity: Entity, tag: string): void
+}
 
 /**
  * Entity class representing a game object in the ECS architecture.
@@ -14,14 +32,59 @@ import type { Poolable } from '../../utils/Pooling'
  */
 export class Entity implements Poolable {
   private static nextId: EntityId = 1
-  private _components: ComponentMap = new Map()
+  private _components = new Map<ComponentType, Component>()
   private _active: boolean = true
+  private _generation: number = 0
+  private _archetype: string = ''
+  private _name: string | null = null
+  private _tags = new Set<string>()
+  private _changeListener: EntityChangeListener | null = null
+  private readonly handleComponentChanged = (component: Component): void => {
+    this._changeListener?.componentChanged(this, component)
+  }
   public id: EntityId
 
   constructor(id?: EntityId) {
     this.id = id ?? Entity.nextId++
   }
 
+  /**
+   * Gets the generation of this entity's ID
+   */
+  get generation(): number {
+    return this._generation
+  }
+
+  /**
+   * Gets a generational handle that stops resolving once this entity is
+   * destroyed, even if its ID gets recycled
+   */
+  get handle(): EntityHandle {
+    return createEntityHandle(this.id, this._generation)
+  }
+
+  /**
+   * Gets the archetype key: the sorted component types on this entity
+   */
+  get archetype(): string {
+    return this._archetype
+  }
+
+  /**
+   * Gets the unique name of this entity, if it has one
+   */
+  get name(): string | null {
+    return this._name
+  }
+
+  /**
+   * Sets the listener notified when components are added, removed or
+   * changed, or the active state, name or tags change
+   */
+  setChangeListener(listener: EntityChangeListener | null): void {
+    this._changeListener = listener
+  }
+
   /**
    * Adds a component to the entity
    */
@@ -32,6 +95,9 @@ export class Entity implements Poolable {
       )
     }
     this._components.set(component.type, component)
+    component.setChangeListener(this.handleComponentChanged)
+    this.compositionChanged()
+    this._changeListener?.componentAdded(this, component)
     return this
   }
 
@@ -42,6 +108,9 @@ export class Entity implements Poolable {
     const component = this._components.get(componentType)
     if (component) {
       this._components.delete(componentType)
+      component.setChangeListener(null)
+      this.compositionChanged()
+      this._changeListener?.componentRemoved(this, component)
       // Return component to pool
       ComponentRegistry.release(component)
     }
@@ -73,7 +142,7 @@ export class Entity implements Poolable {
    * Gets all components on the entity
    */
   getComponents(): Component[] {
-    return Array.from(this._components.values()) as Component[]
+    return Array.from(this._components.values())
   }
 
   /**
@@ -83,11 +152,63 @@ export class Entity implements Poolable {
     return Array.from(this._components.keys())
   }
 
+  /**
+   * Sets the entity's name. Names are unique within a world; setting a
+   * name that another entity uses throws.
+   */
+  setName(name: string | null): Entity {
+    if (this._name === name) {
+      return this
+    }
+    this._changeListener?.nameChanging(this, name)
+    this._name = name
+    return this
+  }
+
+  /**
+   * Adds a tag to the entity
+   */
+  addTag(tag: string): Entity {
+    if (!this._tags.has(tag)) {
+      this._tags.add(tag)
+      this._changeListener?.tagAdded(this, tag)
+    }
+    return this
+  }
+
+  /**
+   * Removes a tag from the entity
+   */
+  removeTag(tag: string): Entity {
+    if (this._tags.delete(tag)) {
+      this._changeListener?.tagRemoved(this, tag)
+    }
+    return this
+  }
+
+  /**
+   * Checks if the entity has a tag
+   */
+  hasTag(tag: string): boolean {
+    return this._tags.has(tag)
+  }
+
+  /**
+   * Gets all tags on the entity
+   */
+  getTags(): string[] {
+    return Array.from(this._tags)
+  }
+
   /**
    * Activates or deactivates the entity
    */
   setActive(active: boolean): void {
+    if (this._active === active) {
+      return
+    }
     this._active = active
+    this._changeListener?.activeChanged(this)
   }
 
   /**
@@ -101,16 +222,24 @@ export class Entity implements Poolable {
    * Creates a snapshot of the entity state
    */
   snapshot(): EntitySnapshot {
-    const components: Record<ComponentType, Component> = {}
+    const components: Record<ComponentType, Record<string, unknown>> = {}
     this._components.forEach((component, type) => {
-      components[type] = component.clone()
+      components[type] = ComponentRegistry.serialize(component)
     })
 
-    return {
+    const snapshot: EntitySnapshot = {
       id: this.id,
+      generation: this._generation,
       components,
       active: this._active,
     }
+    if (this._name !== null) {
+      snapshot.name = this._name
+    }
+    if (this._tags.size > 0) {
+      snapshot.tags = this.getTags()
+    }
+    return snapshot
   }
 
   /**
@@ -118,18 +247,45 @@ export class Entity implements Poolable {
    */
   clear(): void {
     // Return all components to their pools
-    this._components.forEach((component) => {
+    this.detachComponents().forEach((component) => {
       ComponentRegistry.release(component)
     })
+  }
+
+  /**
+   * Removes all components without returning them to their pools, so they
+   * can be added to another entity
+   */
+  detachComponents(): Component[] {
+    const components = Array.from(this._components.values())
     this._components.clear()
+    this.compositionChanged()
+
+    components.forEach((component) => {
+      component.setChangeListener(null)
+      this._changeListener?.componentRemoved(this, component)
+    })
+    return components
   }
 
   /**
    * Resets the entity for reuse (Poolable interface)
    */
   reset(): void {
+    this._changeListener = null
     this.clear()
     this._active = true
+    this._generation = 0
+    this._name = null
+    this._tags.clear()
+  }
+
+  /**
+   * Updates the archetype key and notifies the change listener
+   */
+  private compositionChanged(): void {
+    this._archetype = Array.from(this._components.keys()).sort().join(',')
+    this._changeListener?.entityChanged(this)
   }
 
   /**
@@ -139,6 +295,13 @@ export class Entity implements Poolable {
     this.id = id
   }
 
+  /**
+   * Sets the generation of the entity ID (used when acquiring from pool)
+   */
+  setGeneration(generation: number): void {
+    this._generation = generation
+  }
+
   /**
    * Resets the entity ID counter (mainly for testing)
    */
@@ -153,6 +316,16 @@ export class Entity implements Poolable {
     return Entity.nextId
   }
 
+  /**
+   * Ensures future generated IDs never collide with the given ID
+   * (used when restoring entities with their original IDs)
+   */
+  static reserveId(id: EntityId): void {
+    if (id >= Entity.nextId) {
+      Entity.nextId = id + 1
+    }
+  }
+
   /**
    * Increments and returns the next entity ID
    */
@@ -0,0 +1,45 @@
+import type { EntityId, EntityHandle } from '../../types/CoreTypes'
+
+/**
+ * Entity handles pack an entity ID together with the generation of that ID.
+ * IDs are recycled by the World, so a plain EntityId kept around after its
+ * entity was destroyed may start pointing at an unrelated entity. A handle
+ * stops matching as soon as its ID is reused.
+ *
+ * Handles are plain numbers so they serialize as-is. The low bits hold the
+ * ID and the high bits hold the generation, which means a handle with
+ * generation 0 is equal to the entity ID itself.
+ */
+const ID_RANGE = 2 ** 32
+const GENERATION_RANGE = 2 ** 21
+
+/**
+ * Creates a handle from an entity ID and generation
+ */
+export function createEntityHandle(
+  id: EntityId,
+  generation: number
+): EntityHandle {
+  return ((generation % GENERATION_RANGE) * ID_RANGE + id) as EntityHandle
+}
+
+/**
+ * Gets the entity ID part of a handle
+ */
+export function getHandleId(handle: EntityHandle): EntityId {
+  return handle % ID_RANGE
+}
+
+/**
+ * Gets the generation part of a handle
+ */
+export function getHandleGeneration(handle: EntityHandle): number {
+  return Math.floor(handle / ID_RANGE)
+}
+
+/**
+ * Gets the generation that follows the given one, wrapping on overflow
+ */
+export function nextGeneration(generation: number): number {
+  return (generation + 1) % GENERATION_RANGE
+}
@@ -0,0 +1,202 @@
+import type {
+  ComponentType,
+  ComponentTemplate,
+  Prefab,
+  PrefabOverrides,
+} from '../../types/CoreTypes'
+import {
+  ComponentRegistry,
+  mergeTemplateData,
+  type Component,
+} from './Component'
+
+/**
+ * Key of the marker for random values in prefab data: `{ $range: [min, max] }`
+ * becomes a number in [min, max) when an instance is built
+ */
+export const PREFAB_RANGE_KEY = '$range'
+
+/**
+ * Prefab registry for building entities from data. Components are created
+ * through the ComponentRegistry, so every component type a prefab uses must
+ * be registered.
+ */
+export class PrefabRegistry {
+  private static prefabs = new Map<string, Prefab>()
+
+  /**
+   * Registers a prefab
+   */
+  static register(prefab: Prefab): void {
+    if (PrefabRegistry.prefabs.has(prefab.name)) {
+      throw new Error(`Prefab "${prefab.name}" is already registered`)
+    }
+    PrefabRegistry.prefabs.set(prefab.name, prefab)
+  }
+
+  /**
+   * Checks if a prefab is registered
+   */
+  static has(name: string): boolean {
+    return PrefabRegistry.prefabs.has(name)
+  }
+
+  /**
+   * Gets a registered prefab
+   */
+  static get(name: string): Prefab | null {
+    return PrefabRegistry.prefabs.get(name) ?? null
+  }
+
+  /**
+   * Gets all registered prefab names
+   */
+  static getNames(): string[] {
+    return Array.from(PrefabRegistry.prefabs.keys())
+  }
+
+  /**
+   * Gets the component templates of a prefab with everything it inherits
+   * merged in (ranges are not resolved yet)
+   */
+  static resolve(name: string): ComponentTemplate[] {
+    return PrefabRegistry.resolvePrefab(name, []).components
+  }
+
+  /**
+   * Gets the tags of a prefab, including inherited ones
+   */
+  static getTags(name: string): string[] {
+    return PrefabRegistry.resolvePrefab(name, []).tags
+  }
+
+  /**
+   * Creates the components for an instance of a prefab. Overrides are merged
+   * into the prefab's templates before ranges are resolved with `random`.
+   */
+  static createComponents(
+    name: string,
+    overrides: PrefabOverrides = {},
+    random: () => number = Math.random
+  ): Component[] {
+    const templates = new Map<ComponentType, Record<string, unknown>>()
+    PrefabRegistry.resolve(name).forEach((template) => {
+      templates.set(template.type, template.data)
+    })
+    Object.entries(overrides).forEach(([type, data]) => {
+      templates.set(type, mergeTemplateData(templates.get(type) ?? {}, data))
+    })
+
+    // Check every type up front so a bad prefab doesn't leak pooled components
+    templates.forEach((_, type) => {
+      if (!ComponentRegistry.has(type)) {
+        throw new Error(
+          `Cannot instantiate prefab "${name}": component type "${type}" is not registered`
+        )
+      }
+    })
+
+    return Array.from(templates, ([type, data]) => {
+      const component = ComponentRegistry.create(type)
+      component.applyTemplate(
+        resolveRanges(data, random) as Record<string, unknown>
+      )
+      return component
+    })
+  }
+
+  /**
+   * Clears all registered prefabs (mainly for testing)
+   */
+  static clear(): void {
+    PrefabRegistry.prefabs.clear()
+  }
+
+  private static resolvePrefab(
+    name: string,
+    chain: string[]
+  ): { components: ComponentTemplate[]; tags: string[] } {
+    if (chain.includes(name)) {
+      throw new Error(
+        `Prefab inheritance cycle detected: ${[...chain, name].join(' -> ')}`
+      )
+    }
+
+    const prefab = PrefabRegistry.prefabs.get(name)
+    if (!prefab) {
+      throw new Error(`Unknown prefab: ${name}`)
+    }
+
+    const resolved = prefab.extends
+      ? PrefabRegistry.resolvePrefab(prefab.extends, [...chain, name])
+      : { components: [], tags: [] }
+
+    prefab.components.forEach((template) => {
+      const index = resolved.components.findIndex(
+        (inherited) => inherited.type === template.type
+      )
+      if (index === -1) {
+        resolved.components.push({ type: template.type, data: template.data })
+      } else {
+        resolved.components[index] = {
+          type: template.type,
+          data: mergeTemplateData(
+            resolved.components[index].data,
+            template.data
+          ),
+        }
+      }
+    })
+
+    prefab.tags?.forEach((tag) => {
+      if (!resolved.tags.includes(tag)) {
+        resolved.tags.push(tag)
+      }
+    })
+
+    return resolved
+  }
+}
+
+/**
+ * Gets the bounds of a `{ $range: [min, max] }` marker, or null for any
+ * other value
+ */
+export function getPrefabRange(value: unknown): [number, number] | null {
+  if (value === null || typeof value !== 'object') {
+    return null
+  }
+  const bounds = (value as Record<string, unknown>)[PREFAB_RANGE_KEY]
+  if (
+    Array.isArray(bounds) &&
+    bounds.length === 2 &&
+    typeof bounds[0] === 'number' &&
+    typeof bounds[1] === 'number'
+  ) {
+    return [bounds[0], bounds[1]]
+  }
+  return null
+}
+
+/**
+ * Replaces range markers with a random value in that range
+ */
+function resolveRanges(value: unknown, random: () => number): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => resolveRanges(entry, random))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const range = getPrefabRange(value)
+  if (range) {
+    return range[0] + random() * (range[1] - range[0])
+  }
+
+  const resolved: Record<string, unknown> = {}
+  Object.entries(value).forEach(([key, entry]) => {
+    resolved[key] = resolveRanges(entry, random)
+  })
+  return resolved
+}
@@ -0,0 +1,252 @@
+import type {
+  EntityId,
+  ComponentType,
+  ComponentTypeMap,
+  EntityQuery,
+  QueryDescriptor,
+} from '../../types/CoreTypes'
+import type { Entity } from './Entity'
+import type { Component } from './Component'
+
+/**
+ * Component class for a component type string, as declared in
+ * ComponentTypeMap (falls back to the Component base class)
+ */
+export type ComponentOf<T extends ComponentType> =
+  T extends keyof ComponentTypeMap ? ComponentTypeMap[T] : Component
+
+type ComponentTuple<T extends readonly ComponentType[]> = {
+  [I in keyof T]: ComponentOf<T[I]>
+}
+
+type NullableComponentTuple<T extends readonly ComponentType[]> = {
+  [I in keyof T]: ComponentOf<T[I]> | null
+}
+
+type TypesOf<T> = T extends readonly ComponentType[] ? T : []
+
+/**
+ * Row returned by World.query(): the entity followed by its `all`
+ * components, then its `any` and `optional` components (null when absent),
+ * each group in the order listed in the descriptor
+ */
+export type QueryRow<D extends QueryDescriptor> = [
+  Entity,
+  ...ComponentTuple<TypesOf<D['all']>>,
+  ...NullableComponentTuple<TypesOf<D['any']>>,
+  ...NullableComponentTuple<TypesOf<D['optional']>>,
+]
+
+/**
+ * Incrementally maintained set of entities matching a query descriptor.
+ * The World updates queries only for entities whose composition changed,
+ * and match results are memoized per archetype (the sorted set of
+ * component types on an entity).
+ */
+export class Query {
+  readonly key: string
+  readonly all: ComponentType[]
+  readonly none: ComponentType[]
+  readonly any: ComponentType[]
+  readonly optional: ComponentType[]
+  readonly added: ComponentType[]
+  readonly changed: ComponentType[]
+  readonly removed: ComponentType[]
+
+  private matches = new Map<EntityId, Entity>()
+  private entityQueries = new Map<EntityId, EntityQuery>()
+  private rows = new Map<EntityId, unknown[]>()
+  private archetypeMatches = new Map<string, boolean>()
+  private cachedEntityQueries: EntityQuery[] | null = null
+  private cachedEntities: Entity[] | null = null
+  private cachedRows: unknown[][] | null = null
+
+  constructor(descriptor: QueryDescriptor) {
+    this.all = [...(descriptor.all ?? [])]
+    this.none = [...(descriptor.none ?? [])]
+    this.any = [...(descriptor.any ?? [])]
+    this.optional = [...(descriptor.optional ?? [])]
+    this.added = [...(descriptor.added ?? [])]
+    this.changed = [...(descriptor.changed ?? [])]
+    this.removed = [...(descriptor.removed ?? [])]
+    this.key = Query.createKey(descriptor)
+  }
+
+  /**
+   * Creates the key identifying a query descriptor. The all/any/optional
+   * groups keep their order, since it decides the layout of each row; the
+   * other groups only filter entities, so their order is normalized.
+   */
+  static createKey(descriptor: QueryDescriptor): string {
+    const group = (types?: readonly ComponentType[]): string =>
+      types ? types.join(',') : ''
+    const sortedGroup = (types?: readonly ComponentType[]): string =>
+      types ? types.slice().sort().join(',') : ''
+
+    return [
+      group(descriptor.all),
+      sortedGroup(descriptor.none),
+      group(descriptor.any),
+      group(descriptor.optional),
+      sortedGroup(descriptor.added),
+      sortedGroup(descriptor.changed),
+      sortedGroup(descriptor.removed),
+    ].join('|')
+  }
+
+  /**
+   * Checks if the query has added/changed/removed filters, which depend on
+   * when components changed rather than only on which components exist
+   */
+  get hasChangeFilters(): boolean {
+    return (
+      this.added.length > 0 ||
+      this.changed.length > 0 ||
+      this.removed.length > 0
+    )
+  }
+
+  /**
+   * Checks the added/changed filters of a matching entity: every listed
+   * component must have been added/changed after the given tick
+   */
+  changedSince(entity: Entity, tick: number): boolean {
+    return (
+      this.added.every(
+        (type) => (entity.getComponent(type)?.addedTick ?? 0) > tick
+      ) &&
+      this.changed.every(
+        (type) => (entity.getComponent(type)?.changedTick ?? 0) > tick
+      )
+    )
+  }
+
+  /**
+   * Re-evaluates an entity after its components or active state changed
+   */
+  update(entity: Entity): void {
+    if (entity.isActive() && this.matchesArchetype(entity)) {
+      this.matches.set(entity.id, entity)
+      this.entityQueries.set(entity.id, this.createEntityQuery(entity))
+      this.rows.set(entity.id, this.createRow(entity))
+      this.invalidate()
+    } else {
+      this.remove(entity.id)
+    }
+  }
+
+  /**
+   * Removes an entity from the query
+   */
+  remove(entityId: EntityId): void {
+    if (this.matches.delete(entityId)) {
+      this.entityQueries.delete(entityId)
+      this.rows.delete(entityId)
+      this.invalidate()
+    }
+  }
+
+  /**
+   * Removes every entity from the query
+   */
+  clear(): void {
+    this.matches.clear()
+    this.entityQueries.clear()
+    this.rows.clear()
+    this.invalidate()
+  }
+
+  /**
+   * Checks if an entity is currently part of the query
+   */
+  has(entityId: EntityId): boolean {
+    return this.matches.has(entityId)
+  }
+
+  /**
+   * Gets the number of matching entities
+   */
+  get size(): number {
+    return this.matches.size
+  }
+
+  /**
+   * Gets the matching entities in the shape systems receive. The returned
+   * array is reused until the query changes and must not be mutated.
+   */
+  getEntityQueries(): EntityQuery[] {
+    if (!this.cachedEntityQueries) {
+      this.cachedEntityQueries = Array.from(this.entityQueries.values())
+    }
+    return this.cachedEntityQueries
+  }
+
+  /**
+   * Gets the matching entities. The returned array is reused until the
+   * query changes and must not be mutated.
+   */
+  getEntities(): Entity[] {
+    if (!this.cachedEntities) {
+      this.cachedEntities = Array.from(this.matches.values())
+    }
+    return this.cachedEntities
+  }
+
+  /**
+   * Gets the matching entities as [entity, ...components] rows. The
+   * returned array is reused until the query changes and must not be
+   * mutated.
+   */
+  getRows(): unknown[][] {
+    if (!this.cachedRows) {
+      this.cachedRows = Array.from(this.rows.values())
+    }
+    return this.cachedRows
+  }
+
+  private matchesArchetype(entity: Entity): boolean {
+    const archetype = entity.archetype
+    let matches = this.archetypeMatches.get(archetype)
+    if (matches === undefined) {
+      matches =
+        entity.hasComponents(this.all) &&
+        entity.hasComponents(this.added) &&
+        entity.hasComponents(this.changed) &&
+        !this.none.some((type) => entity.hasComponent(type)) &&
+        (this.any.length === 0 ||
+          this.any.some((type) => entity.hasComponent(type)))
+      this.archetypeMatches.set(archetype, matches)
+    }
+    return matches
+  }
+
+  private createEntityQuery(entity: Entity): EntityQuery {
+    const components: Record<ComponentType, Component> = {}
+    ;[...this.all, ...this.any, ...this.optional].forEach((type) => {
+      const component = entity.getComponent(type)
+      if (component) {
+        components[type] = component
+      }
+    })
+
+    return {
+      id: entity.id,
+      components: components as unknown as Component,
+    }
+  }
+
+  private createRow(entity: Entity): unknown[] {
+    return [
+      entity,
+      ...this.all.map((type) => entity.getComponent(type)),
+      ...this.any.map((type) => entity.getComponent(type)),
+      ...this.optional.map((type) => entity.getComponent(type)),
+    ]
+  }
+
+  private invalidate(): void {
+    this.cachedEntityQueries = null
+    this.cachedEntities = null
+    this.cachedRows = null
+  }
+}
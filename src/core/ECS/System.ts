@@ -5,8 +5,24 @@ import type {
   EntityQuery,
   SystemUpdateContext,
   SystemSnapshot,
+  SystemPhase,
+  QueryDescriptor,
+  TimeSource,
+  RandomSource,
 } from '../../types/CoreTypes'
 import { BatchProcessor, type BatchConfig } from '../../utils/BatchProcessor'
+import { realtimeClock } from '../Clock'
+import { unseededRandom } from '../../utils/Random'
+
+/**
+ * Frame phases in the order the World runs them
+ */
+export const SYSTEM_PHASES: readonly SystemPhase[] = [
+  'preUpdate',
+  'fixedUpdate',
+  'update',
+  'lateUpdate',
+]
 
 /**
  * Base class for all systems in the ECS architecture.
@@ -16,6 +32,50 @@ export abstract class System implements ISystem {
   abstract readonly name: SystemName
   abstract readonly requiredComponents: ComponentType[]
 
+  /**
+   * Optional query selecting the entities this system receives. When not
+   * set, the system receives entities with all of its requiredComponents.
+   */
+  readonly query?: QueryDescriptor
+
+  /**
+   * Update priority. When dependencies don't decide the order, systems
+   * with a lower priority run first.
+   */
+  readonly priority: number = 0
+
+  /**
+   * Names of systems this system must run after
+   */
+  readonly runAfter: SystemName[] = []
+
+  /**
+   * Names of systems this system must run before
+   */
+  readonly runBefore: SystemName[] = []
+
+  /**
+   * Frame phase this system updates in. Phases always run in the order
+   * preUpdate, fixedUpdate, update, lateUpdate; ordering declarations only
+   * order systems within a phase.
+   */
+  readonly phase: SystemPhase = 'update'
+
+  /**
+   * When true, the World applies its command buffer right after this
+   * system updates so later systems in the same phase see the changes.
+   * Otherwise commands are applied at the end of the phase.
+   */
+  readonly syncPoint: boolean = false
+
+  /**
+   * Clock and random source for game logic. The World replaces them with its
+   * own when the system is added; systems used on their own fall back to the
+   * wall clock and Math.random().
+   */
+  protected clock: TimeSource = realtimeClock
+  protected random: RandomSource = unseededRandom
+
   private _enabled: boolean = true
   private _entityCount: number = 0
   private _lastUpdateTime: number = 0
@@ -74,6 +134,14 @@ export abstract class System implements ISystem {
    */
   destroy?(): void
 
+  /**
+   * Sets the clock and random source the system uses (called by World)
+   */
+  setServices(clock: TimeSource, random: RandomSource): void {
+    this.clock = clock
+    this.random = random
+  }
+
   /**
    * Enables or disables the system
    */
@@ -1,16 +1,55 @@
 import type {
   EntityId,
+  EntityHandle,
   ComponentType,
   SystemName,
   EntityQuery,
   WorldSnapshot,
+  EntitySnapshot,
   SystemUpdateContext,
+  SystemPhase,
+  QueryDescriptor,
+  PrefabOverrides,
 } from '../../types/CoreTypes'
-import { Entity } from './Entity'
-import type { System } from './System'
+import { Entity, type EntityChangeListener } from './Entity'
 import type { Component } from './Component'
+import { SYSTEM_PHASES, type System } from './System'
+import { ComponentRegistry } from './Component'
+import { Query, type QueryRow } from './Query'
+import { CommandBuffer } from './CommandBuffer'
+import { PrefabRegistry } from './Prefab'
+import {
+  createEntityHandle,
+  getHandleId,
+  getHandleGeneration,
+  nextGeneration,
+} from './EntityHandle'
 import { ObjectPool, type PoolFactory } from '../../utils/Pooling'
+import { Random } from '../../utils/Random'
+import { HierarchyComponent } from '../../components/Hierarchy'
+import type { TransformComponent } from '../../components/Transform'
 import { globalProfiler } from '../Profiler'
+import { Clock } from '../Clock'
+import type { EventSystem } from '../EventSystem'
+import type { Scheduler } from '../Scheduler'
+import {
+  GameEventType,
+  type EntityCreatedEventData,
+  type EntityDestroyedEventData,
+  type EntityActivationEventData,
+  type ComponentEventData,
+  type SystemEventData,
+  type EventData,
+} from '../../types/Events'
+
+export interface WorldOptions {
+  /** Game clock, advanced by every frame's delta time */
+  clock?: Clock
+  /** Random source for game logic; defaults to a Random seeded with `seed` */
+  random?: Random
+  /** Seed for the default random source. Defaults to the current time. */
+  seed?: number
+}
 
 /**
  * World class that manages all entities and systems in the ECS architecture.
@@ -20,13 +59,125 @@ import { globalProfiler } from '../Profiler'
 export class World {
   private entities = new Map<EntityId, Entity>()
   private systems = new Map<SystemName, System>()
-  private entityQueries = new Map<string, Set<EntityId>>()
+  private systemOrder: System[] = []
+  private phaseOrder = new Map<SystemPhase, System[]>()
+  private queries = new Map<string, Query>()
+  private changedEntities = new Set<Entity>()
+  private readonly entityListener: EntityChangeListener = {
+    entityChanged: (entity) => {
+      this.changedEntities.add(entity)
+    },
+    activeChanged: (entity) => {
+      this.changedEntities.add(entity)
+      const data: EntityActivationEventData = {
+        entityId: entity.id,
+        active: entity.isActive(),
+      }
+      this.emit(
+        entity.isActive()
+          ? GameEventType.ENTITY_ACTIVATED
+          : GameEventType.ENTITY_DEACTIVATED,
+        data,
+        entity.id
+      )
+    },
+    componentAdded: (entity, component) => {
+      component.addedTick = this.changeTick
+      component.changedTick = this.changeTick
+      this.emitComponentEvent(GameEventType.COMPONENT_ADDED, entity, component)
+    },
+    componentRemoved: (entity, component) => {
+      let removals = this.removedComponents.get(component.type)
+      if (!removals) {
+        removals = new Map()
+        this.removedComponents.set(component.type, removals)
+      }
+      removals.set(entity.id, this.changeTick)
+      this.emitComponentEvent(
+        GameEventType.COMPONENT_REMOVED,
+        entity,
+        component
+      )
+    },
+    componentChanged: (entity, component) => {
+      // Only the first change in a tick is recorded and emitted
+      if (component.changedTick === this.changeTick) {
+        return
+      }
+      component.changedTick = this.changeTick
+      if (this.componentUpdateEvents) {
+        this.emitComponentEvent(
+          GameEventType.COMPONENT_UPDATED,
+          entity,
+          component
+        )
+      }
+    },
+    nameChanging: (entity, name) => {
+      const owner = name === null ? undefined : this.names.get(name)
+      if (owner && owner !== entity) {
+        throw new Error(
+          `Cannot name entity ${entity.id} "${name}": the name is used by entity ${owner.id}`
+        )
+      }
+      if (entity.name !== null) {
+        this.names.delete(entity.name)
+      }
+      if (name !== null) {
+        this.names.set(name, entity)
+      }
+    },
+    tagAdded: (entity, tag) => {
+      let entities = this.tagged.get(tag)
+      if (!entities) {
+        entities = new Set()
+        this.tagged.set(tag, entities)
+      }
+      entities.add(entity)
+    },
+    tagRemoved: (entity, tag) => {
+      this.tagged.get(tag)?.delete(entity)
+    },
+  }
+  private names = new Map<string, Entity>()
+  private tagged = new Map<string, Set<Entity>>()
+  private changeTick: number = 1
+  private frameStartTick: number = 0
+  private systemTicks = new Map<SystemName, number>()
+  private removedComponents = new Map<ComponentType, Map<EntityId, number>>()
+  private eventSystem: EventSystem | null = null
+  private scheduler: Scheduler | null = null
+  private componentUpdateEvents: boolean = false
   private frameCount: number = 0
   private totalTime: number = 0
+  private fixedTime: number = 0
   private entityPool: ObjectPool<Entity>
   private recycledIds: EntityId[] = []
+  private generations = new Map<EntityId, number>()
+  private reservedIds = new Set<EntityId>()
+
+  /**
+   * Buffer for structural changes made during system updates. It is flushed
+   * at the start of each frame, after each phase and after systems that
+   * declare syncPoint.
+   */
+  readonly commands: CommandBuffer = new CommandBuffer(this)
+
+  /**
+   * Game clock. Systems read the current time from it instead of the wall
+   * clock, so a simulation replays identically.
+   */
+  readonly clock: Clock
+
+  /**
+   * Seeded random source shared by all systems in the world
+   */
+  readonly random: Random
+
+  constructor(options: WorldOptions = {}) {
+    this.clock = options.clock ?? new Clock()
+    this.random = options.random ?? new Random(options.seed)
 
-  constructor() {
     // Initialize entity pool
     const entityFactory: PoolFactory<Entity> = {
       create: () => new Entity(),
@@ -47,21 +198,74 @@ export class World {
    * Creates a new entity in the world
    */
   createEntity(): Entity {
-    // Get entity from pool
-    const entity = this.entityPool.acquire()
+    return this.createReservedEntity(this.reserveEntity())
+  }
 
-    // Assign ID (reuse recycled ID if available)
-    if (this.recycledIds.length > 0) {
-      const recycledId = this.recycledIds.pop()!
-      entity.setId(recycledId)
-    } else {
-      entity.setId(Entity.generateId())
+  /**
+   * Creates an entity from a registered prefab, with optional per-instance
+   * component data
+   */
+  instantiate(prefabName: string, overrides?: PrefabOverrides): Entity {
+    const components = PrefabRegistry.createComponents(
+      prefabName,
+      overrides,
+      () => this.random.next()
+    )
+    const entity = this.createEntity()
+    components.forEach((component) => entity.addComponent(component))
+    PrefabRegistry.getTags(prefabName).forEach((tag) => entity.addTag(tag))
+    return entity
+  }
+
+  /**
+   * Reserves an entity ID without creating the entity, returning the handle
+   * the entity will have once it is created with createReservedEntity()
+   */
+  reserveEntity(): EntityHandle {
+    // Reuse recycled ID if available
+    const id =
+      this.recycledIds.length > 0
+        ? this.recycledIds.pop()!
+        : Entity.generateId()
+
+    this.reservedIds.add(id)
+    return createEntityHandle(id, this.generations.get(id) ?? 0)
+  }
+
+  /**
+   * Creates the entity for a handle returned by reserveEntity()
+   */
+  createReservedEntity(handle: EntityHandle): Entity {
+    const id = getHandleId(handle)
+    if (!this.reservedIds.delete(id)) {
+      throw new Error(`Entity ${id} has not been reserved`)
     }
 
+    // Get entity from pool
+    const entity = this.entityPool.acquire()
+    entity.setId(id)
+    entity.setGeneration(getHandleGeneration(handle))
+    entity.setChangeListener(this.entityListener)
+
     this.entities.set(entity.id, entity)
+    this.changedEntities.add(entity)
+
+    const data: EntityCreatedEventData = { entityId: entity.id }
+    this.emit(GameEventType.ENTITY_CREATED, data, entity.id)
     return entity
   }
 
+  /**
+   * Returns a reserved entity ID that will not be created
+   */
+  releaseReservedEntity(handle: EntityHandle): void {
+    const id = getHandleId(handle)
+    if (this.reservedIds.delete(id)) {
+      this.generations.set(id, nextGeneration(getHandleGeneration(handle)))
+      this.recycledIds.push(id)
+    }
+  }
+
   /**
    * Destroys an entity and removes it from the world
    */
@@ -71,19 +275,45 @@ export class World {
       return
     }
 
+    // Detach from the parent and remember the children, which are destroyed
+    // along with this entity
+    const hierarchy = entity.getComponent<HierarchyComponent>('hierarchy')
+    const children = hierarchy ? [...hierarchy.children] : []
+    if (hierarchy?.parent != null) {
+      this.resolve(hierarchy.parent)
+        ?.getComponent<HierarchyComponent>('hierarchy')
+        ?.removeChild(entity.handle)
+    }
+
     // Remove from all queries
-    this.entityQueries.forEach((entities) => {
-      entities.delete(entityId)
+    entity.setChangeListener(null)
+    this.changedEntities.delete(entity)
+    this.queries.forEach((query) => {
+      query.remove(entityId)
     })
 
     // Remove from world
     this.entities.delete(entityId)
+    this.unindexEntity(entity)
+    this.removedComponents.forEach((removals) => removals.delete(entityId))
 
-    // Recycle the entity ID
+    // Recycle the entity ID, bumping its generation so existing handles to
+    // this entity no longer resolve
+    this.generations.set(entityId, nextGeneration(entity.generation))
     this.recycledIds.push(entityId)
 
     // Return entity to pool
     this.entityPool.release(entity)
+
+    const data: EntityDestroyedEventData = { entityId }
+    this.emit(GameEventType.ENTITY_DESTROYED, data, entityId)
+
+    children.forEach((child) => {
+      const childEntity = this.resolve(child)
+      if (childEntity) {
+        this.destroyEntity(childEntity.id)
+      }
+    })
   }
 
   /**
@@ -100,6 +330,174 @@ export class World {
     return this.entities.get(entityId) ?? null
   }
 
+  /**
+   * Checks whether a handle still refers to a live entity
+   */
+  isAlive(handle: EntityHandle): boolean {
+    return this.resolve(handle) !== null
+  }
+
+  /**
+   * Gets the entity a handle refers to, or null if it has been destroyed
+   */
+  resolve(handle: EntityHandle): Entity | null {
+    const entity = this.entities.get(getHandleId(handle))
+    if (!entity || entity.generation !== getHandleGeneration(handle)) {
+      return null
+    }
+    return entity
+  }
+
+  /**
+   * Gets the entity with the given name
+   */
+  getByName(name: string): Entity | null {
+    return this.names.get(name) ?? null
+  }
+
+  /**
+   * Gets all entities with the given tag
+   */
+  getTagged(tag: string): Entity[] {
+    const entities = this.tagged.get(tag)
+    return entities ? Array.from(entities) : []
+  }
+
+  /**
+   * Attaches an entity to a parent, or detaches it when parent is null.
+   * Hierarchy components are added as needed. The child's local transform
+   * is computed so its current world transform is kept.
+   */
+  setParent(childId: EntityId, parentId: EntityId | null): void {
+    const child = this.entities.get(childId)
+    if (!child) {
+      throw new Error(`Entity ${childId} does not exist`)
+    }
+
+    const parent = parentId === null ? null : this.entities.get(parentId)
+    if (parent === undefined) {
+      throw new Error(`Entity ${parentId} does not exist`)
+    }
+
+    // Walk up from the new parent to make sure the child is not an ancestor
+    let ancestor = parent
+    while (ancestor) {
+      if (ancestor === child) {
+        throw new Error(
+          `Cannot parent entity ${childId} to ${parentId}: this would create a cycle`
+        )
+      }
+      ancestor = this.getParent(ancestor.id)
+    }
+
+    const childHierarchy = this.getOrAddHierarchy(child)
+    if (childHierarchy.parent !== null) {
+      this.resolve(childHierarchy.parent)
+        ?.getComponent<HierarchyComponent>('hierarchy')
+        ?.removeChild(child.handle)
+    }
+
+    childHierarchy.parent = parent ? parent.handle : null
+    if (parent) {
+      this.getOrAddHierarchy(parent).addChild(child.handle)
+    }
+
+    this.updateLocalTransform(child, childHierarchy, parent)
+    childHierarchy.markChanged()
+  }
+
+  /**
+   * Gets the parent of an entity, or null if it has none
+   */
+  getParent(entityId: EntityId): Entity | null {
+    const parent = this.entities
+      .get(entityId)
+      ?.getComponent<HierarchyComponent>('hierarchy')?.parent
+    return parent == null ? null : this.resolve(parent)
+  }
+
+  /**
+   * Gets the direct children of an entity
+   */
+  getChildren(entityId: EntityId): Entity[] {
+    const hierarchy = this.entities
+      .get(entityId)
+      ?.getComponent<HierarchyComponent>('hierarchy')
+    if (!hierarchy) {
+      return []
+    }
+    return hierarchy.children
+      .map((child) => this.resolve(child))
+      .filter((child): child is Entity => child !== null)
+  }
+
+  /**
+   * Moves an entity and its descendants to another world, e.g. to carry the
+   * player across scenes. Components, names, tags and the active state move
+   * with them, but the entities get new IDs in the target world and old
+   * handles stop resolving. The moved entity is detached from its parent.
+   */
+  transferEntity(entityId: EntityId, target: World): Entity {
+    const entity = this.entities.get(entityId)
+    if (!entity) {
+      throw new Error(`Entity ${entityId} does not exist`)
+    }
+    if (target === this) {
+      throw new Error(`Cannot transfer entity ${entityId} to its own world`)
+    }
+
+    // Check names up front so a conflict can't leave a subtree half-moved
+    const pending = [entity]
+    while (pending.length > 0) {
+      const current = pending.pop()!
+      const owner =
+        current.name === null ? null : target.getByName(current.name)
+      if (owner) {
+        throw new Error(
+          `Cannot transfer entity ${current.id}: the name "${current.name}" is used by entity ${owner.id} in the target world`
+        )
+      }
+      pending.push(...this.getChildren(current.id))
+    }
+
+    if (this.getParent(entityId)) {
+      this.setParent(entityId, null)
+    }
+    return this.moveEntity(entity, target)
+  }
+
+  /**
+   * Recreates an entity and its descendants in another world and destroys
+   * them here
+   */
+  private moveEntity(entity: Entity, target: World): Entity {
+    const children = this.getChildren(entity.id)
+    const name = entity.name
+    const tags = entity.getTags()
+    const active = entity.isActive()
+
+    // The hierarchy is rebuilt in the target world from the new IDs
+    const components = entity.detachComponents().filter((component) => {
+      if (component.type === 'hierarchy') {
+        ComponentRegistry.release(component)
+        return false
+      }
+      return true
+    })
+    this.destroyEntity(entity.id)
+
+    const moved = target.createEntity()
+    components.forEach((component) => moved.addComponent(component))
+    moved.setName(name)
+    tags.forEach((tag) => moved.addTag(tag))
+    moved.setActive(active)
+
+    children.forEach((child) => {
+      target.setParent(this.moveEntity(child, target).id, moved.id)
+    })
+    return moved
+  }
+
   /**
    * Gets all entities in the world
    */
@@ -134,16 +532,27 @@ export class World {
 
     this.systems.set(system.name, system)
 
+    // Resolve the execution order, rejecting the system if it creates a
+    // dependency cycle
+    try {
+      this.setSystemOrder(this.sortSystems())
+    } catch (error) {
+      this.systems.delete(system.name)
+      throw error
+    }
+
+    system.setServices(this.clock, this.random)
+
     // Initialize the system
     if (system.initialize) {
       system.initialize()
     }
 
-    // Create query key for this system
-    const queryKey = this.getQueryKey(system.requiredComponents)
-    if (!this.entityQueries.has(queryKey)) {
-      this.entityQueries.set(queryKey, new Set())
-    }
+    // Make sure the system's query exists and is populated
+    this.getQuery(this.getSystemQuery(system))
+
+    const data: SystemEventData = { systemName: system.name }
+    this.emit(GameEventType.SYSTEM_ADDED, data)
   }
 
   /**
@@ -161,6 +570,113 @@ export class World {
     }
 
     this.systems.delete(systemName)
+    this.systemTicks.delete(systemName)
+    this.setSystemOrder(this.sortSystems())
+
+    const data: SystemEventData = { systemName }
+    this.emit(GameEventType.SYSTEM_REMOVED, data)
+  }
+
+  /**
+   * Gets the names of all systems in the order they are updated
+   */
+  getSystemOrder(): SystemName[] {
+    return this.systemOrder.map((system) => system.name)
+  }
+
+  /**
+   * Stores the update order and splits it per phase
+   */
+  private setSystemOrder(ordered: System[]): void {
+    this.systemOrder = ordered
+    this.phaseOrder.clear()
+    SYSTEM_PHASES.forEach((phase) => {
+      this.phaseOrder.set(
+        phase,
+        ordered.filter((system) => (system.phase ?? 'update') === phase)
+      )
+    })
+  }
+
+  /**
+   * Orders systems phase by phase, so every runAfter/runBefore dependency
+   * within a phase is respected. Among systems that are free to run, the
+   * lowest priority goes first and ties keep the order the systems were
+   * added in. Dependencies on systems that are not in the world, or that
+   * run in another phase, are ignored: phases always run in order.
+   */
+  private sortSystems(): System[] {
+    const systems = Array.from(this.systems.values())
+    return SYSTEM_PHASES.flatMap((phase) =>
+      this.sortPhase(
+        systems.filter((system) => (system.phase ?? 'update') === phase)
+      )
+    )
+  }
+
+  /**
+   * Sorts the systems of one phase topologically
+   */
+  private sortPhase(systems: System[]): System[] {
+    const insertionIndex = new Map<SystemName, number>()
+    const successors = new Map<SystemName, Set<SystemName>>()
+    const pendingDependencies = new Map<SystemName, number>()
+
+    systems.forEach((system, index) => {
+      insertionIndex.set(system.name, index)
+      successors.set(system.name, new Set())
+      pendingDependencies.set(system.name, 0)
+    })
+
+    const addEdge = (before: SystemName, after: SystemName): void => {
+      if (!successors.has(before) || !successors.has(after)) {
+        return
+      }
+      const edges = successors.get(before)!
+      if (!edges.has(after)) {
+        edges.add(after)
+        pendingDependencies.set(after, pendingDependencies.get(after)! + 1)
+      }
+    }
+
+    systems.forEach((system) => {
+      ;(system.runAfter ?? []).forEach((name) => addEdge(name, system.name))
+      ;(system.runBefore ?? []).forEach((name) => addEdge(system.name, name))
+    })
+
+    const compare = (a: System, b: System): number =>
+      (a.priority ?? 0) - (b.priority ?? 0) ||
+      insertionIndex.get(a.name)! - insertionIndex.get(b.name)!
+
+    const ready = systems.filter(
+      (system) => pendingDependencies.get(system.name) === 0
+    )
+    const ordered: System[] = []
+
+    while (ready.length > 0) {
+      ready.sort(compare)
+      const next = ready.shift()!
+      ordered.push(next)
+
+      successors.get(next.name)!.forEach((name) => {
+        const remaining = pendingDependencies.get(name)! - 1
+        pendingDependencies.set(name, remaining)
+        if (remaining === 0) {
+          ready.push(this.systems.get(name)!)
+        }
+      })
+    }
+
+    if (ordered.length < systems.length) {
+      const cyclic = systems
+        .filter((system) => !ordered.includes(system))
+        .map((system) => system.name)
+      throw new Error(
+        `System dependency cycle detected between: ${cyclic.join(', ')}`
+      )
+    }
+
+    return ordered
   }
 
   /**
@@ -174,22 +690,53 @@ export class World {
    * Updates all systems
    */
   update(deltaTime: number): void {
+    this.beginFrame(deltaTime)
+    SYSTEM_PHASES.forEach((phase) => this.updatePhase(phase, deltaTime))
+  }
+
+  /**
+   * Starts a new frame by advancing the frame counter and total time.
+   * Used together with updatePhase() when the phases of a frame are driven
+   * separately, e.g. several fixed steps per frame.
+   */
+  beginFrame(deltaTime: number): void {
     this.frameCount++
     this.totalTime += deltaTime
+    this.clock.advance(deltaTime)
+
+    // Forget removals older than the previous frame, then start a new tick
+    this.pruneRemovedComponents(this.frameStartTick)
+    this.frameStartTick = this.changeTick++
+
+    // Apply commands and dispatch events recorded outside of system updates
+    this.flushDeferred()
+
+    // Apply entity changes made since the last update to the queries
+    globalProfiler.beginMark('world.updateQueries')
+    this.flushEntityChanges()
+    globalProfiler.endMark('world.updateQueries')
+  }
+
+  /**
+   * Updates the systems of a single phase in dependency order. Each
+   * fixedUpdate call advances the fixed simulation time by its delta.
+   */
+  updatePhase(phase: SystemPhase, deltaTime: number): void {
+    if (phase === 'fixedUpdate') {
+      this.fixedTime += deltaTime
+      this.storePreviousTransforms()
+    }
 
     const context: SystemUpdateContext = {
       deltaTime,
-      totalTime: this.totalTime,
+      totalTime: phase === 'fixedUpdate' ? this.fixedTime : this.totalTime,
       frameCount: this.frameCount,
+      phase,
+      clock: this.clock,
+      random: this.random,
     }
 
-    // Update entity queries
-    globalProfiler.beginMark('world.updateQueries')
-    this.updateEntityQueries()
-    globalProfiler.endMark('world.updateQueries')
-
-    // Update each system
-    this.systems.forEach((system) => {
+    this.phaseOrder.get(phase)?.forEach((system) => {
       if (!system.enabled) {
         return
       }
@@ -199,124 +746,319 @@ export class World {
       })
 
       const startTime = performance.now()
-      const entities = this.getEntitiesForSystem(system)
+      const entities = this.getEntitiesForSystem(
+        system,
+        this.systemTicks.get(system.name) ?? 0
+      )
 
       system.update(context, entities)
 
+      // Changes made by the system keep its tick, so it won't see them as
+      // changes on its next run; later changes get a newer tick
+      this.systemTicks.set(system.name, this.changeTick++)
+
       const updateTime = performance.now() - startTime
       system.updateMetrics(entities.length, updateTime)
 
       globalProfiler.endMark(`system.${system.name}`)
+
+      if (system.syncPoint) {
+        this.flushDeferred()
+      }
     })
+
+    this.flushDeferred()
   }
 
   /**
-   * Gets entities that match a system's requirements
+   * Applies buffered commands, then dispatches the events queued by a
+   * queued event system
    */
-  private getEntitiesForSystem(system: System): EntityQuery[] {
+  private flushDeferred(): void {
+    this.commands.flush()
+    this.eventSystem?.flush()
+  }
+
+  /**
+   * Records every transform's state before a fixed step moves it, for
+   * render interpolation
+   */
+  private storePreviousTransforms(): void {
+    this.getQuery({ all: ['transform'] })
+      .getEntities()
+      .forEach((entity) => {
+        entity.getComponent<TransformComponent>('transform')?.storePrevious()
+      })
+  }
+
+  /**
+   * Gets entities that match a system's requirements. Change filters are
+   * evaluated against the tick of the system's previous run.
+   */
+  private getEntitiesForSystem(
+    system: System,
+    sinceTick: number
+  ): EntityQuery[] {
     // Return empty array if system has invalid requiredComponents
     if (!system.requiredComponents || !Array.isArray(system.requiredComponents)) {
       console.warn(`System "${system.name}" has invalid requiredComponents, returning empty entity list`)
       return []
     }
 
-    const queryKey = this.getQueryKey(system.requiredComponents)
-    const entityIds = this.entityQueries.get(queryKey) ?? new Set()
+    const query = this.getQuery(this.getSystemQuery(system))
+    if (!query.hasChangeFilters) {
+      return query.getEntityQueries()
+    }
 
-    const queries: EntityQuery[] = []
+    const entities = query.getEntities()
+    return query
+      .getEntityQueries()
+      .filter((_, index) =>
+        this.matchesChangeFilters(query, entities[index], sinceTick)
+      )
+  }
 
-    entityIds.forEach((id) => {
-      const entity = this.entities.get(id)
-      if (!entity || !entity.isActive()) {
-        return
-      }
+  /**
+   * Checks the added/changed/removed filters of a query for an entity
+   */
+  private matchesChangeFilters(
+    query: Query,
+    entity: Entity,
+    sinceTick: number
+  ): boolean {
+    return (
+      query.changedSince(entity, sinceTick) &&
+      query.removed.every(
+        (type) =>
+          (this.removedComponents.get(type)?.get(entity.id) ?? 0) > sinceTick
+      )
+    )
+  }
 
-      const components: Record<string, Component> = {}
-      system.requiredComponents.forEach((type) => {
-        const component = entity.getComponent(type)
-        if (component) {
-          components[type] = component
+  /**
+   * Drops recorded component removals made at or before the given tick
+   */
+  private pruneRemovedComponents(tick: number): void {
+    this.removedComponents.forEach((removals) => {
+      removals.forEach((removedTick, entityId) => {
+        if (removedTick <= tick) {
+          removals.delete(entityId)
         }
       })
-
-      queries.push({
-        id: entity.id,
-        components: components as unknown as Component,
-      })
     })
+  }
 
-    return queries
+  /**
+   * Gets the current change tick. Pass it to query() later to find
+   * components added, changed or removed after this point.
+   */
+  getChangeTick(): number {
+    return this.changeTick
   }
 
   /**
-   * Updates entity queries based on current component compositions
+   * Gets the query a system declared, defaulting to all of its
+   * requiredComponents
    */
-  private updateEntityQueries(): void {
-    // Clear all queries
-    this.entityQueries.forEach((set) => set.clear())
+  private getSystemQuery(system: System): QueryDescriptor {
+    return system.query ?? { all: system.requiredComponents }
+  }
 
-    // Rebuild queries
-    this.entities.forEach((entity) => {
-      if (!entity.isActive()) {
-        return
-      }
+  /**
+   * Removes an entity from the name and tag indices
+   */
+  private unindexEntity(entity: Entity): void {
+    if (entity.name !== null && this.names.get(entity.name) === entity) {
+      this.names.delete(entity.name)
+    }
+    entity.getTags().forEach((tag) => this.tagged.get(tag)?.delete(entity))
+  }
 
-      // Check each system's requirements
-      this.systems.forEach((system) => {
-        // Skip systems with invalid requiredComponents
-        if (!system.requiredComponents || !Array.isArray(system.requiredComponents)) {
-          console.warn(`System "${system.name}" has invalid requiredComponents, skipping query update`)
-          return
-        }
+  /**
+   * Gets the hierarchy component of an entity, adding one if it is missing
+   */
+  private getOrAddHierarchy(entity: Entity): HierarchyComponent {
+    let hierarchy = entity.getComponent<HierarchyComponent>('hierarchy')
+    if (!hierarchy) {
+      hierarchy = new HierarchyComponent()
+      entity.addComponent(hierarchy)
+    }
+    return hierarchy
+  }
+
+  /**
+   * Sets the local transform of a child so that, relative to its parent,
+   * it ends up at its current world transform
+   */
+  private updateLocalTransform(
+    child: Entity,
+    hierarchy: HierarchyComponent,
+    parent: Entity | null
+  ): void {
+    const transform = child.getComponent<TransformComponent>('transform')
+    if (!transform) {
+      hierarchy.localPosition = { x: 0, y: 0 }
+      hierarchy.localRotation = 0
+      hierarchy.localScale = { x: 1, y: 1 }
+      return
+    }
 
-        if (entity.hasComponents(system.requiredComponents)) {
-          const queryKey = this.getQueryKey(system.requiredComponents)
-          let query = this.entityQueries.get(queryKey)
+    const parentTransform =
+      parent?.getComponent<TransformComponent>('transform') ?? null
+    if (!parentTransform) {
+      hierarchy.localPosition = { ...transform.position }
+      hierarchy.localRotation = transform.rotation
+      hierarchy.localScale = { ...transform.scale }
+      return
+    }
 
-          if (!query) {
-            query = new Set()
-            this.entityQueries.set(queryKey, query)
-          }
+    // Inverse of the propagation: undo the parent's translation, rotation
+    // and scale
+    const dx = transform.position.x - parentTransform.position.x
+    const dy = transform.position.y - parentTransform.position.y
+    const cos = Math.cos(-parentTransform.rotation)
+    const sin = Math.sin(-parentTransform.rotation)
+    const scaleX = parentTransform.scale.x || 1
+    const scaleY = parentTransform.scale.y || 1
 
-          query.add(entity.id)
-        }
-      })
-    })
+    hierarchy.localPosition = {
+      x: (dx * cos - dy * sin) / scaleX,
+      y: (dx * sin + dy * cos) / scaleY,
+    }
+    hierarchy.localRotation = transform.rotation - parentTransform.rotation
+    hierarchy.localScale = {
+      x: transform.scale.x / scaleX,
+      y: transform.scale.y / scaleY,
+    }
   }
 
   /**
-   * Creates a query key from component types
+   * Gets the query for a descriptor, creating and populating it on first
+   * use. Pending entity changes are applied before returning.
    */
-  private getQueryKey(componentTypes: ComponentType[]): string {
-    // Defensive check to ensure componentTypes is an array
-    if (!componentTypes || !Array.isArray(componentTypes)) {
-      console.error('getQueryKey called with invalid componentTypes:', componentTypes)
-      return ''
+  private getQuery(descriptor: QueryDescriptor): Query {
+    this.flushEntityChanges()
+
+    const queryKey = Query.createKey(descriptor)
+    let query = this.queries.get(queryKey)
+    if (!query) {
+      query = new Query(descriptor)
+      this.queries.set(queryKey, query)
+      this.entities.forEach((entity) => query!.update(entity))
     }
-    return componentTypes.slice().sort().join(',')
+    return query
+  }
+
+  /**
+   * Re-evaluates changed entities against every query. The cost is
+   * proportional to the number of changes, not the number of entities.
+   */
+  private flushEntityChanges(): void {
+    if (this.changedEntities.size === 0) {
+      return
+    }
+
+    this.changedEntities.forEach((entity) => {
+      this.queries.forEach((query) => query.update(entity))
+    })
+    this.changedEntities.clear()
   }
 
   /**
    * Gets entities with specific components
    */
   getEntitiesWithComponents(componentTypes: ComponentType[]): Entity[] {
-    return Array.from(this.entities.values()).filter(
-      (entity) => entity.isActive() && entity.hasComponents(componentTypes)
+    return this.getQuery({ all: componentTypes }).getEntities().slice()
+  }
+
+  /**
+   * Queries active entities, returning one [entity, ...components] row per
+   * match with components typed through ComponentTypeMap:
+   *
+   *   world.query({ all: ['transform', 'movement'], none: ['collectible'] })
+   *     .forEach(([entity, transform, movement]) => { ... })
+   *
+   * added/changed/removed filters look at changes made after sinceTick,
+   * which defaults to the start of the current frame. Without them the
+   * returned array is cached until the matching entities change and must
+   * not be mutated.
+   */
+  query<const D extends QueryDescriptor>(
+    descriptor: D,
+    sinceTick: number = this.frameStartTick
+  ): ReadonlyArray<QueryRow<D>> {
+    const query = this.getQuery(descriptor)
+    const rows = query.getRows() as unknown as QueryRow<D>[]
+    if (!query.hasChangeFilters) {
+      return rows
+    }
+    return rows.filter(([entity]) =>
+      this.matchesChangeFilters(query, entity, sinceTick)
     )
   }
 
+  /**
+   * Connects the world to an event system so entity, component and system
+   * lifecycle changes are emitted as ENTITY_*, COMPONENT_* and SYSTEM_*
+   * events. COMPONENT_UPDATED is emitted (at most once per component per
+   * tick) only when componentUpdates is set, since it fires for every
+   * changed component. A queued event system is flushed at the same points
+   * as the command buffer.
+   */
+  setEventSystem(
+    eventSystem: EventSystem | null,
+    options: { componentUpdates?: boolean } = {}
+  ): void {
+    this.eventSystem = eventSystem
+    this.componentUpdateEvents = options.componentUpdates ?? false
+  }
+
+  /**
+   * Attaches a scheduler whose timers are saved and restored with the world
+   */
+  setScheduler(scheduler: Scheduler | null): void {
+    this.scheduler = scheduler
+  }
+
+  /**
+   * Emits a component lifecycle event
+   */
+  private emitComponentEvent(
+    eventType:
+      | GameEventType.COMPONENT_ADDED
+      | GameEventType.COMPONENT_REMOVED
+      | GameEventType.COMPONENT_UPDATED,
+    entity: Entity,
+    component: Component
+  ): void {
+    const data: ComponentEventData = {
+      entityId: entity.id,
+      componentType: component.type,
+    }
+    this.emit(eventType, data, entity.id)
+  }
+
+  /**
+   * Emits a lifecycle event if an event system is connected
+   */
+  private emit<K extends GameEventType>(
+    eventType: K,
+    data: EventData<K>,
+    entityId?: EntityId
+  ): void {
+    this.eventSystem?.emit(eventType, data, 'world', entityId)
+  }
+
   /**
    * Creates a snapshot of the world state
    */
   snapshot(): WorldSnapshot {
-    const entitySnapshots = Array.from(this.entities.values())
-      .filter((entity) => entity.isActive())
-      .map((entity) => entity.snapshot())
-
-    const systemSnapshots = Array.from(this.systems.values()).map((system) =>
-      system.snapshot()
+    const entitySnapshots = Array.from(this.entities.values()).map((entity) =>
+      entity.snapshot()
     )
 
+    const systemSnapshots = this.systemOrder.map((system) => system.snapshot())
+
     let componentCount = 0
     entitySnapshots.forEach((entity) => {
       componentCount += Object.keys(entity.components).length
@@ -328,9 +1070,134 @@ export class World {
       entityCount: entitySnapshots.length,
       componentCount,
       timestamp: this.totalTime,
+      frameCount: this.frameCount,
+      totalTime: this.totalTime,
+      fixedTime: this.fixedTime,
+      randomState: this.random.getState(),
+      timers: this.scheduler?.snapshot(),
     }
   }
 
+  /**
+   * Replaces all entities in the world with the ones stored in a snapshot.
+   * Entities keep their original IDs and components are rebuilt through the
+   * ComponentRegistry, so every component type in the snapshot must be
+   * registered. Systems are kept; only their enabled state is restored.
+   * No lifecycle events are emitted for the replaced or restored entities.
+   */
+  restore(snapshot: WorldSnapshot): void {
+    // Validate before touching the current state so a bad save can't leave
+    // the world half-restored
+    const names = new Set<string>()
+    const componentData = new Map<
+      EntitySnapshot,
+      Record<ComponentType, Record<string, unknown>>
+    >()
+    snapshot.entities.forEach((entitySnapshot) => {
+      const components: Record<ComponentType, Record<string, unknown>> = {}
+      Object.entries(entitySnapshot.components).forEach(([type, data]) => {
+        if (!ComponentRegistry.has(type)) {
+          throw new Error(
+            `Cannot restore entity ${entitySnapshot.id}: component type "${type}" is not registered`
+          )
+        }
+        try {
+          components[type] = ComponentRegistry.migrate(
+            type,
+            copySerializedData(data)
+          )
+        } catch (error) {
+          throw new Error(
+            `Cannot restore entity ${entitySnapshot.id}: ${(error as Error).message}`
+          )
+        }
+      })
+      componentData.set(entitySnapshot, components)
+      if (entitySnapshot.name !== undefined) {
+        if (names.has(entitySnapshot.name)) {
+          throw new Error(
+            `Cannot restore entity ${entitySnapshot.id}: name "${entitySnapshot.name}" is used by another entity`
+          )
+        }
+        names.add(entitySnapshot.name)
+      }
+    })
+    snapshot.timers?.timers.forEach((timer) => {
+      if (this.scheduler && !this.scheduler.hasHandler(timer.handler)) {
+        throw new Error(
+          `Cannot restore timer ${timer.id}: handler "${timer.handler}" is not registered`
+        )
+      }
+    })
+
+    this.commands.clear()
+    this.entities.forEach((entity) => {
+      entity.setChangeListener(null)
+      this.entityPool.release(entity)
+    })
+    this.entities.clear()
+    this.names.clear()
+    this.tagged.clear()
+    this.changedEntities.clear()
+    this.queries.forEach((query) => query.clear())
+    this.recycledIds.length = 0
+    this.generations.clear()
+    this.reservedIds.clear()
+    this.removedComponents.clear()
+
+    const eventSystem = this.eventSystem
+    this.eventSystem = null
+
+    snapshot.entities.forEach((entitySnapshot) => {
+      const entity = this.entityPool.acquire()
+      entity.setId(entitySnapshot.id)
+      entity.setGeneration(entitySnapshot.generation)
+      entity.setChangeListener(this.entityListener)
+      Entity.reserveId(entitySnapshot.id)
+
+      Object.entries(componentData.get(entitySnapshot)!).forEach(
+        ([type, data]) => {
+          // Already migrated and validated above
+          entity.addComponent(ComponentRegistry.instantiate(type, data))
+        }
+      )
+
+      entity.setName(entitySnapshot.name ?? null)
+      entitySnapshot.tags?.forEach((tag) => entity.addTag(tag))
+      entity.setActive(entitySnapshot.active)
+      this.entities.set(entity.id, entity)
+      this.changedEntities.add(entity)
+    })
+
+    this.eventSystem = eventSystem
+
+    snapshot.systems.forEach((systemSnapshot) => {
+      this.systems.get(systemSnapshot.name)?.setEnabled(systemSnapshot.enabled)
+    })
+
+    this.frameCount = snapshot.frameCount
+    this.totalTime = snapshot.totalTime
+    this.fixedTime = snapshot.fixedTime
+    this.clock.setTime(snapshot.totalTime)
+    if (snapshot.randomState !== undefined) {
+      this.random.setState(snapshot.randomState)
+    }
+    if (snapshot.timers) {
+      this.scheduler?.restore(snapshot.timers)
+    } else {
+      this.scheduler?.clear()
+    }
+  }
+
+  /**
+   * Creates a new world populated from a snapshot
+   */
+  static fromSnapshot(snapshot: WorldSnapshot): World {
+    const world = new World()
+    world.restore(snapshot)
+    return world
+  }
+
   /**
    * Clears all entities and systems from the world
    */
@@ -342,17 +1209,32 @@ export class World {
       }
     })
 
-    // Return all entities to pool
+    // Drop pending commands and return all entities to pool
+    this.commands.clear()
     this.entities.forEach((entity) => {
+      entity.setChangeListener(null)
       this.entityPool.release(entity)
     })
 
     this.entities.clear()
+    this.names.clear()
+    this.tagged.clear()
     this.systems.clear()
-    this.entityQueries.clear()
+    this.setSystemOrder([])
+    this.queries.clear()
+    this.changedEntities.clear()
     this.recycledIds.length = 0
+    this.generations.clear()
+    this.reservedIds.clear()
+    this.systemTicks.clear()
+    this.removedComponents.clear()
+    this.changeTick = 1
+    this.frameStartTick = 0
     this.frameCount = 0
     this.totalTime = 0
+    this.fixedTime = 0
+    this.clock.setTime(0)
+    this.scheduler?.clear()
   }
 
   /**
@@ -402,3 +1284,27 @@ export class World {
     }
   }
 }
+
+/**
+ * Deep copies serialized component data so restored components never share
+ * arrays or objects with the snapshot they came from
+ */
+function copySerializedData(
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  return copyValue(data) as Record<string, unknown>
+}
+
+function copyValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copyValue)
+  }
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, unknown> = {}
+    Object.entries(value).forEach(([key, entry]) => {
+      copy[key] = copyValue(entry)
+    })
+    return copy
+  }
+  return value
+}
@@ -1,4 +1,18 @@
 export { Component, ComponentRegistry } from './Component'
 export { Entity } from './Entity'
-export { System, SystemRegistry } from './System'
+export {
+  createEntityHandle,
+  getHandleId,
+  getHandleGeneration,
+} from './EntityHandle'
+export { System, SystemRegistry, SYSTEM_PHASES } from './System'
 export { World } from './World'
+export { Query, type QueryRow, type ComponentOf } from './Query'
+export { CommandBuffer, type PendingEntity } from './CommandBuffer'
+export { PrefabRegistry } from './Prefab'
+export {
+  encodeSnapshot,
+  decodeSnapshot,
+  type BinarySnapshotOptions,
+  type FloatEncoding,
+} from './BinarySnapshot'
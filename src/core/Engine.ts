@@ -1,5 +1,9 @@
 import { World } from './ECS/World'
 import { EventSystem } from './EventSystem'
+import { SceneManager } from './SceneManager'
+import { Scheduler } from './Scheduler'
+import { ComponentRegistry } from './ECS/Component'
+import type { Plugin, PluginContext } from './Plugin'
 import { PerformanceMonitor } from './PerformanceMonitor'
 import { globalProfiler } from './Profiler'
 import { globalMemoryManager, initializeCommonPools } from '../utils'
@@ -8,8 +12,55 @@ import type {
   EngineConfig,
   GameConfig,
   UpdateCallback,
+  RenderCallback,
 } from '../types/GameTypes'
-import { GameEventType } from '../types/Events'
+import {
+  GameEventType,
+  type GameStateEventData,
+  type EventRecording,
+  type ReplayOptions,
+} from '../types/Events'
+import type { ComponentType, SystemName } from '../types/CoreTypes'
+
+/**
+ * Options for running the simulation without the real-time loop
+ */
+export interface RunOptions {
+  /** Simulated milliseconds per frame; defaults to 1000 / targetFPS */
+  fixedDelta?: number
+  /** Checked after every frame; the run stops once it returns true */
+  until?: (world: World) => boolean
+}
+
+/**
+ * Outcome of Engine.step() or Engine.runFor()
+ */
+export interface RunResult {
+  /** Number of frames that were run */
+  frames: number
+  /** Simulated time that passed, in milliseconds (before time scaling) */
+  elapsed: number
+  /** True when the run ended because `until` returned true */
+  stopped: boolean
+}
+
+/**
+ * A plugin installed on an engine, with what it added so it can be removed
+ */
+interface InstalledPlugin {
+  plugin: Plugin<object>
+  context: PluginContext<object>
+  systems: SystemName[]
+  components: ComponentType[]
+  eventTypes: string[]
+}
+
+/**
+ * Number of installed plugins using each component type that plugins
+ * registered. The component registry is shared by every engine, so a type
+ * is only unregistered once no engine's plugins use it anymore.
+ */
+const pluginComponentUsers = new Map<ComponentType, number>()
 
 /**
  * Main game engine class that manages the game loop, systems, and state.
@@ -18,17 +69,21 @@ import { GameEventType } from '../types/Events'
 export class Engine {
   private world: World
   private eventSystem: EventSystem
+  private scenes: SceneManager
+  private scheduler: Scheduler
   private performanceMonitor: PerformanceMonitor
   private state: GameState
   private config: Required<EngineConfig>
+  private gameConfig: GameConfig
+  private plugins = new Map<string, InstalledPlugin>()
   private updateCallbacks: Set<UpdateCallback> = new Set()
+  private renderCallbacks: Set<RenderCallback> = new Set()
+  private renderAlpha: number = 1
   private animationFrameId: NodeJS.Timeout | number | null = null
   private lastUpdateTime: number = 0
   private accumulator: number = 0
 
   constructor(config: GameConfig = {}) {
-    this.world = new World()
-    this.eventSystem = new EventSystem()
     this.performanceMonitor = new PerformanceMonitor({
       targetFPS: config.engine?.targetFPS ?? 60,
       minFPS: 30,
@@ -36,6 +91,8 @@ export class Engine {
       adjustmentInterval: 5000,
     })
 
+    this.gameConfig = config
+
     // Apply default engine configuration
     this.config = {
       targetFPS: 60,
@@ -44,9 +101,33 @@ export class Engine {
       enableEventHistory: false,
       eventHistorySize: 1000,
       debug: false,
+      componentUpdateEvents: false,
+      queuedEvents: false,
+      seed: Date.now(),
       ...config.engine,
     }
 
+    this.world = new World({ seed: this.config.seed })
+    this.eventSystem = new EventSystem()
+    this.eventSystem.setClock(this.world.clock)
+    this.eventSystem.setFrameCounter(() => this.state.frameCount)
+
+    // Publish world lifecycle changes on the engine's event bus
+    this.world.setEventSystem(this.eventSystem, {
+      componentUpdates: this.config.componentUpdateEvents,
+    })
+
+    // Timers run on game time and are saved with the world
+    this.scheduler = new Scheduler(this.world.clock)
+    this.world.setScheduler(this.scheduler)
+
+    // Scene worlds share the event bus and are seeded from the main world
+    this.scenes = new SceneManager({
+      eventSystem: this.eventSystem,
+      componentUpdateEvents: this.config.componentUpdateEvents,
+      random: this.world.random,
+    })
+
     // Initialize game state
     this.state = {
       running: false,
@@ -61,6 +142,7 @@ export class Engine {
     if (this.config.enableEventHistory) {
       this.eventSystem.setHistoryEnabled(true, this.config.eventHistorySize)
     }
+    this.eventSystem.setQueued(this.config.queuedEvents)
 
     // Initialize common object pools
     initializeCommonPools()
@@ -96,6 +178,22 @@ export class Engine {
     return this.eventSystem
   }
 
+  /**
+   * Gets the scene manager. The worlds of updating scenes are updated every
+   * frame after the main world.
+   */
+  getScenes(): SceneManager {
+    return this.scenes
+  }
+
+  /**
+   * Gets the scheduler. Its timers run on the main world's game time, so
+   * they follow the time scale and wait while the engine is paused.
+   */
+  getScheduler(): Scheduler {
+    return this.scheduler
+  }
+
   /**
    * Gets the performance monitor instance
    */
@@ -122,7 +220,7 @@ export class Engine {
     this.state.paused = false
     this.lastUpdateTime = performance.now()
 
-    this.eventSystem.emit(GameEventType.GAME_STARTED, {
+    this.emitStateEvent(GameEventType.GAME_STARTED, {
       timestamp: this.state.currentTime,
     })
 
@@ -158,7 +256,7 @@ export class Engine {
       this.animationFrameId = null
     }
 
-    this.eventSystem.emit(GameEventType.GAME_ENDED, {
+    this.emitStateEvent(GameEventType.GAME_ENDED, {
       timestamp: this.state.currentTime,
       frameCount: this.state.frameCount,
     })
@@ -174,7 +272,7 @@ export class Engine {
 
     this.state.paused = true
 
-    this.eventSystem.emit(GameEventType.GAME_PAUSED, {
+    this.emitStateEvent(GameEventType.GAME_PAUSED, {
       timestamp: this.state.currentTime,
     })
   }
@@ -190,7 +288,7 @@ export class Engine {
     this.state.paused = false
     this.lastUpdateTime = performance.now()
 
-    this.eventSystem.emit(GameEventType.GAME_RESUMED, {
+    this.emitStateEvent(GameEventType.GAME_RESUMED, {
       timestamp: this.state.currentTime,
     })
   }
@@ -213,13 +311,248 @@ export class Engine {
   }
 
   /**
-   * Manually updates the engine (for testing or server-side usage)
+   * Registers a render callback, called once per frame of the real-time
+   * loop with the interpolation alpha between the last two fixed steps
+   */
+  onRender(callback: RenderCallback): () => void {
+    this.renderCallbacks.add(callback)
+    return () => {
+      this.renderCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * Installs a plugin: registers its components and event types, then adds
+   * its systems with the world and event bus injected. Throws if the plugin
+   * is already installed or one of its dependencies is not.
+   */
+  use<TConfig extends object>(
+    plugin: Plugin<TConfig>,
+    config: Partial<TConfig> = {}
+  ): this {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already installed`)
+    }
+    const missing = plugin.dependencies?.find(
+      (dependency) => !this.plugins.has(dependency)
+    )
+    if (missing !== undefined) {
+      throw new Error(`Plugin "${plugin.name}" requires plugin "${missing}"`)
+    }
+
+    const context: PluginContext<TConfig> = {
+      engine: this,
+      world: this.world,
+      events: this.eventSystem,
+      config: {
+        ...plugin.defaults,
+        ...(this.gameConfig[plugin.name] as Partial<TConfig> | undefined),
+        ...config,
+      } as TConfig,
+    }
+    const installed: InstalledPlugin = {
+      plugin,
+      context,
+      systems: [],
+      components: [],
+      eventTypes: [],
+    }
+
+    try {
+      Object.entries(plugin.components ?? {}).forEach(([type, component]) => {
+        if (!ComponentRegistry.has(type)) {
+          ComponentRegistry.register(type, component)
+          pluginComponentUsers.set(type, 0)
+        }
+        const users = pluginComponentUsers.get(type)
+        if (users !== undefined) {
+          pluginComponentUsers.set(type, users + 1)
+          installed.components.push(type)
+        }
+      })
+      plugin.eventTypes?.forEach((eventType) => {
+        if (!this.eventSystem.hasEventType(eventType)) {
+          this.eventSystem.registerEventType(eventType)
+          installed.eventTypes.push(eventType)
+        }
+      })
+      plugin.systems?.(context).forEach((system) => {
+        this.world.addSystem(system)
+        installed.systems.push(system.name)
+      })
+      plugin.install?.(context)
+    } catch (error) {
+      // Undo the partial install
+      this.uninstallPlugin(installed)
+      throw error
+    }
+
+    this.plugins.set(plugin.name, installed)
+    return this
+  }
+
+  /**
+   * Removes a plugin: calls its uninstall hook, removes its systems and
+   * unregisters the event types it registered and the component types it
+   * registered that no other installed plugin uses. Throws if another
+   * installed plugin depends on it.
+   */
+  removePlugin(name: string): void {
+    const installed = this.plugins.get(name)
+    if (!installed) {
+      return
+    }
+
+    const dependent = Array.from(this.plugins.values()).find((other) =>
+      other.plugin.dependencies?.includes(name)
+    )
+    if (dependent) {
+      throw new Error(
+        `Cannot remove plugin "${name}": plugin "${dependent.plugin.name}" depends on it`
+      )
+    }
+
+    installed.plugin.uninstall?.(installed.context)
+    this.plugins.delete(name)
+    this.uninstallPlugin(installed)
+  }
+
+  /**
+   * Checks whether a plugin is installed
+   */
+  hasPlugin(name: string): boolean {
+    return this.plugins.has(name)
+  }
+
+  /**
+   * Gets the names of the installed plugins in install order
+   */
+  getPlugins(): string[] {
+    return Array.from(this.plugins.keys())
+  }
+
+  /**
+   * Removes what a plugin added to the world and the registries
+   */
+  private uninstallPlugin(installed: InstalledPlugin): void {
+    installed.systems.forEach((systemName) => {
+      this.world.removeSystem(systemName)
+    })
+    installed.components.forEach((type) => {
+      const users = (pluginComponentUsers.get(type) ?? 1) - 1
+      if (users > 0) {
+        pluginComponentUsers.set(type, users)
+      } else {
+        pluginComponentUsers.delete(type)
+        ComponentRegistry.unregister(type)
+      }
+    })
+    installed.eventTypes.forEach((eventType) => {
+      this.eventSystem.unregisterEventType(eventType)
+    })
+  }
+
+  /**
+   * Manually updates the engine (for testing or server-side usage).
+   * Runs every phase once, with a single fixed step of deltaTime.
    */
   update(deltaTime: number): void {
     if (!this.state.running || this.state.paused) {
       return
     }
 
+    this.runFrame(deltaTime, 1, deltaTime)
+  }
+
+  /**
+   * Runs a number of frames synchronously, as fast as possible. Works
+   * without start() and while paused, and never starts the real-time loop.
+   */
+  step(frames: number = 1, options: RunOptions = {}): RunResult {
+    const fixedDelta = options.fixedDelta ?? this.getFrameTime()
+    const result: RunResult = { frames: 0, elapsed: 0, stopped: false }
+
+    while (result.frames < frames && !result.stopped) {
+      this.runFrame(fixedDelta, 1, fixedDelta)
+      result.frames++
+      result.elapsed += fixedDelta
+      result.stopped = options.until?.(this.world) ?? false
+    }
+
+    return result
+  }
+
+  /**
+   * Advances the simulation by simulatedMs synchronously, in frames of
+   * fixedDelta (the last frame is shortened to end exactly on time)
+   */
+  runFor(simulatedMs: number, options: RunOptions = {}): RunResult {
+    const fixedDelta = options.fixedDelta ?? this.getFrameTime()
+    if (fixedDelta <= 0) {
+      throw new Error('fixedDelta must be greater than 0')
+    }
+
+    const result: RunResult = { frames: 0, elapsed: 0, stopped: false }
+
+    while (result.elapsed < simulatedMs && !result.stopped) {
+      const deltaTime = Math.min(fixedDelta, simulatedMs - result.elapsed)
+      this.runFrame(deltaTime, 1, deltaTime)
+      result.frames++
+      result.elapsed += deltaTime
+      result.stopped = options.until?.(this.world) ?? false
+    }
+
+    return result
+  }
+
+  /**
+   * Exports the event history with the engine's seed, e.g. to attach to a
+   * bug report. Requires enableEventHistory.
+   */
+  exportEvents(): EventRecording {
+    if (!this.eventSystem.isHistoryEnabled()) {
+      throw new Error('Cannot export events: event history is not enabled')
+    }
+
+    return {
+      seed: this.config.seed,
+      events: this.eventSystem.getHistory().events,
+    }
+  }
+
+  /**
+   * Replays recorded events in lockstep with the engine's frames: stepping
+   * the engine re-emits each event after the frame it was recorded in. Set
+   * up the game as in the recorded run first; the engine must use the
+   * recording's seed. options.filter selects the events from outside the
+   * simulation to replay.
+   */
+  replayEvents(recording: EventRecording, options: ReplayOptions): void {
+    if (recording.seed !== this.config.seed) {
+      throw new Error(
+        `Cannot replay events recorded with seed ${recording.seed} on an engine seeded with ${this.config.seed}`
+      )
+    }
+
+    this.eventSystem.startReplay(recording.events, options)
+  }
+
+  /**
+   * Gets the duration of one frame at the target frame rate
+   */
+  private getFrameTime(): number {
+    return 1000 / this.config.targetFPS
+  }
+
+  /**
+   * Runs one frame: the variable phases once with deltaTime and the
+   * fixedUpdate phase fixedSteps times with fixedDelta
+   */
+  private runFrame(
+    deltaTime: number,
+    fixedSteps: number,
+    fixedDelta: number
+  ): void {
     this.performanceMonitor.beginFrame()
     globalProfiler.beginFrame(this.state.frameCount)
 
@@ -228,13 +561,22 @@ export class Engine {
     this.state.currentTime += scaledDelta
     this.state.frameCount++
 
-    // Update the world
+    // Update the world phase by phase
     globalProfiler.beginMark('world.update')
     const updateStart = performance.now()
-    this.world.update(scaledDelta)
+    const scaledFixedDelta = fixedDelta * this.state.timeScale
+    this.updateWorld(this.world, scaledDelta, fixedSteps, scaledFixedDelta)
+    this.scenes.getUpdatingWorlds().forEach((world) => {
+      this.updateWorld(world, scaledDelta, fixedSteps, scaledFixedDelta)
+    })
     const updateTime = performance.now() - updateStart
     globalProfiler.endMark('world.update')
 
+    // Run the timers that came due during the frame
+    globalProfiler.beginMark('scheduler')
+    this.scheduler.update()
+    globalProfiler.endMark('scheduler')
+
     // Update performance metrics
     const worldStats = this.world.getStats()
     this.performanceMonitor.updateEntityStats(
@@ -271,6 +613,46 @@ export class Engine {
         current: worldStats.entityCount,
       })
     }
+
+    // Dispatch events queued after the worlds' last phase
+    this.eventSystem.flush()
+
+    // Re-emit replayed events recorded during or after this frame
+    this.eventSystem.advanceReplay()
+  }
+
+  /**
+   * Emits a game state event. State changes happen between frames, so a
+   * queued event system is flushed right away.
+   */
+  private emitStateEvent(
+    eventType:
+      | GameEventType.GAME_STARTED
+      | GameEventType.GAME_ENDED
+      | GameEventType.GAME_PAUSED
+      | GameEventType.GAME_RESUMED,
+    data: GameStateEventData
+  ): void {
+    this.eventSystem.emit(eventType, data)
+    this.eventSystem.flush()
+  }
+
+  /**
+   * Runs every phase of a world for one frame
+   */
+  private updateWorld(
+    world: World,
+    deltaTime: number,
+    fixedSteps: number,
+    fixedDelta: number
+  ): void {
+    world.beginFrame(deltaTime)
+    world.updatePhase('preUpdate', deltaTime)
+    for (let step = 0; step < fixedSteps; step++) {
+      world.updatePhase('fixedUpdate', fixedDelta)
+    }
+    world.updatePhase('update', deltaTime)
+    world.updatePhase('lateUpdate', deltaTime)
   }
 
   /**
@@ -279,12 +661,19 @@ export class Engine {
   reset(): void {
     this.stop()
 
-    // Clear world
+    // Remove plugins (dependents first), exit all scenes, clear the world
+    // and restart the random sequence
+    this.getPlugins()
+      .reverse()
+      .forEach((name) => this.removePlugin(name))
+    this.scenes.clear()
     this.world.clear()
+    this.world.random.setState(this.config.seed)
 
     // Clear event system
     this.eventSystem.clear()
     this.eventSystem.clearHistory()
+    this.eventSystem.stopReplay()
 
     // Reset performance monitor
     this.performanceMonitor.reset()
@@ -300,7 +689,9 @@ export class Engine {
     }
 
     this.accumulator = 0
+    this.renderAlpha = 1
     this.updateCallbacks.clear()
+    this.renderCallbacks.clear()
   }
 
   /**
@@ -351,11 +742,26 @@ export class Engine {
     this.performanceMonitor.setQualityLevel(level)
   }
 
+  /**
+   * Calls the render callbacks
+   */
+  private render(alpha: number): void {
+    this.renderAlpha = alpha
+    if (this.renderCallbacks.size === 0) {
+      return
+    }
+
+    const state = this.getState()
+    this.renderCallbacks.forEach((callback) => {
+      callback(alpha, state)
+    })
+  }
+
   /**
    * Main game loop
    */
   private startGameLoop(): void {
-    const targetFrameTime = 1000 / this.config.targetFPS
+    const targetFrameTime = this.getFrameTime()
 
     const gameLoop = (currentTime: number): void => {
       if (!this.state.running) {
@@ -376,14 +782,19 @@ export class Engine {
         ).requestAnimationFrame(gameLoop)
       } else {
         // Node.js fallback
-        const delay = Math.max(0, targetFrameTime - (Date.now() - currentTime))
+        const delay = Math.max(
+          0,
+          targetFrameTime - (performance.now() - currentTime)
+        )
         this.animationFrameId = setTimeout(
-          () => gameLoop(Date.now()),
+          () => gameLoop(performance.now()),
           delay
         ) as unknown as number
       }
 
       if (this.state.paused) {
+        // Keep drawing the last simulated state
+        this.render(this.renderAlpha)
         return
       }
 
@@ -395,16 +806,24 @@ export class Engine {
       const deltaTime = Math.min(rawDeltaTime, this.config.maxDeltaTime)
 
       if (this.config.fixedTimeStep) {
-        // Fixed timestep with interpolation
+        // Variable phases run once per frame, fixedUpdate once per
+        // accumulated fixed step
         this.accumulator += deltaTime
 
+        let fixedSteps = 0
         while (this.accumulator >= targetFrameTime) {
-          this.update(targetFrameTime)
+          fixedSteps++
           this.accumulator -= targetFrameTime
         }
+
+        this.runFrame(deltaTime, fixedSteps, targetFrameTime)
+
+        // Draw the state between the last two fixed steps
+        this.render(this.accumulator / targetFrameTime)
       } else {
         // Variable timestep
         this.update(deltaTime)
+        this.render(1)
       }
     }
 
@@ -422,7 +841,7 @@ export class Engine {
       ).requestAnimationFrame(gameLoop)
     } else {
       // Start with immediate execution for Node.js
-      setImmediate(() => gameLoop(Date.now()))
+      setImmediate(() => gameLoop(performance.now()))
     }
   }
 }
@@ -1,59 +1,170 @@
-import type {
-  GameEvent,
-  EventListener,
-  EventSubscription,
-  EventFilter,
-  EventHistory,
+import {
+  GameEventType,
+  type GameEvent,
+  type EventListener,
+  type ListenerOptions,
+  type DispatchedEvent,
+  type EventSubscription,
+  type EventFilter,
+  type EventHistory,
+  type EventData,
+  type ReplayOptions,
 } from '../types/Events'
+import type { TimeSource } from '../types/CoreTypes'
+import { realtimeClock } from './Clock'
+
+const BUILTIN_EVENT_TYPES: ReadonlySet<string> = new Set(
+  Object.values(GameEventType)
+)
+
+interface ListenerEntry {
+  listener: EventListener
+  priority: number
+  once: boolean
+  removed: boolean
+}
 
 /**
  * Event system for inter-system communication.
  * Provides a centralized event bus for decoupled communication between systems.
  */
 export class EventSystem {
-  private listeners = new Map<string, Set<EventListener>>()
+  private listeners = new Map<string, ListenerEntry[]>()
   private globalListeners = new Set<EventListener>()
+  private queued: boolean = false
+  private queue: GameEvent[] = []
+  private flushing: boolean = false
   private eventHistory: GameEvent[] = []
   private historyEnabled: boolean = false
   private maxHistorySize: number = 1000
   private eventCount: number = 0
+  private clock: TimeSource = realtimeClock
+  private frameCounter: () => number = () => 0
+  private replayEvents: GameEvent[] = []
+  private replayIndex: number = 0
+  private customEventTypes = new Set<string>()
 
   /**
-   * Subscribes to a specific event type
+   * Sets the clock used to timestamp events (the wall clock by default)
    */
-  on<T = unknown>(
-    eventType: string,
-    listener: EventListener<T>
-  ): EventSubscription {
-    if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set())
+  setClock(clock: TimeSource): void {
+    this.clock = clock
+  }
+
+  /**
+   * Sets the source of the frame number events are stamped with (0 by
+   * default; the Engine uses its frame count)
+   */
+  setFrameCounter(counter: () => number): void {
+    this.frameCounter = counter
+  }
+
+  /**
+   * Registers a custom event type (e.g. one emitted by a plugin) so it is
+   * listed by getEventTypes()
+   */
+  registerEventType(eventType: string): void {
+    if (this.hasEventType(eventType)) {
+      throw new Error(`Event type "${eventType}" is already registered`)
     }
+    this.customEventTypes.add(eventType)
+  }
 
-    const listeners = this.listeners.get(eventType)!
-    listeners.add(listener as EventListener)
+  /**
+   * Unregisters a custom event type
+   */
+  unregisterEventType(eventType: string): void {
+    this.customEventTypes.delete(eventType)
+  }
 
-    return {
-      unsubscribe: () => {
-        listeners.delete(listener as EventListener)
-        if (listeners.size === 0) {
-          this.listeners.delete(eventType)
-        }
-      },
+  /**
+   * Checks whether an event type is built in or registered
+   */
+  hasEventType(eventType: string): boolean {
+    return (
+      BUILTIN_EVENT_TYPES.has(eventType) || this.customEventTypes.has(eventType)
+    )
+  }
+
+  /**
+   * Gets the built-in and registered event types
+   */
+  getEventTypes(): string[] {
+    return [...BUILTIN_EVENT_TYPES, ...this.customEventTypes]
+  }
+
+  /**
+   * Enables or disables queued mode. Queued events are dispatched when
+   * flush() is called instead of inside emit(); the Engine and World flush
+   * at defined points in the frame. Disabling queued mode flushes the queue.
+   */
+  setQueued(queued: boolean): void {
+    this.queued = queued
+    if (!queued) {
+      this.flush()
     }
   }
 
+  /**
+   * Checks whether events are queued until flush()
+   */
+  isQueued(): boolean {
+    return this.queued
+  }
+
+  /**
+   * Gets the number of events waiting to be dispatched
+   */
+  getQueuedCount(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Dispatches queued events in the order they were emitted, including
+   * events emitted by listeners during the flush
+   */
+  flush(): void {
+    if (this.flushing) {
+      return
+    }
+
+    this.flushing = true
+    try {
+      for (let i = 0; i < this.queue.length; i++) {
+        this.dispatch(this.queue[i])
+      }
+    } finally {
+      this.queue = []
+      this.flushing = false
+    }
+  }
+
+  /**
+   * Subscribes to a specific event type. The listener's payload is typed from
+   * EventMap.
+   */
+  on<K extends string>(
+    eventType: K,
+    listener: EventListener<EventData<K>>,
+    options: ListenerOptions = {}
+  ): EventSubscription {
+    return this.addListener(
+      eventType,
+      listener as EventListener,
+      options,
+      false
+    )
+  }
+
   /**
    * Subscribes to a specific event type (one-time listener)
    */
-  once<T = unknown>(
-    eventType: string,
-    listener: EventListener<T>
+  once<K extends string>(
+    eventType: K,
+    listener: EventListener<EventData<K>>,
+    options: ListenerOptions = {}
   ): EventSubscription {
-    const subscription = this.on(eventType, (event) => {
-      subscription.unsubscribe()
-      listener(event as GameEvent & { data: T })
-    })
-    return subscription
+    return this.addListener(eventType, listener as EventListener, options, true)
   }
 
   /**
@@ -70,17 +181,19 @@ export class EventSystem {
   }
 
   /**
-   * Emits an event
+   * Emits an event. The payload is checked against EventMap. In queued mode
+   * the event is dispatched on the next flush().
    */
-  emit(
-    eventType: string,
-    data: unknown,
+  emit<K extends string>(
+    eventType: K,
+    data: EventData<K>,
     source?: string,
     entityId?: number
   ): void {
     const event: GameEvent = {
       type: eventType,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
+      frame: this.frameCounter(),
       data,
       source,
       entityId,
@@ -93,41 +206,52 @@ export class EventSystem {
       this.addToHistory(event)
     }
 
-    // Notify specific listeners
-    const listeners = this.listeners.get(eventType)
-    if (listeners) {
-      listeners.forEach((listener) => {
-        try {
-          listener(event)
-        } catch (error) {
-          console.error(`Error in event listener for ${eventType}:`, error)
-        }
-      })
+    if (this.queued) {
+      this.queue.push(event)
+    } else {
+      this.dispatch(event)
     }
-
-    // Notify global listeners
-    this.globalListeners.forEach((listener) => {
-      try {
-        listener(event)
-      } catch (error) {
-        console.error('Error in global event listener:', error)
-      }
-    })
   }
 
   /**
-   * Removes all listeners for a specific event type
+   * Removes a listener from an event type, or all of the type's listeners
+   * if no listener is given
    */
-  off(eventType: string): void {
-    this.listeners.delete(eventType)
+  off<K extends string>(
+    eventType: K,
+    listener?: EventListener<EventData<K>>
+  ): void {
+    const entries = this.listeners.get(eventType)
+    if (!entries) {
+      return
+    }
+
+    if (!listener) {
+      entries.forEach((entry) => {
+        entry.removed = true
+      })
+      this.listeners.delete(eventType)
+      return
+    }
+
+    const entry = entries.find((candidate) => candidate.listener === listener)
+    if (entry) {
+      this.removeListener(eventType, entry)
+    }
   }
 
   /**
-   * Removes all event listeners
+   * Removes all event listeners and drops queued events
    */
   clear(): void {
+    this.listeners.forEach((entries) =>
+      entries.forEach((entry) => {
+        entry.removed = true
+      })
+    )
     this.listeners.clear()
     this.globalListeners.clear()
+    this.queue = []
   }
 
   /**
@@ -142,6 +266,13 @@ export class EventSystem {
     }
   }
 
+  /**
+   * Checks whether emitted events are recorded in the history
+   */
+  isHistoryEnabled(): boolean {
+    return this.historyEnabled
+  }
+
   /**
    * Gets the event history
    */
@@ -180,7 +311,58 @@ export class EventSystem {
   }
 
   /**
-   * Replays events from history
+   * Starts a lockstep replay of recorded events. Each event is re-emitted
+   * once the frame it was recorded in has run (see advanceReplay()), so
+   * stepping a freshly seeded engine reproduces the recorded run. Events
+   * recorded up to the current frame are emitted right away. Only the events
+   * selected by options.filter are replayed (see ReplayOptions).
+   */
+  startReplay(events: GameEvent[], options: ReplayOptions): void {
+    this.replayEvents = events.filter(options.filter)
+    this.replayIndex = 0
+    this.advanceReplay()
+  }
+
+  /**
+   * Emits the replayed events recorded up to the current frame. The Engine
+   * calls this at the end of every frame.
+   */
+  advanceReplay(): void {
+    const frame = this.frameCounter()
+
+    while (this.replayIndex < this.replayEvents.length) {
+      const event = this.replayEvents[this.replayIndex]
+      if ((event.frame ?? 0) > frame) {
+        break
+      }
+
+      this.replayIndex++
+      this.emit(event.type, event.data, event.source, event.entityId)
+    }
+
+    if (this.replayIndex >= this.replayEvents.length) {
+      this.stopReplay()
+    }
+  }
+
+  /**
+   * Stops the lockstep replay, dropping the events not emitted yet
+   */
+  stopReplay(): void {
+    this.replayEvents = []
+    this.replayIndex = 0
+  }
+
+  /**
+   * Checks whether a lockstep replay has events left to emit
+   */
+  isReplaying(): boolean {
+    return this.replayIndex < this.replayEvents.length
+  }
+
+  /**
+   * Replays events on wall-clock timers, spaced by their timestamps. Use
+   * startReplay() to reproduce a run frame by frame.
    */
   replay(
     events: GameEvent[],
@@ -234,8 +416,8 @@ export class EventSystem {
     totalEventsEmitted: number
   } {
     let listenerCount = 0
-    this.listeners.forEach((listeners) => {
-      listenerCount += listeners.size
+    this.listeners.forEach((entries) => {
+      listenerCount += entries.length
     })
 
     return {
@@ -247,6 +429,98 @@ export class EventSystem {
     }
   }
 
+  /**
+   * Adds a listener entry, keeping the type's entries sorted by priority
+   */
+  private addListener(
+    eventType: string,
+    listener: EventListener,
+    options: ListenerOptions,
+    once: boolean
+  ): EventSubscription {
+    const entry: ListenerEntry = {
+      listener,
+      priority: options.priority ?? 0,
+      once,
+      removed: false,
+    }
+
+    const entries = this.listeners.get(eventType) ?? []
+    this.listeners.set(eventType, entries)
+
+    // Insert after every entry with the same or a higher priority
+    const index = entries.findIndex((other) => other.priority < entry.priority)
+    entries.splice(index === -1 ? entries.length : index, 0, entry)
+
+    return {
+      unsubscribe: () => this.removeListener(eventType, entry),
+    }
+  }
+
+  /**
+   * Removes a listener entry
+   */
+  private removeListener(eventType: string, entry: ListenerEntry): void {
+    entry.removed = true
+
+    const entries = this.listeners.get(eventType)
+    const index = entries?.indexOf(entry) ?? -1
+    if (!entries || index === -1) {
+      return
+    }
+
+    entries.splice(index, 1)
+    if (entries.length === 0) {
+      this.listeners.delete(eventType)
+    }
+  }
+
+  /**
+   * Calls the listeners of an event in priority order, then the global
+   * listeners. Stopping propagation skips the remaining type listeners only.
+   */
+  private dispatch(event: GameEvent): void {
+    let stopped = false
+    const dispatched: DispatchedEvent = {
+      ...event,
+      stopPropagation: () => {
+        stopped = true
+      },
+    }
+
+    // Notify specific listeners. Iterate over a copy so listeners can
+    // subscribe and unsubscribe while the event is dispatched.
+    const entries = this.listeners.get(event.type)
+    if (entries) {
+      for (const entry of [...entries]) {
+        if (stopped) {
+          break
+        }
+        if (entry.removed) {
+          continue
+        }
+        if (entry.once) {
+          this.removeListener(event.type, entry)
+        }
+
+        try {
+          entry.listener(dispatched)
+        } catch (error) {
+          console.error(`Error in event listener for ${event.type}:`, error)
+        }
+      }
+    }
+
+    // Notify global listeners
+    this.globalListeners.forEach((listener) => {
+      try {
+        listener(dispatched)
+      } catch (error) {
+        console.error('Error in global event listener:', error)
+      }
+    })
+  }
+
   /**
    * Adds an event to history
    */
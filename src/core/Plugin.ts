@@ -0,0 +1,66 @@
+import type { Engine } from './Engine'
+import type { World } from './ECS/World'
+import type { System } from './ECS/System'
+import type { Component } from './ECS/Component'
+import type { EventSystem } from './EventSystem'
+import type { ComponentType } from '../types/CoreTypes'
+
+/**
+ * Component class a plugin registers with the ComponentRegistry
+ */
+export type PluginComponentClass = new (...args: unknown[]) => Component
+
+/**
+ * Services handed to a plugin when it is installed or removed
+ */
+export interface PluginContext<
+  TConfig extends object = Record<string, unknown>,
+> {
+  readonly engine: Engine
+  readonly world: World
+  readonly events: EventSystem
+  /**
+   * The plugin's defaults, overridden by the game config entry named after
+   * the plugin, overridden by the config passed to Engine.use()
+   */
+  readonly config: TConfig
+}
+
+/**
+ * A package of components, systems, config defaults and event types that is
+ * installed with Engine.use() and can be removed with Engine.removePlugin()
+ */
+export interface Plugin<TConfig extends object = Record<string, unknown>> {
+  readonly name: string
+
+  /** Names of plugins that must be installed first */
+  readonly dependencies?: readonly string[]
+
+  /**
+   * Component classes keyed by component type. Types that are not registered
+   * yet are registered on install and unregistered on removal.
+   */
+  readonly components?: Readonly<Record<ComponentType, PluginComponentClass>>
+
+  /** Config defaults */
+  readonly defaults?: TConfig
+
+  /** Custom event types the plugin emits */
+  readonly eventTypes?: readonly string[]
+
+  /**
+   * Creates the plugin's systems, which are added to the world on install
+   * and removed again on removal
+   */
+  systems?(context: PluginContext<TConfig>): System[]
+
+  /**
+   * Optional setup, called after the plugin's systems are added
+   */
+  install?(context: PluginContext<TConfig>): void
+
+  /**
+   * Optional cleanup, called before the plugin's systems are removed
+   */
+  uninstall?(context: PluginContext<TConfig>): void
+}
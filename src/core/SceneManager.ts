@@ -0,0 +1,304 @@
+import { World } from './ECS/World'
+import type { Entity } from './ECS/Entity'
+import type { EventSystem } from './EventSystem'
+import type { EntityId, RandomSource } from '../types/CoreTypes'
+import { unseededRandom } from '../utils/Random'
+
+/**
+ * A game screen (menu, run, results...) with its own World. The scene
+ * manager creates a fresh world each time a scene is entered and clears it
+ * when the scene exits; the scene adds its systems and entities in onEnter.
+ */
+export abstract class Scene {
+  abstract readonly name: string
+
+  /**
+   * When true, the scene keeps updating while other scenes are on top of
+   * it (e.g. a game running behind a HUD). Otherwise it is paused until it
+   * is the top scene again.
+   */
+  readonly updateWhenCovered: boolean = false
+
+  /**
+   * Called when the scene is pushed or replaces another scene, with its new
+   * world and the entities carried over from the previous scene
+   */
+  onEnter?(world: World, carried: Entity[]): void
+
+  /**
+   * Called when the scene is popped or replaced, before its world is cleared
+   */
+  onExit?(world: World): void
+
+  /**
+   * Called when the scene stops updating because it was covered or paused
+   */
+  onPause?(world: World): void
+
+  /**
+   * Called when the scene starts updating again
+   */
+  onResume?(world: World): void
+}
+
+/**
+ * Options for pushing or replacing a scene
+ */
+export interface SceneTransitionOptions {
+  /**
+   * Entities of the current top scene to move into the new scene's world,
+   * together with their children
+   */
+  carry?: EntityId[]
+}
+
+export interface SceneManagerOptions {
+  /** Event bus that scene worlds publish their lifecycle events on */
+  eventSystem?: EventSystem
+  /** Emit COMPONENT_UPDATED for component changes in scene worlds */
+  componentUpdateEvents?: boolean
+  /** Source of the seeds for scene worlds' random generators */
+  random?: RandomSource
+}
+
+interface SceneEntry {
+  scene: Scene
+  world: World
+  paused: boolean
+  updating: boolean
+}
+
+/**
+ * Manages a stack of scenes, each with its own World and systems. The top
+ * scene is the active one; scenes below it only update when they set
+ * updateWhenCovered. Any scene can also be paused on its own.
+ */
+export class SceneManager {
+  private stack: SceneEntry[] = []
+  private readonly eventSystem: EventSystem | null
+  private readonly componentUpdateEvents: boolean
+  private readonly random: RandomSource
+
+  constructor(options: SceneManagerOptions = {}) {
+    this.eventSystem = options.eventSystem ?? null
+    this.componentUpdateEvents = options.componentUpdateEvents ?? false
+    this.random = options.random ?? unseededRandom
+  }
+
+  /**
+   * Enters a scene on top of the current one and returns its world
+   */
+  push(scene: Scene, options: SceneTransitionOptions = {}): World {
+    this.assertNotInStack(scene, this.stack)
+
+    const world = this.createWorld()
+    const carried = this.carry(this.getTop(), world, options)
+
+    this.stack.push({ scene, world, paused: false, updating: true })
+    this.updateStates()
+    scene.onEnter?.(world, carried)
+    return world
+  }
+
+  /**
+   * Exits the top scene, resuming the one below it. Returns the exited
+   * scene, or null if there was none.
+   */
+  pop(): Scene | null {
+    const entry = this.stack.pop()
+    if (!entry) {
+      return null
+    }
+
+    this.exit(entry)
+    this.updateStates()
+    return entry.scene
+  }
+
+  /**
+   * Exits the top scene and enters another in its place (a scene may
+   * replace itself to restart). Returns the new scene's world.
+   */
+  replace(scene: Scene, options: SceneTransitionOptions = {}): World {
+    const current = this.getTop()
+    if (!current) {
+      return this.push(scene, options)
+    }
+    this.assertNotInStack(scene, this.stack.slice(0, -1))
+
+    const world = this.createWorld()
+    const carried = this.carry(current, world, options)
+
+    this.stack.pop()
+    this.exit(current)
+    this.stack.push({ scene, world, paused: false, updating: true })
+    this.updateStates()
+    scene.onEnter?.(world, carried)
+    return world
+  }
+
+  /**
+   * Pauses a scene so its world stops updating
+   */
+  pause(name: string): void {
+    this.getEntry(name).paused = true
+    this.updateStates()
+  }
+
+  /**
+   * Resumes a paused scene
+   */
+  resume(name: string): void {
+    this.getEntry(name).paused = false
+    this.updateStates()
+  }
+
+  /**
+   * Checks whether a scene was paused with pause()
+   */
+  isPaused(name: string): boolean {
+    return this.getEntry(name).paused
+  }
+
+  /**
+   * Gets the top scene, or null when no scene is active
+   */
+  getActiveScene(): Scene | null {
+    return this.getTop()?.scene ?? null
+  }
+
+  /**
+   * Gets the scenes in the stack, from the bottom to the top
+   */
+  getScenes(): Scene[] {
+    return this.stack.map((entry) => entry.scene)
+  }
+
+  /**
+   * Gets the world of a scene in the stack, or null if it is not active
+   */
+  getWorld(name: string): World | null {
+    return this.stack.find((entry) => entry.scene.name === name)?.world ?? null
+  }
+
+  /**
+   * Gets the worlds that update this frame, from the bottom to the top
+   */
+  getUpdatingWorlds(): World[] {
+    return this.stack
+      .filter((entry) => entry.updating)
+      .map((entry) => entry.world)
+  }
+
+  /**
+   * Updates the worlds of all updating scenes (for use without an Engine)
+   */
+  update(deltaTime: number): void {
+    this.getUpdatingWorlds().forEach((world) => world.update(deltaTime))
+  }
+
+  /**
+   * Exits all scenes, from the top down
+   */
+  clear(): void {
+    while (this.stack.length > 0) {
+      this.exit(this.stack.pop()!)
+    }
+  }
+
+  /**
+   * Creates the world for a scene, seeded from the manager's random source
+   * so runs with a seeded engine stay deterministic
+   */
+  private createWorld(): World {
+    const world = new World({ seed: this.random.int(0, 0xffffffff) })
+    if (this.eventSystem) {
+      world.setEventSystem(this.eventSystem, {
+        componentUpdates: this.componentUpdateEvents,
+      })
+    }
+    return world
+  }
+
+  /**
+   * Moves the carried entities from the current scene into a new world
+   */
+  private carry(
+    from: SceneEntry | undefined,
+    world: World,
+    options: SceneTransitionOptions
+  ): Entity[] {
+    const carry = options.carry ?? []
+    if (carry.length === 0) {
+      return []
+    }
+    if (!from) {
+      throw new Error('Cannot carry entities: no scene is active')
+    }
+
+    const missing = carry.find((entityId) => !from.world.getEntity(entityId))
+    if (missing !== undefined) {
+      throw new Error(
+        `Cannot carry entity ${missing}: it is not in scene "${from.scene.name}"`
+      )
+    }
+    return carry.map((entityId) => from.world.transferEntity(entityId, world))
+  }
+
+  /**
+   * Calls the exit hook and clears the scene's world
+   */
+  private exit(entry: SceneEntry): void {
+    entry.scene.onExit?.(entry.world)
+    entry.world.clear()
+  }
+
+  /**
+   * Works out which scenes update and calls the pause and resume hooks for
+   * scenes whose state changed
+   */
+  private updateStates(): void {
+    const topIndex = this.stack.length - 1
+    this.stack.forEach((entry, index) => {
+      const updating =
+        !entry.paused && (index === topIndex || entry.scene.updateWhenCovered)
+      if (updating === entry.updating) {
+        return
+      }
+
+      entry.updating = updating
+      if (updating) {
+        entry.scene.onResume?.(entry.world)
+      } else {
+        entry.scene.onPause?.(entry.world)
+      }
+    })
+  }
+
+  /**
+   * Gets the top entry of the stack
+   */
+  private getTop(): SceneEntry | undefined {
+    return this.stack[this.stack.length - 1]
+  }
+
+  /**
+   * Gets the entry of an active scene by name
+   */
+  private getEntry(name: string): SceneEntry {
+    const entry = this.stack.find((candidate) => candidate.scene.name === name)
+    if (!entry) {
+      throw new Error(`Scene "${name}" is not active`)
+    }
+    return entry
+  }
+
+  /**
+   * Makes sure a scene (or another with the same name) is not in the stack
+   */
+  private assertNotInStack(scene: Scene, entries: SceneEntry[]): void {
+    if (entries.some((entry) => entry.scene.name === scene.name)) {
+      throw new Error(`Scene "${scene.name}" is already active`)
+    }
+  }
+}
@@ -0,0 +1,355 @@
+import type {
+  TimeSource,
+  SchedulerSnapshot,
+  TimerSnapshot,
+} from '../types/CoreTypes'
+
+export type TimerId = number
+
+export type TimerCallback<T = unknown> = (data: T) => void
+
+interface Timer {
+  id: TimerId
+  /** Function callback, or null when the timer calls a named handler */
+  callback: TimerCallback | null
+  handler: string | null
+  dueTime: number
+  interval: number | null
+  data: unknown
+}
+
+/**
+ * Runs callbacks after or every N milliseconds of game time. Timers are
+ * measured against a clock (the Engine uses its world's clock), so they
+ * follow the time scale and stand still while the game is paused.
+ *
+ * Timers that call a registered handler by name instead of a function can
+ * be saved in a snapshot and restored later.
+ */
+export class Scheduler {
+  private timers = new Map<TimerId, Timer>()
+  /** Scheduled timers by due time, plus cancelled ones not popped yet */
+  private queue = new TimerQueue()
+  /** Timers added during an update, queued when it finishes */
+  private added: Timer[] = []
+  private handlers = new Map<string, TimerCallback>()
+  private nextId: TimerId = 1
+  private updating: boolean = false
+
+  constructor(private clock: TimeSource) {}
+
+  /**
+   * Registers a named handler that timers can call. Only timers that call a
+   * handler are saved in snapshots.
+   */
+  registerHandler<T>(name: string, handler: TimerCallback<T>): void {
+    this.handlers.set(name, handler as TimerCallback)
+  }
+
+  /**
+   * Unregisters a named handler. Timers that call it are cancelled.
+   */
+  unregisterHandler(name: string): void {
+    this.handlers.delete(name)
+    this.timers.forEach((timer) => {
+      if (timer.handler === name) {
+        this.timers.delete(timer.id)
+      }
+    })
+    this.compactQueue()
+  }
+
+  /**
+   * Checks whether a named handler is registered
+   */
+  hasHandler(name: string): boolean {
+    return this.handlers.has(name)
+  }
+
+  /**
+   * Runs a callback or named handler once, delay milliseconds from now
+   */
+  after<T>(
+    delay: number,
+    callback: TimerCallback<T> | string,
+    data?: T
+  ): TimerId {
+    return this.addTimer(Math.max(0, delay), null, callback, data)
+  }
+
+  /**
+   * Runs a callback or named handler every interval milliseconds, starting
+   * one interval from now
+   */
+  every<T>(
+    interval: number,
+    callback: TimerCallback<T> | string,
+    data?: T
+  ): TimerId {
+    if (interval <= 0) {
+      throw new Error('Timer interval must be greater than 0')
+    }
+
+    return this.addTimer(interval, interval, callback, data)
+  }
+
+  /**
+   * Cancels a timer. Returns false if it already ran or was cancelled.
+   */
+  cancel(id: TimerId): boolean {
+    if (!this.timers.delete(id)) {
+      return false
+    }
+    this.compactQueue()
+    return true
+  }
+
+  /**
+   * Checks whether a timer is still scheduled
+   */
+  isScheduled(id: TimerId): boolean {
+    return this.timers.has(id)
+  }
+
+  /**
+   * Gets the time left until a timer next runs, or null if it is not
+   * scheduled
+   */
+  getRemaining(id: TimerId): number | null {
+    const timer = this.timers.get(id)
+    return timer ? Math.max(0, timer.dueTime - this.clock.now()) : null
+  }
+
+  /**
+   * Gets the number of scheduled timers
+   */
+  getTimerCount(): number {
+    return this.timers.size
+  }
+
+  /**
+   * Runs the timers that are due, in order of due time. A repeating timer
+   * runs once for every interval that passed. Timers scheduled during the
+   * update wait for the next one.
+   */
+  update(): void {
+    if (this.updating) {
+      return
+    }
+
+    const now = this.clock.now()
+    this.updating = true
+    try {
+      let timer = this.queue.peek()
+      while (timer && timer.dueTime <= now) {
+        this.queue.pop()
+        // Skip cancelled timers and timers replaced by a restore
+        if (this.timers.get(timer.id) === timer) {
+          if (timer.interval !== null) {
+            timer.dueTime += timer.interval
+            this.queue.push(timer)
+          } else {
+            this.timers.delete(timer.id)
+          }
+          const callback = timer.callback ?? this.handlers.get(timer.handler!)!
+          callback(timer.data)
+        }
+        timer = this.queue.peek()
+      }
+    } finally {
+      this.updating = false
+      this.added.forEach((timer) => this.queue.push(timer))
+      this.added = []
+    }
+  }
+
+  /**
+   * Cancels all timers. Registered handlers are kept.
+   */
+  clear(): void {
+    this.timers.clear()
+    this.queue = new TimerQueue()
+    this.added = []
+  }
+
+  /**
+   * Creates a snapshot of the timers that call named handlers. Timers with
+   * function callbacks are left out.
+   */
+  snapshot(): SchedulerSnapshot {
+    const timers: TimerSnapshot[] = []
+    this.timers.forEach((timer) => {
+      if (timer.handler !== null) {
+        timers.push({
+          id: timer.id,
+          handler: timer.handler,
+          dueTime: timer.dueTime,
+          interval: timer.interval,
+          data: copyData(timer.data),
+        })
+      }
+    })
+
+    return { nextId: this.nextId, timers }
+  }
+
+  /**
+   * Replaces all timers with the ones stored in a snapshot. Every handler
+   * the snapshot's timers call must be registered.
+   */
+  restore(snapshot: SchedulerSnapshot): void {
+    snapshot.timers.forEach((timer) => {
+      if (!this.handlers.has(timer.handler)) {
+        throw new Error(
+          `Cannot restore timer ${timer.id}: handler "${timer.handler}" is not registered`
+        )
+      }
+    })
+
+    this.clear()
+    snapshot.timers.forEach((timer) => {
+      this.schedule({
+        id: timer.id,
+        callback: null,
+        handler: timer.handler,
+        dueTime: timer.dueTime,
+        interval: timer.interval,
+        data: copyData(timer.data),
+      })
+    })
+    this.nextId = snapshot.nextId
+  }
+
+  /**
+   * Adds a timer that first runs delay milliseconds from now
+   */
+  private addTimer(
+    delay: number,
+    interval: number | null,
+    callback: TimerCallback<never> | string,
+    data: unknown
+  ): TimerId {
+    if (typeof callback === 'string' && !this.handlers.has(callback)) {
+      throw new Error(`Timer handler "${callback}" is not registered`)
+    }
+
+    const id = this.nextId++
+    this.schedule({
+      id,
+      callback:
+        typeof callback === 'string' ? null : (callback as TimerCallback),
+      handler: typeof callback === 'string' ? callback : null,
+      dueTime: this.clock.now() + delay,
+      interval,
+      data,
+    })
+    return id
+  }
+
+  /**
+   * Adds a timer to the map and the queue. Timers added by callbacks wait
+   * for the next update.
+   */
+  private schedule(timer: Timer): void {
+    this.timers.set(timer.id, timer)
+    if (this.updating) {
+      this.added.push(timer)
+    } else {
+      this.queue.push(timer)
+    }
+  }
+
+  /**
+   * Rebuilds the queue once cancelled timers make up most of it
+   */
+  private compactQueue(): void {
+    if (this.updating || this.queue.size <= this.timers.size * 2 + 16) {
+      return
+    }
+    this.queue = new TimerQueue()
+    this.timers.forEach((timer) => this.queue.push(timer))
+  }
+}
+
+/**
+ * Binary min-heap of timers ordered by due time, then by ID so timers due
+ * at the same time run in the order they were created
+ */
+class TimerQueue {
+  private heap: Timer[] = []
+
+  /**
+   * Gets the number of queued timers
+   */
+  get size(): number {
+    return this.heap.length
+  }
+
+  /**
+   * Gets the timer that runs first without removing it
+   */
+  peek(): Timer | undefined {
+    return this.heap[0]
+  }
+
+  /**
+   * Adds a timer
+   */
+  push(timer: Timer): void {
+    const heap = this.heap
+    let index = heap.push(timer) - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!runsBefore(heap[index], heap[parent])) {
+        break
+      }
+      ;[heap[index], heap[parent]] = [heap[parent], heap[index]]
+      index = parent
+    }
+  }
+
+  /**
+   * Removes and returns the timer that runs first
+   */
+  pop(): Timer | undefined {
+    const heap = this.heap
+    const first = heap[0]
+    const last = heap.pop()
+    if (heap.length > 0 && last) {
+      heap[0] = last
+      let index = 0
+      for (;;) {
+        const left = index * 2 + 1
+        const right = left + 1
+        let smallest = index
+        if (left < heap.length && runsBefore(heap[left], heap[smallest])) {
+          smallest = left
+        }
+        if (right < heap.length && runsBefore(heap[right], heap[smallest])) {
+          smallest = right
+        }
+        if (smallest === index) {
+          break
+        }
+        ;[heap[index], heap[smallest]] = [heap[smallest], heap[index]]
+        index = smallest
+      }
+    }
+    return first
+  }
+}
+
+/**
+ * Checks if a timer runs before another one
+ */
+function runsBefore(a: Timer, b: Timer): boolean {
+  return a.dueTime < b.dueTime || (a.dueTime === b.dueTime && a.id < b.id)
+}
+
+/**
+ * Deep copies timer data so snapshots never share objects with live timers.
+ * Data of timers that call named handlers must be JSON serializable.
+ */
+function copyData(data: unknown): unknown {
+  return data === undefined ? undefined : JSON.parse(JSON.stringify(data))
+}
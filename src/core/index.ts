@@ -1,6 +1,19 @@
 export * from './ECS'
 export { EventSystem } from './EventSystem'
-export { Engine, createEngine } from './Engine'
+export { Clock, realtimeClock } from './Clock'
+export {
+  Scene,
+  SceneManager,
+  type SceneTransitionOptions,
+  type SceneManagerOptions,
+} from './SceneManager'
+export { Scheduler, type TimerId, type TimerCallback } from './Scheduler'
+export {
+  type Plugin,
+  type PluginContext,
+  type PluginComponentClass,
+} from './Plugin'
+export { Engine, createEngine, type RunOptions, type RunResult } from './Engine'
 export {
   PerformanceMonitor,
   globalPerformanceMonitor,
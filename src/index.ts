@@ -10,13 +10,41 @@ export {
   Component,
   ComponentRegistry,
   Entity,
+  createEntityHandle,
+  getHandleId,
+  getHandleGeneration,
+  Query,
+  type QueryRow,
+  type ComponentOf,
+  CommandBuffer,
+  type PendingEntity,
+  PrefabRegistry,
+  encodeSnapshot,
+  decodeSnapshot,
+  type BinarySnapshotOptions,
+  type FloatEncoding,
   System,
   SystemRegistry,
+  SYSTEM_PHASES,
   World,
   // Core exports
   EventSystem,
+  Clock,
+  realtimeClock,
+  Scene,
+  SceneManager,
+  type SceneTransitionOptions,
+  type SceneManagerOptions,
+  Scheduler,
+  type TimerId,
+  type TimerCallback,
+  type Plugin,
+  type PluginContext,
+  type PluginComponentClass,
   Engine,
   createEngine,
+  type RunOptions,
+  type RunResult,
 } from './core'
 
 // Game systems
@@ -33,8 +61,31 @@ export {
   CollectionSystem,
   SimpleCollectionSystem,
   DifficultySystem,
+  TransformPropagationSystem,
+  InputSystem,
+  TweenSystem,
 } from './systems'
 
+// Plugins packaging the built-in systems
+export {
+  CORE_PLUGIN,
+  INPUT_PLUGIN,
+  TWEEN_PLUGIN,
+  COMBAT_PLUGIN,
+  PROGRESSION_PLUGIN,
+  ECONOMY_PLUGIN,
+  SKILLS_PLUGIN,
+  AI_PLUGIN,
+  SPAWNING_PLUGIN,
+  ENEMIES_PLUGIN,
+  COLLECTION_PLUGIN,
+  DIFFICULTY_PLUGIN,
+  BUILTIN_PLUGINS,
+  type SkillsPluginConfig,
+  type AIPluginConfig,
+  type SpawningPluginConfig,
+} from './plugins'
+
 // Components
 export {
   TransformComponent,
@@ -66,6 +117,11 @@ export {
   MagnetComponent,
   MagnetTargetType,
   DifficultyComponent,
+  HierarchyComponent,
+  PlayerControllerComponent,
+  TweenComponent,
+  BUILTIN_COMPONENTS,
+  registerBuiltinComponents,
 } from './components'
 
 // Utilities
@@ -73,6 +129,9 @@ export {
   Vector2Math,
   CollisionDetection,
   MathUtils,
+  Easing,
+  Random,
+  unseededRandom,
   ObjectPool,
   PoolManager,
   SpatialHashGrid,
@@ -101,10 +160,20 @@ export {
   createCustomWave,
 } from './config/EnemyConfig'
 
+export {
+  ENEMY_PREFAB,
+  BOSS_PREFAB,
+  PICKUP_PREFAB,
+  PROJECTILE_PREFAB,
+  DEFAULT_PREFABS,
+  registerDefaultPrefabs,
+} from './config/PrefabConfig'
+
 // Type definitions
 export type {
   // Core types
   EntityId,
+  EntityHandle,
   ComponentType,
   SystemName,
   Component as IComponent,
@@ -113,23 +182,56 @@ export type {
   EntitySnapshot,
   SystemSnapshot,
   WorldSnapshot,
+  TimerSnapshot,
+  SchedulerSnapshot,
   EntityQuery,
+  QueryDescriptor,
+  ComponentTypeMap,
+  ComponentTemplate,
+  Prefab,
+  PrefabOverrides,
   SystemUpdateContext,
+  SystemPhase,
+  TimeSource,
+  RandomSource,
   System as ISystem,
   SystemConstructor,
   // Event types
   GameEvent,
   EventListener,
+  DispatchedEvent,
+  ListenerOptions,
   EventSubscription,
   EventFilter,
   EventHistory,
+  EventRecording,
+  ReplayOptions,
   EntityCreatedEventData,
   EntityDestroyedEventData,
+  EntityActivationEventData,
   ComponentEventData,
+  SystemEventData,
+  EventMap,
+  EventData,
+  EventOf,
+  GameStateEventData,
   DamageEventData,
+  EntityKilledEventData,
+  HealthRestoredEventData,
   PositionChangedEventData,
+  VelocityChangedEventData,
+  CollisionEventData,
   ExperienceGainedEventData,
   LevelUpEventData,
+  SkillUnlockedEventData,
+  ItemCollectedEventData,
+  ResourceGainedEventData,
+  ResourceTransferredEventData,
+  ItemPurchasedEventData,
+  EnemySpawnedEventData,
+  TweenCompletedEventData,
+  PerformanceWarningEventData,
+  QualityAdjustedEventData,
   // Game types
   Vector2,
   Rectangle,
@@ -138,6 +240,9 @@ export type {
   EngineConfig,
   GameConfig,
   InputState,
+  InputCommand,
+  RecordedInput,
+  InputRecording,
   UpdateCallback,
   RenderCallback,
   // Component types
@@ -159,7 +264,14 @@ export type {
 export { GameEventType } from './types'
 
 // Export additional types from systems and components
-export type { AISystemConfig, SpawnSystemConfig } from './systems'
+export type {
+  AISystemConfig,
+  SpawnSystemConfig,
+  InputSystemConfig,
+  TweenToOptions,
+} from './systems'
+
+export type { EasingName, EasingFunction } from './utils'
 
 export type {
   StateTransition,
@@ -169,6 +281,10 @@ export type {
   EnemyType,
   SpawnWave,
   BossPhase,
+  Tween,
+  TweenStep,
+  TweenValue,
+  TweenOptions,
 } from './components'
 
 // Version
@@ -0,0 +1,213 @@
+import type { Plugin, PluginComponentClass } from '../core/Plugin'
+import type { ComponentType } from '../types/CoreTypes'
+import { BUILTIN_COMPONENTS } from '../components/BuiltinComponents'
+import {
+  SpatialHashGrid,
+  type SpatialPartitionConfig,
+} from '../utils/SpatialPartitioning'
+import { MovementSystem } from '../systems/MovementSystem'
+import { TransformPropagationSystem } from '../systems/TransformPropagationSystem'
+import { CombatSystem } from '../systems/CombatSystem'
+import { ProgressionSystem } from '../systems/ProgressionSystem'
+import { EconomySystem } from '../systems/EconomySystem'
+import { SkillSystem, type SkillSystemConfig } from '../systems/SkillSystem'
+import { AISystem, type AISystemConfig } from '../systems/AISystem'
+import { SpawnSystem, type SpawnSystemConfig } from '../systems/SpawnSystem'
+import { EnemySystem, type EnemySystemConfig } from '../systems/EnemySystem'
+import { CollectionSystem } from '../systems/CollectionSystem'
+import { DifficultySystem } from '../systems/DifficultySystem'
+import { InputSystem, type InputSystemConfig } from '../systems/InputSystem'
+import { TweenSystem } from '../systems/TweenSystem'
+
+/**
+ * Picks built-in component classes by type
+ */
+function builtinComponents(
+  ...types: ComponentType[]
+): Record<ComponentType, PluginComponentClass> {
+  const components: Record<ComponentType, PluginComponentClass> = {}
+  types.forEach((type) => {
+    components[type] = BUILTIN_COMPONENTS[type]
+  })
+  return components
+}
+
+const DEFAULT_SPATIAL_GRID: SpatialPartitionConfig = {
+  cellSize: 100,
+  worldBounds: { minX: -5000, minY: -5000, maxX: 5000, maxY: 5000 },
+}
+
+/**
+ * Transforms, hierarchy and movement
+ */
+export const CORE_PLUGIN: Plugin = {
+  name: 'core',
+  components: builtinComponents('transform', 'hierarchy', 'movement'),
+  systems: ({ world, events }) => [
+    new MovementSystem(events),
+    new TransformPropagationSystem(world),
+  ],
+}
+
+/**
+ * Player input, controllers and input recording
+ */
+export const INPUT_PLUGIN: Plugin<Partial<InputSystemConfig>> = {
+  name: 'input',
+  dependencies: ['core'],
+  components: builtinComponents('playerController'),
+  systems: ({ world, config }) => [new InputSystem(world, config)],
+}
+
+/**
+ * Tweening of component properties
+ */
+export const TWEEN_PLUGIN: Plugin = {
+  name: 'tween',
+  components: builtinComponents('tween'),
+  systems: ({ world, events }) => [new TweenSystem(world, events)],
+}
+
+/**
+ * Health, weapons and damage
+ */
+export const COMBAT_PLUGIN: Plugin = {
+  name: 'combat',
+  dependencies: ['core'],
+  components: builtinComponents('health', 'combat'),
+  systems: ({ world, events }) => [new CombatSystem(events, world)],
+}
+
+/**
+ * Experience and levelling from kills
+ */
+export const PROGRESSION_PLUGIN: Plugin = {
+  name: 'progression',
+  dependencies: ['combat'],
+  components: builtinComponents('experience'),
+  systems: ({ world, events }) => [new ProgressionSystem(events, world)],
+}
+
+/**
+ * Inventories, resource drops and the shop
+ */
+export const ECONOMY_PLUGIN: Plugin = {
+  name: 'economy',
+  dependencies: ['combat'],
+  components: builtinComponents('inventory'),
+  systems: ({ world, events }) => [new EconomySystem(events, world)],
+}
+
+export type SkillsPluginConfig = Omit<SkillSystemConfig, 'eventSystem'>
+
+/**
+ * Skill effects, cooldowns and evolution
+ */
+export const SKILLS_PLUGIN: Plugin<SkillsPluginConfig> = {
+  name: 'skills',
+  dependencies: ['progression'],
+  components: builtinComponents('skills'),
+  defaults: {
+    baseEffectRadius: 100,
+    baseProjectileSpeed: 500,
+    evolutionCheckInterval: 5000,
+    maxActiveEffects: 50,
+  },
+  systems: ({ world, events, config }) => [
+    new SkillSystem(world, { ...config, eventSystem: events }),
+  ],
+}
+
+export interface AIPluginConfig extends Partial<AISystemConfig> {
+  spatialGrid: SpatialPartitionConfig
+}
+
+/**
+ * AI behaviours and pathfinding
+ */
+export const AI_PLUGIN: Plugin<AIPluginConfig> = {
+  name: 'ai',
+  dependencies: ['core'],
+  components: builtinComponents('ai', 'enemyAI'),
+  defaults: { spatialGrid: DEFAULT_SPATIAL_GRID },
+  systems: ({ world, events, config }) => {
+    const { spatialGrid, ...aiConfig } = config
+    return [
+      new AISystem(new SpatialHashGrid(spatialGrid), aiConfig, events, world),
+    ]
+  },
+}
+
+export interface SpawningPluginConfig extends Partial<SpawnSystemConfig> {
+  spatialGrid: SpatialPartitionConfig
+}
+
+/**
+ * Spawners, waves and bosses
+ */
+export const SPAWNING_PLUGIN: Plugin<SpawningPluginConfig> = {
+  name: 'spawning',
+  dependencies: ['ai', 'combat'],
+  components: builtinComponents('spawner'),
+  defaults: { spatialGrid: DEFAULT_SPATIAL_GRID },
+  systems: ({ world, events, config }) => {
+    const { spatialGrid, ...spawnConfig } = config
+    return [
+      new SpawnSystem(
+        new SpatialHashGrid(spatialGrid),
+        spawnConfig,
+        events,
+        world
+      ),
+    ]
+  },
+}
+
+/**
+ * Enemy AI updates and spawner bookkeeping
+ */
+export const ENEMIES_PLUGIN: Plugin<Partial<EnemySystemConfig>> = {
+  name: 'enemies',
+  dependencies: ['ai', 'combat'],
+  systems: ({ world, events, config }) => [
+    new EnemySystem(events, world, config),
+  ],
+}
+
+/**
+ * Pickups and magnets
+ */
+export const COLLECTION_PLUGIN: Plugin = {
+  name: 'collection',
+  dependencies: ['economy', 'progression'],
+  components: builtinComponents('collectible', 'magnet'),
+  systems: ({ world, events }) => [new CollectionSystem(events, world)],
+}
+
+/**
+ * Adaptive difficulty
+ */
+export const DIFFICULTY_PLUGIN: Plugin = {
+  name: 'difficulty',
+  dependencies: ['combat'],
+  components: builtinComponents('difficulty'),
+  systems: ({ world, events }) => [new DifficultySystem(world, events)],
+}
+
+/**
+ * Every built-in plugin, in an order that satisfies their dependencies
+ */
+export const BUILTIN_PLUGINS: readonly Plugin<object>[] = [
+  CORE_PLUGIN,
+  INPUT_PLUGIN,
+  TWEEN_PLUGIN,
+  COMBAT_PLUGIN,
+  PROGRESSION_PLUGIN,
+  ECONOMY_PLUGIN,
+  SKILLS_PLUGIN,
+  AI_PLUGIN,
+  SPAWNING_PLUGIN,
+  ENEMIES_PLUGIN,
+  COLLECTION_PLUGIN,
+  DIFFICULTY_PLUGIN,
+]
@@ -0,0 +1,18 @@
+export {
+  CORE_PLUGIN,
+  INPUT_PLUGIN,
+  TWEEN_PLUGIN,
+  COMBAT_PLUGIN,
+  PROGRESSION_PLUGIN,
+  ECONOMY_PLUGIN,
+  SKILLS_PLUGIN,
+  AI_PLUGIN,
+  SPAWNING_PLUGIN,
+  ENEMIES_PLUGIN,
+  COLLECTION_PLUGIN,
+  DIFFICULTY_PLUGIN,
+  BUILTIN_PLUGINS,
+  type SkillsPluginConfig,
+  type AIPluginConfig,
+  type SpawningPluginConfig,
+} from './BuiltinPlugins'
@@ -1,9 +1,13 @@
 import { System } from '../core/ECS/System'
+import type { World } from '../core/ECS/World'
+import type { Entity } from '../core/ECS/Entity'
 import type {
   EntityQuery,
   SystemUpdateContext,
   ComponentType,
-  EntityId,
+  SystemPhase,
+  SystemName,
+  EntityHandle,
 } from '../types/CoreTypes'
 import type { AIComponent } from '../components/AI'
 import { AIState, AIPersonality, type AIContext } from '../components/AI'
@@ -13,6 +17,7 @@ import type { HealthComponent } from '../components/Health'
 import type { CombatComponent } from '../components/Combat'
 import { Vector2Math, type Vector2 } from '../utils/Math'
 import type { SpatialHashGrid } from '../utils/SpatialPartitioning'
+import type { CombatSystem } from './CombatSystem'
 import { GameEventType } from '../types/Events'
 
 /**
@@ -66,6 +71,15 @@ type AIEntityQuery = EntityQuery & {
   }
 }
 
+/**
+ * World access the AI system needs
+ */
+type AIWorld = Pick<
+  World,
+  'getEntity' | 'getEntitiesWithComponents' | 'getByName' | 'getTagged'
+> &
+  Partial<Pick<World, 'isAlive' | 'getSystem'>>
+
 /**
  * AI system configuration
  */
@@ -85,15 +99,13 @@ export interface AISystemConfig {
 export class AISystem extends System {
   readonly name = 'ai'
   readonly requiredComponents: ComponentType[] = ['ai', 'transform', 'movement']
+  readonly runBefore: SystemName[] = ['movement']
+  readonly phase: SystemPhase = 'preUpdate'
 
   private config: AISystemConfig
   private spatialGrid: SpatialHashGrid
   private eventSystem?: { emit: (eventType: string, data: unknown) => void }
-  private world?: {
-    getEntity: (id: EntityId) => unknown
-    getEntitiesWithComponents: (components: string[]) => unknown[]
-    getSystem?: (name: string) => any
-  }
+  private world?: AIWorld
 
   // Pathfinding cache
   private flowFields: Map<string, FlowFieldCell[][]> = new Map()
@@ -109,18 +121,14 @@ export class AISystem extends System {
   private maxAIUpdatesPerFrame: number = 50
 
   // Player tracking
-  private playerEntityId: EntityId | null = null
+  private playerHandle: EntityHandle | null = null
   private playerPosition: Vector2 | null = null
 
   constructor(
     spatialGrid: SpatialHashGrid,
     config: Partial<AISystemConfig> = {},
     eventSystem?: { emit: (eventType: string, data: unknown) => void },
-    world?: {
-      getEntity: (id: EntityId) => unknown
-      getEntitiesWithComponents: (components: string[]) => unknown[]
-      getSystem?: (name: string) => any
-    }
+    world?: AIWorld
   ) {
     super()
     this.spatialGrid = spatialGrid
@@ -207,6 +215,15 @@ export class AISystem extends System {
     const movement = entity.components.movement
     const health = (entity as any).getComponent?.('health') as HealthComponent
 
+    // Drop targets that were destroyed, even if their ID has been recycled
+    if (
+      ai.targetId &&
+      this.world?.isAlive &&
+      !this.world.isAlive(ai.targetId)
+    ) {
+      ai.setTarget(null)
+    }
+
     // Build AI context
     const aiContext = this.buildAIContext(entity, currentTime)
 
@@ -262,14 +279,14 @@ export class AISystem extends System {
 
     const nearbyEntities = nearbyEntityIds
       .map((id) => this.world?.getEntity(id))
-      .filter((e) => e != null)
+      .filter((e): e is Entity => e != null)
 
     let nearbyAllies = 0
     let nearbyEnemies = 0
     let targetVisible = false
     let distanceToTarget = Infinity
 
-    nearbyEntities.forEach((nearbyEntity: any) => {
+    nearbyEntities.forEach((nearbyEntity) => {
       if (nearbyEntity.id === entity.id) return
 
       const hasAI = nearbyEntity.hasComponent('ai')
@@ -277,7 +294,7 @@ export class AISystem extends System {
 
       if (isEnemy) {
         nearbyEnemies++
-        if (nearbyEntity.id === ai.targetId) {
+        if (nearbyEntity.handle === ai.targetId) {
           const targetTransform = nearbyEntity.getComponent(
             'transform'
           ) as TransformComponent
@@ -378,8 +395,8 @@ export class AISystem extends System {
     movement.setVelocity(0, 0)
 
     // Look for targets periodically
-    if (context.nearbyEnemies > 0 && this.playerEntityId) {
-      ai.setTarget(this.playerEntityId, this.playerPosition || undefined)
+    if (context.nearbyEnemies > 0 && this.playerHandle) {
+      ai.setTarget(this.playerHandle, this.playerPosition || undefined)
     }
   }
 
@@ -456,9 +473,13 @@ export class AISystem extends System {
 
     // Perform attack
     if (this.world) {
-      const combatSystem = this.world.getSystem?.('combat')
-      if (combatSystem?.triggerAttack) {
-        combatSystem.triggerAttack(entity, ai.targetId)
+      const combatSystem = this.world.getSystem?.<CombatSystem>('combat')
+      if (combatSystem) {
+        const attacker = {
+          ...entity,
+          components: { ...entity.components, combat },
+        }
+        combatSystem.triggerAttack(attacker, ai.targetId)
         ai.lastAttackTime = currentTime
       }
     }
@@ -669,7 +690,7 @@ export class AISystem extends System {
   private calculatePath(entity: AIEntityQuery, target: Vector2): void {
     const ai = entity.components.ai
     const transform = entity.components.transform
-    const currentTime = Date.now()
+    const currentTime = this.clock.now()
 
     // Check cache first
     const cacheKey = `${Math.floor(transform.position.x / 50)},${Math.floor(transform.position.y / 50)}-${Math.floor(target.x / 50)},${Math.floor(target.y / 50)}`
@@ -1214,20 +1235,17 @@ export class AISystem extends System {
   }
 
   /**
-   * Updates player reference
+   * Updates player reference. Looks up the entity named or tagged 'player'.
    */
   private updatePlayerReference(): void {
     if (!this.world) return
 
-    const entities = this.world.getEntitiesWithComponents([
-      'transform',
-      'health',
-    ])
-    const player = entities.find((e: any) => !e.hasComponent('ai')) as any
+    const player =
+      this.world.getByName('player') ?? this.world.getTagged('player')[0]
 
-    if (player) {
-      this.playerEntityId = player.id
-      const transform = player.getComponent('transform') as TransformComponent
+    const transform = player?.getComponent<TransformComponent>('transform')
+    if (player && transform) {
+      this.playerHandle = player.handle
       this.playerPosition = { ...transform.position }
     }
   }
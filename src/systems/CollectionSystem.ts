@@ -1,13 +1,20 @@
 import { System } from '../core/ECS/System'
 import type {
   ComponentType,
+  SystemName,
   EntityId,
+  EntityQuery,
   SystemUpdateContext,
 } from '../types/CoreTypes'
-import { CollectibleComponent, CollectibleType, CollectionBehavior, CollectibleRarity } from '../components/Collectible'
+import {
+  type CollectibleComponent,
+  CollectibleType,
+  CollectionBehavior,
+  CollectibleRarity,
+} from '../components/Collectible'
 import { MagnetComponent, MagnetTrigger } from '../components/Magnet'
 import { TransformComponent } from '../components/Transform'
-import { MovementComponent } from '../components/Movement'
+import type { MovementComponent } from '../components/Movement'
 import { HealthComponent } from '../components/Health'
 import { ExperienceComponent } from '../components/Experience'
 import { InventoryComponent } from '../components/Inventory'
@@ -20,6 +27,7 @@ import {
 } from '../utils/SpatialPartitioning'
 import type { Entity } from '../core/ECS/Entity'
 import type { World } from '../core/ECS/World'
+import { PICKUP_PREFAB, registerDefaultPrefabs } from '../config/PrefabConfig'
 
 interface CollectionPriority {
   entityId: EntityId
@@ -38,27 +46,34 @@ interface CollectionChain {
 export class CollectionSystem extends System {
   readonly name = 'collection'
   readonly requiredComponents: ComponentType[] = ['transform']
+  readonly runAfter: SystemName[] = ['movement']
 
   private world: World
   private eventSystem?: any
   private spatialGrid: SpatialHashGrid
-  
+
   // Performance optimization
-  private collectibleCache: Map<EntityId, {
-    entity: Entity
-    collectible: CollectibleComponent
-    transform: TransformComponent
-    movement?: MovementComponent
-    lastUpdate: number
-  }> = new Map()
-  
-  private magnetCache: Map<EntityId, {
-    entity: Entity
-    magnet: MagnetComponent
-    transform: TransformComponent
-    lastUpdate: number
-  }> = new Map()
-  
+  private collectibleCache: Map<
+    EntityId,
+    {
+      entity: Entity
+      collectible: CollectibleComponent
+      transform: TransformComponent
+      movement?: MovementComponent
+      lastUpdate: number
+    }
+  > = new Map()
+
+  private magnetCache: Map<
+    EntityId,
+    {
+      entity: Entity
+      magnet: MagnetComponent
+      transform: TransformComponent
+      lastUpdate: number
+    }
+  > = new Map()
+
   // Collection chains
   private activeChains: Map<string, CollectionChain> = new Map()
   
@@ -75,6 +90,7 @@ export class CollectionSystem extends System {
     super()
     this.eventSystem = eventSystem
     this.world = world!
+    registerDefaultPrefabs()
     
     // Initialize spatial grid for efficient proximity queries
     this.spatialGrid = new SpatialHashGrid({
@@ -97,7 +113,7 @@ export class CollectionSystem extends System {
 
   public update(context: SystemUpdateContext, entities: any[]): void {
     const deltaTime = context.deltaTime
-    const currentTime = context.timestamp || Date.now()
+    const currentTime = context.timestamp || this.clock.now()
     
     // Update caches
     this.updateCaches(entities, currentTime)
@@ -121,36 +137,61 @@ export class CollectionSystem extends System {
   /**
    * Updates entity caches for performance
    */
-  private updateCaches(entities: Entity[], currentTime: number): void {
+  private updateCaches(
+    entities: (Entity | EntityQuery)[],
+    currentTime: number
+  ): void {
     // Clear old cache entries
     this.collectibleCache.clear()
     this.magnetCache.clear()
-    
+
     // Update caches with current entities
-    for (const entity of entities) {
-      if (entity.hasComponent && entity.hasComponent('collectible') && entity.hasComponent('transform')) {
-        const collectible = entity.getComponent('collectible') as CollectibleComponent
+    for (const item of entities) {
+      // The world passes entity queries, so look up the entities themselves
+      const entity =
+        'hasComponent' in item ? item : this.world.getEntity(item.id)
+      if (!entity) continue
+
+      if (
+        entity.hasComponent &&
+        entity.hasComponent('collectible') &&
+        entity.hasComponent('transform')
+      ) {
+        const collectible = entity.getComponent(
+          'collectible'
+        ) as CollectibleComponent
         const transform = entity.getComponent('transform') as TransformComponent
-        const movement = entity.getComponent('movement') as MovementComponent | undefined
-        
+        const movement = entity.getComponent('movement') as
+          | MovementComponent
+          | undefined
+
+        // Lifetimes run on game time, from when the collectible is first seen
+        if (collectible.spawnTime === null) {
+          collectible.spawnTime = currentTime
+        }
+
         this.collectibleCache.set(entity.id, {
           entity,
           collectible,
           transform,
           movement,
-          lastUpdate: currentTime
+          lastUpdate: currentTime,
         })
       }
-      
-      if (entity.hasComponent && entity.hasComponent('magnet') && entity.hasComponent('transform')) {
+
+      if (
+        entity.hasComponent &&
+        entity.hasComponent('magnet') &&
+        entity.hasComponent('transform')
+      ) {
         const magnet = entity.getComponent('magnet') as MagnetComponent
         const transform = entity.getComponent('transform') as TransformComponent
-        
+
         this.magnetCache.set(entity.id, {
           entity,
           magnet,
           transform,
-          lastUpdate: currentTime
+          lastUpdate: currentTime,
         })
       }
     }
@@ -187,7 +228,7 @@ export class CollectionSystem extends System {
    * Processes magnetism and attraction
    */
   private processMagnetism(deltaTime: number, currentTime: number): void {
-    for (const [magnetId, magnetData] of this.magnetCache) {
+    for (const magnetData of this.magnetCache.values()) {
       const { magnet, transform: magnetTransform } = magnetData
       
       // Check if magnet should update
@@ -202,6 +243,9 @@ export class CollectionSystem extends System {
       
       // Update temporary bonuses
       magnet.updateTemporaryBonuses(currentTime)
+
+      // Forget items that were destroyed since the last update
+      magnet.pruneAttractedItems((handle) => this.world.isAlive(handle))
       
       // Get nearby collectibles
       const nearbyCollectibles = this.getNearbyCollectibles(
@@ -268,8 +312,11 @@ export class CollectionSystem extends System {
           
           // Mark as being attracted
           if (!collectible.isBeingAttracted) {
-            collectible.startAttraction(magnetId, currentTime)
-            magnet.startAttractingItem(collectibleId, currentTime)
+            collectible.startAttraction(magnetData.entity.handle, currentTime)
+            magnet.startAttractingItem(
+              collectibleData.entity.handle,
+              currentTime
+            )
           }
         }
         
@@ -463,6 +510,7 @@ export class CollectionSystem extends System {
   ): void {
     const collectibleComponent = collectible.getComponent('collectible') as CollectibleComponent
     const collectibleTransform = collectible.getComponent('transform') as TransformComponent
+    const collectibleHandle = collectible.handle
     
     if (!collectibleComponent || !collectibleTransform) {
       return
@@ -495,15 +543,14 @@ export class CollectionSystem extends System {
     
     // Remove collectible if it should despawn
     if (collectibleComponent.despawnOnCollect) {
-      if (this.world?.removeEntity) {
-        this.world.removeEntity(collectible.id)
-      }
+      this.world?.commands.destroyEntity(collectible.id)
       this.collectibleCache.delete(collectible.id)
     }
     
     // Update magnet stats if collector has magnet
     const magnet = collector.getComponent('magnet') as MagnetComponent | undefined
     if (magnet && collectibleComponent.isBeingAttracted) {
+      magnet.stopAttractingItem(collectibleHandle)
       const attractionTime = currentTime - collectibleComponent.attractionStartTime
       magnet.recordItemCollection(
         collectibleComponent.value,
@@ -614,9 +661,7 @@ export class CollectionSystem extends System {
     
     // Remove expired collectibles
     for (const id of toRemove) {
-      if (this.world?.removeEntity) {
-        this.world.removeEntity(id)
-      }
+      this.world?.commands.destroyEntity(id)
       this.collectibleCache.delete(id)
       
       // Emit expiration event
@@ -636,7 +681,7 @@ export class CollectionSystem extends System {
       chain = {
         collected: 0,
         total: 0,
-        lastCollectionTime: Date.now(),
+        lastCollectionTime: this.clock.now(),
         bonusMultiplier: 0
       }
       this.activeChains.set(chainId, chain)
@@ -644,7 +689,7 @@ export class CollectionSystem extends System {
     
     chain.collected++
     chain.bonusMultiplier += bonusMultiplier
-    chain.lastCollectionTime = Date.now()
+    chain.lastCollectionTime = this.clock.now()
     
     // Check if chain is complete
     if (chain.total > 0 && chain.collected >= chain.total) {
@@ -665,7 +710,7 @@ export class CollectionSystem extends System {
         chainId,
         itemsCollected: chain.collected,
         totalBonus: chain.bonusMultiplier,
-        timestamp: Date.now()
+        timestamp: this.clock.now(),
       })
     }
     
@@ -746,32 +791,23 @@ export class CollectionSystem extends System {
     tags: string[],
     expirationTimeMs?: number
   ): EntityId {
-    if (this.world?.createEntity) {
-      const entity = this.world.createEntity()
-      
-      // Add transform component
-      const transform = new TransformComponent()
-      transform.position = { ...position }
-      entity.addComponent(transform)
-      
-      // Add collectible component
-      const collectible = new CollectibleComponent(
-        type as CollectibleType,
+    if (this.world?.instantiate) {
+      const collectible: Record<string, unknown> = {
+        collectibleType: type,
+        rarity,
         value,
-        rarity as CollectibleRarity
-      )
-      
+        spawnTime: this.clock.now(),
+        // Add tags to metadata
+        metadata: { tags },
+      }
       if (expirationTimeMs) {
         collectible.lifetime = expirationTimeMs
       }
-      
-      // Add tags to metadata
-      collectible.metadata.tags = tags
-      
-      entity.addComponent(collectible)
-      
-      // Add movement component for magnetism
-      entity.addComponent(new MovementComponent())
+
+      const entity = this.world.instantiate(PICKUP_PREFAB.name, {
+        transform: { position: { ...position } },
+        collectible,
+      })
       
       return entity.id
     }
@@ -818,7 +854,7 @@ export class CollectionSystem extends System {
   triggerMagnetActivation(
     entityId: EntityId,
     trigger: MagnetTrigger,
-    currentTime: number = Date.now()
+    currentTime: number = this.clock.now()
   ): void {
     const magnetData = this.magnetCache.get(entityId)
     if (magnetData) {
@@ -829,7 +865,10 @@ export class CollectionSystem extends System {
   /**
    * Manually activates a magnet
    */
-  activateMagnet(entityId: EntityId, currentTime: number = Date.now()): boolean {
+  activateMagnet(
+    entityId: EntityId,
+    currentTime: number = this.clock.now()
+  ): boolean {
     const magnetData = this.magnetCache.get(entityId)
     if (magnetData) {
       return magnetData.magnet.activate(currentTime)
@@ -846,7 +885,7 @@ export class CollectionSystem extends System {
     value: number,
     chainBonus: number = 0.1
   ): EntityId[] {
-    const chainId = `chain_${Date.now()}_${Math.random()}`
+    const chainId = `chain_${this.clock.now()}_${this.random.next()}`
     const createdIds: EntityId[] = []
     
     for (let i = 0; i < positions.length; i++) {
@@ -874,7 +913,7 @@ export class CollectionSystem extends System {
     this.activeChains.set(chainId, {
       collected: 0,
       total: positions.length,
-      lastCollectionTime: Date.now(),
+      lastCollectionTime: this.clock.now(),
       bonusMultiplier: 0
     })
     
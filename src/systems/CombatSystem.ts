@@ -1,9 +1,13 @@
 import { System } from '../core/ECS/System'
+import type { World } from '../core/ECS/World'
+import type { EventSystem } from '../core/EventSystem'
+import type { Entity } from '../core/ECS/Entity'
 import type {
   EntityQuery,
   SystemUpdateContext,
   ComponentType,
-  EntityId,
+  SystemName,
+  EntityHandle,
 } from '../types/CoreTypes'
 import type { TransformComponent } from '../components/Transform'
 import type { CombatComponent } from '../components/Combat'
@@ -19,6 +23,7 @@ type CombatEntityQuery = EntityQuery & {
 }
 
 type TargetEntityQuery = EntityQuery & {
+  handle: EntityHandle
   components: {
     transform: TransformComponent
     health: HealthComponent
@@ -31,11 +36,15 @@ type TargetEntityQuery = EntityQuery & {
 export class CombatSystem extends System {
   readonly name = 'combat'
   readonly requiredComponents: ComponentType[] = ['transform', 'combat']
+  readonly runAfter: SystemName[] = ['movement']
 
-  private eventSystem?: any
-  private world?: any
+  private eventSystem?: EventSystem
+  private world?: Pick<World, 'getEntitiesWithComponents' | 'resolve'>
 
-  constructor(eventSystem?: any, world?: any) {
+  constructor(
+    eventSystem?: EventSystem,
+    world?: Pick<World, 'getEntitiesWithComponents' | 'resolve'>
+  ) {
     super()
     this.eventSystem = eventSystem
     this.world = world
@@ -60,7 +69,7 @@ export class CombatSystem extends System {
     if (!combat.targetId) {
       const target = this.findNearestTarget(entity)
       if (target) {
-        combat.setTarget(target.id)
+        combat.setTarget(target.handle)
       }
     }
 
@@ -80,14 +89,8 @@ export class CombatSystem extends System {
     // Get all entities with health components (potential targets)
     const potentialTargets = this.world
       .getEntitiesWithComponents(['transform', 'health'])
-      .filter((entity: any) => entity.id !== attacker.id) // Don't target self
-      .map((entity: any) => ({
-        id: entity.id,
-        components: {
-          transform: entity.getComponent('transform'),
-          health: entity.getComponent('health'),
-        },
-      })) as TargetEntityQuery[]
+      .filter((entity) => entity.id !== attacker.id) // Don't target self
+      .map((entity) => toTargetQuery(entity))
 
     let nearestTarget: TargetEntityQuery | null = null
     let nearestDistance = Infinity
@@ -118,22 +121,22 @@ export class CombatSystem extends System {
 
   private attemptAttack(
     attacker: CombatEntityQuery,
-    targetId: EntityId,
+    targetHandle: EntityHandle,
     currentTime: number
   ): void {
     if (!this.world) {
       return
     }
 
-    // Prevent self-targeting
-    if (targetId === attacker.id) {
+    const targetEntity = this.world.resolve(targetHandle)
+    if (!targetEntity) {
+      // Target was destroyed (its ID may since have been recycled), clear it
       attacker.components.combat.setTarget(null)
       return
     }
 
-    const targetEntity = this.world.getEntity(targetId)
-    if (!targetEntity) {
-      // Target no longer exists, clear it
+    // Prevent self-targeting
+    if (targetEntity.id === attacker.id) {
       attacker.components.combat.setTarget(null)
       return
     }
@@ -173,14 +176,14 @@ export class CombatSystem extends System {
 
   private performAttack(
     attacker: CombatEntityQuery,
-    targetEntity: any,
+    targetEntity: Entity,
     currentTime: number
   ): void {
     const combat = attacker.components.combat
     const targetHealth = targetEntity.getComponent('health') as HealthComponent
 
     // Calculate damage
-    const damage = combat.calculateDamage()
+    const damage = combat.calculateDamage(this.random)
 
     // Deal damage
     const actualDamage = targetHealth.takeDamage(damage, currentTime)
@@ -215,18 +218,21 @@ export class CombatSystem extends System {
   /**
    * Manually triggers an attack from an entity
    */
-  triggerAttack(attacker: CombatEntityQuery, targetId: EntityId): boolean {
+  triggerAttack(
+    attacker: CombatEntityQuery,
+    targetHandle: EntityHandle
+  ): boolean {
     if (!this.world) {
       return false
     }
 
-    const currentTime = Date.now()
+    const currentTime = this.clock.now()
 
     if (!attacker.components.combat.canAttack(currentTime)) {
       return false
     }
 
-    const targetEntity = this.world.getEntity(targetId)
+    const targetEntity = this.world.resolve(targetHandle)
     if (!targetEntity) {
       return false
     }
@@ -257,8 +263,11 @@ export class CombatSystem extends System {
   /**
    * Sets a target for an entity
    */
-  setTarget(attacker: CombatEntityQuery, targetId: EntityId | null): void {
-    attacker.components.combat.setTarget(targetId)
+  setTarget(
+    attacker: CombatEntityQuery,
+    targetHandle: EntityHandle | null
+  ): void {
+    attacker.components.combat.setTarget(targetHandle)
   }
 
   /**
@@ -271,14 +280,8 @@ export class CombatSystem extends System {
 
     const potentialTargets = this.world
       .getEntitiesWithComponents(['transform', 'health'])
-      .filter((entity: any) => entity.id !== attacker.id)
-      .map((entity: any) => ({
-        id: entity.id,
-        components: {
-          transform: entity.getComponent('transform'),
-          health: entity.getComponent('health'),
-        },
-      })) as TargetEntityQuery[]
+      .filter((entity) => entity.id !== attacker.id)
+      .map((entity) => toTargetQuery(entity))
 
     return potentialTargets.filter((target) => {
       if (target.components.health.isDead()) {
@@ -294,3 +297,14 @@ export class CombatSystem extends System {
     })
   }
 }
+
+function toTargetQuery(entity: Entity): TargetEntityQuery {
+  return {
+    id: entity.id,
+    handle: entity.handle,
+    components: {
+      transform: entity.getComponent<TransformComponent>('transform')!,
+      health: entity.getComponent<HealthComponent>('health')!,
+    },
+  } as TargetEntityQuery
+}
@@ -37,7 +37,7 @@ export class DifficultySystem extends System {
 
   private world?: any
   private eventSystem?: any
-  private lastDifficultyUpdate: number = Date.now()
+  private lastDifficultyUpdate: number | null = null
   private difficultyUpdateInterval: number = 1000
 
   constructor(world?: any, eventSystem?: any) {
@@ -48,8 +48,12 @@ export class DifficultySystem extends System {
 
   public update(context: SystemUpdateContext): void {
     const deltaTime = context.deltaTime
-    const currentTime = Date.now()
+    const currentTime = this.clock.now()
 
+    // The first update only starts the interval
+    if (this.lastDifficultyUpdate === null) {
+      this.lastDifficultyUpdate = currentTime
+    }
     if (
       currentTime - this.lastDifficultyUpdate <
       this.difficultyUpdateInterval
@@ -78,7 +82,12 @@ export class DifficultySystem extends System {
   ): void {
     const difficulty = entity.difficulty
 
-    difficulty.updatePerformanceMetrics('SURVIVAL_TIME', deltaTime, true)
+    difficulty.updatePerformanceMetrics(
+      'SURVIVAL_TIME',
+      deltaTime,
+      true,
+      this.clock.now()
+    )
 
     const newScore = difficulty.calculateCurrentScore()
     difficulty.currentScore = newScore
@@ -200,7 +209,7 @@ export class DifficultySystem extends System {
 
     const difficultyEvent: DifficultyChangedEvent = {
       type: 'difficulty_changed',
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       entityId: entity.entityId,
       oldLevel,
       newLevel,
@@ -343,7 +352,12 @@ export class DifficultySystem extends System {
     const difficulty = entity.getComponent('difficulty') as DifficultyComponent
     if (!difficulty) return
 
-    difficulty.updatePerformanceMetrics(metric, value, isIncrement)
+    difficulty.updatePerformanceMetrics(
+      metric,
+      value,
+      isIncrement,
+      this.clock.now()
+    )
   }
 
   public setDifficultyLevel(
@@ -379,7 +393,7 @@ export class DifficultySystem extends System {
 
     if (enabled) {
       difficulty.performanceHistory = []
-      difficulty.lastAdaptationTime = Date.now()
+      difficulty.lastAdaptationTime = this.clock.now()
       difficulty.isStabilized = false
     }
 
@@ -5,7 +5,12 @@ import type {
   ComponentType,
 } from '../types/CoreTypes'
 import type { InventoryComponent, ItemStack } from '../components/Inventory'
-import { GameEventType } from '../types/Events'
+import type { EventSystem } from '../core/EventSystem'
+import {
+  GameEventType,
+  type EventOf,
+  type EventSubscription,
+} from '../types/Events'
 
 type EconomyEntityQuery = EntityQuery & {
   components: {
@@ -33,12 +38,13 @@ export class EconomySystem extends System {
   readonly name = 'economy'
   readonly requiredComponents: ComponentType[] = ['inventory']
 
-  private eventSystem?: any
+  private eventSystem?: EventSystem
+  private subscriptions: EventSubscription[] = []
   private world?: any
   private resourceDrops: Map<string, ResourceDrop[]> = new Map()
   private shopItems: Map<string, ShopItem> = new Map()
 
-  constructor(eventSystem?: any, world?: any) {
+  constructor(eventSystem?: EventSystem, world?: any) {
     super()
     this.eventSystem = eventSystem
     this.world = world
@@ -73,15 +79,27 @@ export class EconomySystem extends System {
 
   initialize(): void {
     if (this.eventSystem) {
-      this.eventSystem.on(
-        GameEventType.ENTITY_KILLED,
-        this.handleEntityKilled.bind(this)
+      this.subscriptions.push(
+        this.eventSystem.on(
+          GameEventType.ENTITY_KILLED,
+          this.handleEntityKilled.bind(this)
+        )
       )
     }
   }
 
-  private handleEntityKilled(event: any): void {
-    const { killerId, entityId: _entityId } = event.data
+  /**
+   * Unsubscribes from the events subscribed to in initialize()
+   */
+  destroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe())
+    this.subscriptions = []
+  }
+
+  private handleEntityKilled(
+    event: EventOf<GameEventType.ENTITY_KILLED>
+  ): void {
+    const { killerId } = event.data
 
     if (!killerId) return
 
@@ -108,7 +126,7 @@ export class EconomySystem extends System {
     const droppedItems: ItemStack[] = []
 
     drops.forEach((drop) => {
-      if (Math.random() < drop.chance) {
+      if (this.random.chance(drop.chance)) {
         const success = entity.components.inventory.addResource(
           drop.type,
           drop.amount
@@ -126,7 +144,7 @@ export class EconomySystem extends System {
               resourceType: drop.type,
               amount: drop.amount,
               source: dropTableKey,
-              timestamp: Date.now(),
+              timestamp: this.clock.now(),
             })
           }
         }
@@ -175,7 +193,7 @@ export class EconomySystem extends System {
         toEntityId,
         resourceType,
         amount,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
     }
 
@@ -245,7 +263,7 @@ export class EconomySystem extends System {
         itemType,
         quantity,
         metadata,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
     }
 
@@ -315,7 +333,7 @@ export class EconomySystem extends System {
         entityId,
         itemType: shopItem.itemType,
         cost: shopItem.cost,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
     }
 
@@ -3,6 +3,8 @@ import type {
   EntityQuery,
   SystemUpdateContext,
   ComponentType,
+  SystemPhase,
+  SystemName,
   EntityId,
 } from '../types/CoreTypes'
 import {
@@ -59,6 +61,8 @@ export interface EnemySystemConfig {
 export class EnemySystem extends System {
   readonly name = 'enemy'
   readonly requiredComponents: ComponentType[] = ['enemyAI', 'transform']
+  readonly runBefore: SystemName[] = ['movement']
+  readonly phase: SystemPhase = 'preUpdate'
 
   private eventSystem?: any
   private world?: any
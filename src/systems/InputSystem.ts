@@ -0,0 +1,322 @@
+import { System } from '../core/ECS/System'
+import type { World } from '../core/ECS/World'
+import type {
+  EntityQuery,
+  SystemUpdateContext,
+  ComponentType,
+  SystemPhase,
+} from '../types/CoreTypes'
+import type {
+  InputState,
+  InputCommand,
+  InputRecording,
+  RecordedInput,
+  Vector2,
+} from '../types/GameTypes'
+import type { TransformComponent } from '../components/Transform'
+import type { MovementComponent } from '../components/Movement'
+import type { PlayerControllerComponent } from '../components/PlayerController'
+import type { SkillSystem } from './SkillSystem'
+
+type InputEntityQuery = EntityQuery & {
+  components: {
+    playerController: PlayerControllerComponent
+    movement: MovementComponent
+    transform: TransformComponent
+  }
+}
+
+interface PlayerCommand {
+  playerId: number
+  command: InputCommand
+}
+
+export interface InputSystemConfig {
+  /** Commands sent when an action of an InputState is pressed */
+  actionBindings: Record<string, InputCommand>
+}
+
+/**
+ * Input system applies player input to entities with a PlayerController.
+ * Input arrives as per-frame InputState or as commands; both are turned into
+ * commands, which can be recorded and played back to reproduce a run.
+ */
+export class InputSystem extends System {
+  readonly name = 'input'
+  readonly requiredComponents: ComponentType[] = [
+    'playerController',
+    'movement',
+    'transform',
+  ]
+  readonly phase: SystemPhase = 'preUpdate'
+
+  private config: InputSystemConfig
+  private world?: Pick<World, 'getSystem'>
+  private inputStates = new Map<number, InputState>()
+  private sentMoves = new Map<number, Vector2>()
+  private sentAims = new Map<number, Vector2>()
+  private pressedActions = new Map<number, Set<string>>()
+  private pendingCommands: PlayerCommand[] = []
+  private recording: RecordedInput[] | null = null
+  private recordingStart: number | null = null
+  private recordedFrames: number = 0
+  private playback: InputRecording | null = null
+  private playbackStart: number | null = null
+  private playbackIndex: number = 0
+
+  constructor(
+    world?: Pick<World, 'getSystem'>,
+    config: Partial<InputSystemConfig> = {}
+  ) {
+    super()
+    this.world = world
+    this.config = {
+      actionBindings: { dash: { type: 'dash' } },
+      ...config,
+    }
+  }
+
+  /**
+   * Sets a player's current input. Movement and aim changes become move and
+   * aim commands; newly pressed actions send their bound command.
+   */
+  setInput(state: InputState, playerId: number = 0): void {
+    this.inputStates.set(playerId, {
+      movement: { ...state.movement },
+      actions: new Set(state.actions),
+      mousePosition: state.mousePosition
+        ? { ...state.mousePosition }
+        : undefined,
+    })
+  }
+
+  /**
+   * Sends a command to a player's entities on the next update
+   */
+  sendCommand(command: InputCommand, playerId: number = 0): void {
+    this.pendingCommands.push({ playerId, command })
+  }
+
+  /**
+   * Starts recording the commands applied from the next update on. The
+   * current input states are recorded on the first frame.
+   */
+  startRecording(): void {
+    this.recording = []
+    this.recordingStart = null
+    this.recordedFrames = 0
+    this.forgetSentInput()
+  }
+
+  /**
+   * Stops recording and returns the recorded input
+   */
+  stopRecording(): InputRecording {
+    if (!this.recording) {
+      throw new Error('Cannot stop recording: input is not being recorded')
+    }
+
+    const recording: InputRecording = {
+      frames: this.recordedFrames,
+      inputs: this.recording,
+    }
+    this.recording = null
+    return recording
+  }
+
+  /**
+   * Checks if input is being recorded
+   */
+  isRecording(): boolean {
+    return this.recording !== null
+  }
+
+  /**
+   * Plays a recording back from the next update on. Live input is ignored
+   * until the playback ends.
+   */
+  play(recording: InputRecording): void {
+    this.playback = recording
+    this.playbackStart = null
+    this.playbackIndex = 0
+    this.pendingCommands = []
+  }
+
+  /**
+   * Stops the playback and returns to live input
+   */
+  stopPlayback(): void {
+    this.playback = null
+    this.forgetSentInput()
+  }
+
+  /**
+   * Checks if a recording is being played back
+   */
+  isPlaying(): boolean {
+    return this.playback !== null
+  }
+
+  update(context: SystemUpdateContext, entities: EntityQuery[]): void {
+    const commands = this.playback
+      ? this.getPlaybackCommands(context.frameCount)
+      : this.collectCommands()
+
+    if (this.recording) {
+      this.recordingStart ??= context.frameCount
+      const frame = context.frameCount - this.recordingStart
+      commands.forEach(({ playerId, command }) => {
+        this.recording!.push({ frame, playerId, command })
+      })
+      this.recordedFrames = frame + 1
+    }
+
+    const players = entities as InputEntityQuery[]
+    commands.forEach(({ playerId, command }) => {
+      players.forEach((entity) => {
+        if (entity.components.playerController.playerId === playerId) {
+          this.applyCommand(entity, command)
+        }
+      })
+    })
+
+    players.forEach((entity) => this.applyMovement(entity))
+  }
+
+  /**
+   * Turns the input states into commands and takes the sent commands
+   */
+  private collectCommands(): PlayerCommand[] {
+    const commands: PlayerCommand[] = []
+
+    this.inputStates.forEach((state, playerId) => {
+      const move = this.clampDirection(state.movement)
+      const sentMove = this.sentMoves.get(playerId)
+      if (!sentMove || sentMove.x !== move.x || sentMove.y !== move.y) {
+        commands.push({ playerId, command: { type: 'move', ...move } })
+        this.sentMoves.set(playerId, move)
+      }
+
+      const aim = state.mousePosition
+      const sentAim = this.sentAims.get(playerId)
+      if (aim && (!sentAim || sentAim.x !== aim.x || sentAim.y !== aim.y)) {
+        commands.push({
+          playerId,
+          command: { type: 'aim', x: aim.x, y: aim.y },
+        })
+        this.sentAims.set(playerId, { ...aim })
+      }
+
+      const pressed = this.pressedActions.get(playerId)
+      state.actions.forEach((action) => {
+        const binding = this.config.actionBindings[action]
+        if (binding && !pressed?.has(action)) {
+          commands.push({ playerId, command: binding })
+        }
+      })
+      this.pressedActions.set(playerId, new Set(state.actions))
+    })
+
+    commands.push(...this.pendingCommands)
+    this.pendingCommands = []
+    return commands
+  }
+
+  /**
+   * Takes the recorded commands of the current playback frame
+   */
+  private getPlaybackCommands(frameCount: number): PlayerCommand[] {
+    const playback = this.playback!
+    this.playbackStart ??= frameCount
+    this.pendingCommands = []
+    const frame = frameCount - this.playbackStart
+
+    const commands: PlayerCommand[] = []
+    while (
+      this.playbackIndex < playback.inputs.length &&
+      playback.inputs[this.playbackIndex].frame <= frame
+    ) {
+      const { playerId, command } = playback.inputs[this.playbackIndex]
+      commands.push({ playerId, command })
+      this.playbackIndex++
+    }
+
+    if (frame >= playback.frames - 1) {
+      this.stopPlayback()
+    }
+    return commands
+  }
+
+  /**
+   * Applies a command to one entity
+   */
+  private applyCommand(entity: InputEntityQuery, command: InputCommand): void {
+    const { playerController, transform } = entity.components
+
+    switch (command.type) {
+      case 'move':
+        playerController.setMoveDirection(command.x, command.y)
+        break
+      case 'aim':
+        playerController.setAimPosition(command)
+        break
+      case 'dash': {
+        const now = this.clock.now()
+        if (!playerController.canDash(now)) {
+          break
+        }
+        const direction = playerController.facing
+        transform.translate(
+          direction.x * playerController.dashDistance,
+          direction.y * playerController.dashDistance
+        )
+        playerController.useDash(now)
+        break
+      }
+      case 'activateSkill':
+        this.world
+          ?.getSystem<SkillSystem>('skill')
+          ?.activateSkill(
+            entity.id,
+            command.skillId,
+            undefined,
+            command.target ?? playerController.aimPosition ?? undefined
+          )
+        break
+    }
+  }
+
+  /**
+   * Moves an entity at full speed in its held direction
+   */
+  private applyMovement(entity: InputEntityQuery): void {
+    const { playerController, movement } = entity.components
+    const x = playerController.moveDirection.x * movement.maxSpeed
+    const y = playerController.moveDirection.y * movement.maxSpeed
+
+    if (movement.velocity.x !== x || movement.velocity.y !== y) {
+      movement.setVelocity(x, y)
+    }
+  }
+
+  /**
+   * Limits a direction to length 1 so diagonals are not faster
+   */
+  private clampDirection(direction: Vector2): Vector2 {
+    const length = Math.sqrt(
+      direction.x * direction.x + direction.y * direction.y
+    )
+    return length > 1
+      ? { x: direction.x / length, y: direction.y / length }
+      : { x: direction.x, y: direction.y }
+  }
+
+  /**
+   * Forgets which movement and aim were already sent, so they are sent
+   * again on the next update
+   */
+  private forgetSentInput(): void {
+    this.sentMoves.clear()
+    this.sentAims.clear()
+  }
+}
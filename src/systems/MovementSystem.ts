@@ -3,10 +3,12 @@ import type {
   EntityQuery,
   SystemUpdateContext,
   ComponentType,
+  SystemPhase,
 } from '../types/CoreTypes'
 import type { TransformComponent } from '../components/Transform'
 import type { MovementComponent } from '../components/Movement'
 import { Vector2Math } from '../utils/Math'
+import type { EventSystem } from '../core/EventSystem'
 import { GameEventType } from '../types/Events'
 
 type MovementEntityQuery = EntityQuery & {
@@ -22,10 +24,11 @@ type MovementEntityQuery = EntityQuery & {
 export class MovementSystem extends System {
   readonly name = 'movement'
   readonly requiredComponents: ComponentType[] = ['transform', 'movement']
+  readonly phase: SystemPhase = 'fixedUpdate'
 
-  private eventSystem?: any
+  private eventSystem?: EventSystem
 
-  constructor(eventSystem?: any) {
+  constructor(eventSystem?: EventSystem) {
     super()
     this.eventSystem = eventSystem
 
@@ -118,16 +121,18 @@ export class MovementSystem extends System {
     movement.acceleration.x = 0
     movement.acceleration.y = 0
 
-    // Emit position changed event if position actually changed
-    if (
-      this.eventSystem &&
-      !Vector2Math.equals(previousPosition, transform.position)
-    ) {
-      this.eventSystem.emit(GameEventType.POSITION_CHANGED, {
-        entityId,
-        previousPosition,
-        newPosition: Vector2Math.clone(transform.position),
-      })
+    // Flag the transform and emit position changed event if position
+    // actually changed
+    if (!Vector2Math.equals(previousPosition, transform.position)) {
+      transform.markChanged()
+
+      if (this.eventSystem) {
+        this.eventSystem.emit(GameEventType.POSITION_CHANGED, {
+          entityId,
+          previousPosition,
+          newPosition: Vector2Math.clone(transform.position),
+        })
+      }
     }
   }
 
@@ -5,7 +5,12 @@ import type {
   ComponentType,
 } from '../types/CoreTypes'
 import type { ExperienceComponent } from '../components/Experience'
-import { GameEventType } from '../types/Events'
+import type { EventSystem } from '../core/EventSystem'
+import {
+  GameEventType,
+  type EventOf,
+  type EventSubscription,
+} from '../types/Events'
 
 type ProgressionEntityQuery = EntityQuery & {
   components: {
@@ -26,12 +31,13 @@ export class ProgressionSystem extends System {
   readonly name = 'progression'
   readonly requiredComponents: ComponentType[] = ['experience']
 
-  private eventSystem?: any
+  private eventSystem?: EventSystem
+  private subscriptions: EventSubscription[] = []
   private world?: any
   private xpSources: Map<string, XPSource> = new Map()
   private pendingLevelUps: Map<number, number[]> = new Map() // entityId -> levels gained
 
-  constructor(eventSystem?: any, world?: any) {
+  constructor(eventSystem?: EventSystem, world?: any) {
     super()
     this.eventSystem = eventSystem
     this.world = world
@@ -68,29 +74,37 @@ export class ProgressionSystem extends System {
   initialize(): void {
     if (this.eventSystem) {
       // Listen for events that should grant XP
-      this.eventSystem.on(
-        GameEventType.ENTITY_KILLED,
-        this.handleEntityKilled.bind(this)
-      )
-      this.eventSystem.on(
-        GameEventType.ITEM_COLLECTED,
-        this.handleItemCollected.bind(this)
+      this.subscriptions.push(
+        this.eventSystem.on(
+          GameEventType.ENTITY_KILLED,
+          this.handleEntityKilled.bind(this)
+        ),
+        this.eventSystem.on(
+          GameEventType.ITEM_COLLECTED,
+          this.handleItemCollected.bind(this)
+        )
       )
     }
   }
 
-  private handleEntityKilled(event: any): void {
-    const { killerEntityId, killerId, victimEntityId, entityId, victimType } = event.data
+  /**
+   * Unsubscribes from the events subscribed to in initialize()
+   */
+  destroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe())
+    this.subscriptions = []
+  }
+
+  private handleEntityKilled(
+    event: EventOf<GameEventType.ENTITY_KILLED>
+  ): void {
+    const { killerId, entityId, victimType } = event.data
 
-    // Support both killerEntityId and killerId for compatibility
-    const actualKillerId = killerEntityId || killerId
-    const actualVictimId = victimEntityId || entityId
-    
-    if (!actualKillerId) return
+    if (!killerId) return
 
     // Determine enemy type and XP multiplier
     let xpMultiplier = 1
-    let enemyType = victimType || 'unknown'
+    const enemyType = victimType ?? 'unknown'
     
     if (victimType) {
       if (victimType.includes('boss')) {
@@ -104,13 +118,15 @@ export class ProgressionSystem extends System {
     const baseXP = this.xpSources.get('enemy_kill')?.baseAmount || 10
     const finalXP = Math.floor(baseXP * xpMultiplier)
     
-    this.awardExperienceAmount(actualKillerId, finalXP, 'combat', {
+    this.awardExperienceAmount(killerId, finalXP, 'combat', {
       enemyType,
-      sourceEntityId: actualVictimId,
+      sourceEntityId: entityId,
     })
   }
 
-  private handleItemCollected(event: any): void {
+  private handleItemCollected(
+    event: EventOf<GameEventType.ITEM_COLLECTED>
+  ): void {
     const { entityId, itemType } = event.data
 
     // Award XP for collecting items
@@ -187,7 +203,7 @@ export class ProgressionSystem extends System {
       amount,
       source,
       sourceDetails,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     })
 
     // Store pending level ups for stat increases
@@ -197,11 +213,11 @@ export class ProgressionSystem extends System {
 
     // Emit level up events
     levelsGained.forEach((newLevel: number) => {
-      this.eventSystem.emit(GameEventType.LEVEL_UP, {
+      this.eventSystem?.emit(GameEventType.LEVEL_UP, {
         entityId,
         previousLevel: newLevel - 1,
         newLevel,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
     })
 
@@ -239,15 +255,15 @@ export class ProgressionSystem extends System {
         entityId,
         amount,
         source,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
 
       levelsGained.forEach((newLevel: number) => {
-        this.eventSystem.emit(GameEventType.LEVEL_UP, {
+        this.eventSystem?.emit(GameEventType.LEVEL_UP, {
           entityId,
           previousLevel: newLevel - 1,
           newLevel,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
         })
       })
     }
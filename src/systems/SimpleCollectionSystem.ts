@@ -1,6 +1,7 @@
 import { System } from '../core/ECS/System'
 import type {
   ComponentType,
+  SystemName,
   SystemUpdateContext,
   EntityQuery,
   EntityId,
@@ -35,6 +36,7 @@ type CollectibleEntityQuery = EntityQuery & {
 export class SimpleCollectionSystem extends System {
   readonly name = 'collection'
   readonly requiredComponents: ComponentType[] = ['transform']
+  readonly runAfter: SystemName[] = ['movement']
 
   private eventSystem?: EventSystem
   private world?: World
@@ -144,16 +146,14 @@ export class SimpleCollectionSystem extends System {
 
   private collectItem(collector: Entity, collectible: Entity): void {
     // Remove the collectible
-    if (this.world?.removeEntity) {
-      this.world.removeEntity(collectible.id)
-    }
+    this.world?.commands.destroyEntity(collectible.id)
 
     // Emit collection event
     if (this.eventSystem) {
       this.eventSystem.emit('COLLECTIBLE_COLLECTED', {
         collectorId: collector.id,
         collectibleId: collectible.id,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
     }
   }
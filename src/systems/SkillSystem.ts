@@ -22,13 +22,16 @@ import {
 import type { ExperienceComponent } from '../components/Experience'
 import type { GameEvent } from '../types/Events'
 
-interface SkillSystemConfig {
+export interface SkillSystemConfig {
   baseEffectRadius: number
   baseProjectileSpeed: number
   evolutionCheckInterval: number
   maxActiveEffects: number
+  /** Seed for skill rolls; without it the world's random source is used */
   skillSelectionSeed?: number
   eventSystem?: any
+  /** Prefab instantiated for each projectile; without it only an event is emitted */
+  projectilePrefab?: string
 }
 
 interface SkillActivation {
@@ -64,14 +67,16 @@ export class SkillSystem extends System {
   private evolutionDefinitions: Map<string, EvolutionOption> = new Map()
   private lastEvolutionCheck: number = 0
   private currentGameTime: number = 0
-  private rng: () => number
+  private rng: (() => number) | null
 
   constructor(world: World, config: SkillSystemConfig) {
     super()
     this.world = world
     this.config = config
     this.eventSystem = config.eventSystem
-    this.rng = this.createSeededRandom(config.skillSelectionSeed || Date.now())
+    this.rng = config.skillSelectionSeed
+      ? this.createSeededRandom(config.skillSelectionSeed)
+      : null
     this.initializeEvolutionDefinitions()
   }
 
@@ -112,6 +117,14 @@ export class SkillSystem extends System {
     }
   }
 
+  /**
+   * Rolls a random number with the configured seed, or the world's random
+   * source when no seed is set
+   */
+  private nextRandom(): number {
+    return this.rng ? this.rng() : this.random.next()
+  }
+
   update(context: SystemUpdateContext, entities: EntityQuery[]): void {
     this.currentGameTime = context.totalTime
 
@@ -164,7 +177,7 @@ export class SkillSystem extends System {
     const skill = skills.getSkill(skillId)
     if (!skill || skill.type !== SkillType.ACTIVE) return false
 
-    const currentTime = Date.now()
+    const currentTime = this.clock.now()
     if (!skills.canUseSkill(skillId, currentTime)) return false
 
     // Queue the skill activation
@@ -344,23 +357,60 @@ export class SkillSystem extends System {
     target: { x: number; y: number } | EntityId | undefined,
     gameTime: number
   ): void {
-    // Projectile creation would be handled by a separate ProjectileSystem
-    // For now, emit an event for other systems to handle
+    const speed = (skill.effects.find((e) => e.metadata?.projectileSpeed)
+      ?.metadata?.projectileSpeed || this.config.baseProjectileSpeed) as number
+
+    // Flight and hits are handled by other systems listening to the event
     this.emitEvent({
       type: 'PROJECTILE_CREATED',
       timestamp: gameTime,
       data: {
         skillId: skill.id,
         sourceEntityId: sourceId,
+        projectileEntityId: this.spawnProjectile(sourceId, target, speed),
         target,
-        speed:
-          skill.effects.find((e) => e.metadata?.projectileSpeed)?.metadata
-            ?.projectileSpeed || this.config.baseProjectileSpeed,
+        speed,
         effects: skill.effects,
       },
     })
   }
 
+  /**
+   * Queues a projectile entity from the configured prefab, moving from the
+   * source towards the target. Returns its ID, or null if no prefab is set.
+   */
+  private spawnProjectile(
+    sourceId: EntityId,
+    target: { x: number; y: number } | EntityId | undefined,
+    speed: number
+  ): EntityId | null {
+    const origin = this.world
+      .getEntity(sourceId)
+      ?.getComponent<TransformComponent>('transform')?.position
+    if (!this.config.projectilePrefab || !origin) {
+      return null
+    }
+
+    const targetPosition =
+      typeof target === 'number'
+        ? this.world
+            .getEntity(target)
+            ?.getComponent<TransformComponent>('transform')?.position
+        : target
+    const dx = targetPosition ? targetPosition.x - origin.x : 0
+    const dy = targetPosition ? targetPosition.y - origin.y : 0
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    const velocity =
+      distance > 0
+        ? { x: (dx / distance) * speed, y: (dy / distance) * speed }
+        : { x: 0, y: 0 }
+
+    return this.world.commands.instantiate(this.config.projectilePrefab, {
+      transform: { position: { x: origin.x, y: origin.y } },
+      movement: { velocity, maxSpeed: speed },
+    }).id
+  }
+
   /**
    * Apply a single effect to an entity
    */
@@ -372,7 +422,7 @@ export class SkillSystem extends System {
     gameTime: number
   ): void {
     // Check chance
-    if (effect.chance && this.rng() > effect.chance) return
+    if (effect.chance && this.nextRandom() > effect.chance) return
 
     const targetEntity = this.world.getEntity(targetId)
     if (!targetEntity) return
@@ -471,7 +521,7 @@ export class SkillSystem extends System {
     if (!skills) return
 
     const activeEffect: ActiveEffect = {
-      id: `${skillId}_${gameTime}_${Math.random()}`,
+      id: `${skillId}_${gameTime}_${this.random.next()}`,
       skillId,
       sourceEntityId: sourceId,
       effect,
@@ -756,7 +806,7 @@ export class SkillSystem extends System {
     const totalWeight = weights.reduce((sum, w) => sum + w, 0)
     if (totalWeight === 0) return -1
 
-    const random = this.rng() * totalWeight
+    const random = this.nextRandom() * totalWeight
     let accumulator = 0
 
     for (let i = 0; i < weights.length; i++) {
@@ -1,9 +1,19 @@
 import { System } from '../core/ECS/System'
+import { ComponentRegistry, mergeTemplateData } from '../core/ECS/Component'
+import {
+  PrefabRegistry,
+  PREFAB_RANGE_KEY,
+  getPrefabRange,
+} from '../core/ECS/Prefab'
+import type { PendingEntity } from '../core/ECS/CommandBuffer'
+import type { World } from '../core/ECS/World'
 import type {
   EntityQuery,
   SystemUpdateContext,
   ComponentType,
+  ComponentTemplate,
   EntityId,
+  PrefabOverrides,
 } from '../types/CoreTypes'
 import {
   SpawnerComponent,
@@ -12,14 +22,22 @@ import {
   type SpawnWave,
 } from '../components/Spawner'
 import { TransformComponent } from '../components/Transform'
-import { HealthComponent } from '../components/Health'
-import { MovementComponent } from '../components/Movement'
-import { CombatComponent } from '../components/Combat'
-import { AIComponent, AIPersonality } from '../components/AI'
+import type { HealthComponent } from '../components/Health'
+import { AIPersonality } from '../components/AI'
 import { Vector2Math, type Vector2 } from '../utils/Math'
 import type { SpatialHashGrid } from '../utils/SpatialPartitioning'
 import type { SpatialEntity } from '../utils/SpatialPartitioning'
-import { GameEventType } from '../types/Events'
+import type { EventSystem } from '../core/EventSystem'
+import {
+  GameEventType,
+  type EventOf,
+  type EventSubscription,
+} from '../types/Events'
+import {
+  BOSS_PREFAB,
+  ENEMY_PREFAB,
+  registerDefaultPrefabs,
+} from '../config/PrefabConfig'
 
 /**
  * Spawner query type
@@ -31,6 +49,14 @@ type SpawnerEntityQuery = EntityQuery & {
   }
 }
 
+/**
+ * World access the spawn system needs
+ */
+type SpawnWorld = Pick<
+  World,
+  'createEntity' | 'getEntity' | 'getEntitiesWithComponents' | 'commands'
+>
+
 /**
  * Spawn system configuration
  */
@@ -65,16 +91,9 @@ export class SpawnSystem extends System {
 
   private config: SpawnSystemConfig
   private spatialGrid: SpatialHashGrid
-  private eventSystem?: {
-    emit: (eventType: string, data: unknown) => void
-    on: (eventType: string, callback: (event: unknown) => void) => void
-  }
-  private world?: {
-    createEntity: () => { id: EntityId; addComponent: (comp: unknown) => void }
-    getEntity?: (id: EntityId) => any
-    getEntitiesWithComponents: (components: string[]) => unknown[]
-    removeEntity: (id: EntityId) => void
-  }
+  private eventSystem?: Pick<EventSystem, 'emit' | 'on'>
+  private world?: SpawnWorld
+  private subscriptions: EventSubscription[] = []
 
   // Global spawn tracking
   private globalEnemyCount: number = 0
@@ -103,24 +122,14 @@ export class SpawnSystem extends System {
   constructor(
     spatialGrid: SpatialHashGrid,
     config: Partial<SpawnSystemConfig> = {},
-    eventSystem?: {
-      emit: (eventType: string, data: unknown) => void
-      on: (eventType: string, callback: (event: unknown) => void) => void
-    },
-    world?: {
-      createEntity: () => {
-        id: EntityId
-        addComponent: (comp: unknown) => void
-      }
-      getEntity?: (id: EntityId) => any
-      getEntitiesWithComponents: (components: string[]) => unknown[]
-      removeEntity: (id: EntityId) => void
-    }
+    eventSystem?: Pick<EventSystem, 'emit' | 'on'>,
+    world?: SpawnWorld
   ) {
     super()
     this.spatialGrid = spatialGrid
     this.eventSystem = eventSystem
     this.world = world
+    registerDefaultPrefabs()
 
     this.config = {
       maxGlobalEnemies: 500,
@@ -137,19 +146,32 @@ export class SpawnSystem extends System {
   initialize(): void {
     if (this.eventSystem) {
       // Listen for game events
-      this.eventSystem.on(
-        GameEventType.ENTITY_KILLED,
-        this.handleEntityKilled.bind(this)
-      )
-      this.eventSystem.on(GameEventType.LEVEL_UP, this.handleLevelUp.bind(this))
-      this.eventSystem.on(
-        'BOSS_PHASE_CHANGE',
-        this.handleBossPhaseChange.bind(this)
+      this.subscriptions.push(
+        this.eventSystem.on(
+          GameEventType.ENTITY_KILLED,
+          this.handleEntityKilled.bind(this)
+        ),
+        this.eventSystem.on(
+          GameEventType.LEVEL_UP,
+          this.handleLevelUp.bind(this)
+        ),
+        this.eventSystem.on(
+          'BOSS_PHASE_CHANGE',
+          this.handleBossPhaseChange.bind(this)
+        ),
+        this.eventSystem.on('WAVE_COMPLETE', this.handleWaveComplete.bind(this))
       )
-      this.eventSystem.on('WAVE_COMPLETE', this.handleWaveComplete.bind(this))
     }
   }
 
+  /**
+   * Unsubscribes from the events subscribed to in initialize()
+   */
+  destroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe())
+    this.subscriptions = []
+  }
+
   update(context: SystemUpdateContext, entities: EntityQuery[]): void {
     const spawnerEntities = entities as SpawnerEntityQuery[]
     const currentTime = context.totalTime
@@ -259,18 +281,22 @@ export class SpawnSystem extends System {
 
     // Select enemy type based on current difficulty
     const enemyType = spawnerComponent.selectEnemyType(
-      this.currentDifficulty.playerLevel
+      this.currentDifficulty.playerLevel,
+      this.random
     )
     if (!enemyType) return
 
     // Calculate spawn position
-    const spawnPosition = spawnerComponent.calculateSpawnPosition()
+    const spawnPosition = spawnerComponent.calculateSpawnPosition(
+      undefined,
+      this.random
+    )
 
     // Check if position is valid (not too close to player or other enemies)
     if (!this.isValidSpawnPosition(spawnPosition, enemyType)) return
 
     // Create enemy entity
-    const enemy = this.createEnemy(enemyType, spawnPosition, spawner.id)
+    const enemy = this.createEnemy(enemyType, spawnPosition)
     if (!enemy) return
 
     // Record spawn
@@ -278,7 +304,8 @@ export class SpawnSystem extends System {
       enemy.id,
       enemyType.id,
       spawnPosition,
-      currentTime
+      currentTime,
+      this.random
     )
     this.globalEnemyCount++
     this.totalEnemiesSpawned++
@@ -322,7 +349,7 @@ export class SpawnSystem extends System {
 
     // Create boss at spawner location
     const bossPosition = spawner.components.transform.position
-    const boss = this.createBoss(bossType, bossPosition, spawner.id)
+    const boss = this.createBoss(bossType, bossPosition)
     if (!boss) return
 
     // Track boss
@@ -347,76 +374,125 @@ export class SpawnSystem extends System {
    */
   private createEnemy(
     enemyType: EnemyType,
-    position: Vector2,
-    spawnerId: EntityId
-  ): EntityQuery | null {
+    position: Vector2
+  ): PendingEntity | null {
     if (!this.world) return null
 
-    const entity = this.world.createEntity()
-
-    // Add transform component
-    const transform = new TransformComponent(position.x, position.y)
-    entity.addComponent(transform)
+    // The personality for the type comes first so the type's own AI
+    // template can override it; the per-type AI tuning goes last
+    const overrides = this.createOverrides(position, [
+      {
+        type: 'ai',
+        data: { personality: this.getAIPersonalityForType(enemyType.id) },
+      },
+      ...enemyType.components,
+      { type: 'ai', data: this.getAITemplateForType(enemyType) },
+    ])
 
-    // Add health component with scaling
-    const baseHealth = 100
-    const scaledHealth = this.scaleValue(
-      baseHealth,
-      enemyType.scalingFactors?.health || 1
-    )
-    const health = new HealthComponent(scaledHealth)
-    entity.addComponent(health)
-
-    // Add movement component
-    const baseSpeed = 50
-    const scaledSpeed = this.scaleValue(
-      baseSpeed,
-      enemyType.scalingFactors?.speed || 1
+    // Apply level-based modifiers
+    const levelModifier = 1 + (enemyType.minLevel - 1) * 0.05
+    this.scaleField(
+      ENEMY_PREFAB.name,
+      overrides,
+      'ai',
+      ['sightRange'],
+      levelModifier
     )
-    const movement = new MovementComponent(scaledSpeed)
-    entity.addComponent(movement)
-
-    // Add combat component
-    const baseDamage = 10
-    const scaledDamage = this.scaleValue(
-      baseDamage,
-      enemyType.scalingFactors?.damage || 1
+    this.scaleField(
+      ENEMY_PREFAB.name,
+      overrides,
+      'ai',
+      ['moveSpeed'],
+      levelModifier
     )
-    const combat = new CombatComponent({
-      damage: scaledDamage,
-      attackSpeed: 1.0,
-      range: 50,
-      criticalChance: 0.1,
-      criticalMultiplier: 1.5,
+
+    this.scaleStats(ENEMY_PREFAB.name, overrides, {
+      health: enemyType.scalingFactors?.health ?? 1,
+      damage: enemyType.scalingFactors?.damage ?? 1,
+      speed: enemyType.scalingFactors?.speed ?? 1,
     })
-    entity.addComponent(combat)
 
-    // Add AI component based on enemy type
-    const aiPersonality = this.getAIPersonalityForType(enemyType.id)
-    const ai = new AIComponent(aiPersonality)
+    // Spawns happen during the update, so they go through the command buffer
+    return this.world.commands.instantiate(ENEMY_PREFAB.name, overrides)
+  }
 
-    // Configure AI based on enemy type
-    this.configureAIForType(ai, enemyType)
-    entity.addComponent(ai)
+  /**
+   * Creates the per-spawn prefab overrides: the given templates, merged in
+   * order, placed at a position
+   */
+  private createOverrides(
+    position: Vector2,
+    templates: ComponentTemplate[]
+  ): PrefabOverrides {
+    const overrides: PrefabOverrides = {}
+    templates.forEach(({ type, data }) => {
+      overrides[type] = mergeTemplateData(overrides[type] ?? {}, data)
+    })
+    overrides.transform = mergeTemplateData(overrides.transform ?? {}, {
+      position: { x: position.x, y: position.y },
+    })
+    return overrides
+  }
 
-    // Add custom components from enemy type template
-    enemyType.components.forEach((template) => {
-      if (
-        ['transform', 'health', 'movement', 'combat', 'ai'].includes(
-          template.type
-        )
-      ) {
-        return // Skip components we've already added
-      }
+  /**
+   * Scales health, damage and speed of an instance by the given factors and
+   * the current difficulty
+   */
+  private scaleStats(
+    prefab: string,
+    overrides: PrefabOverrides,
+    factors: { health: number; damage: number; speed: number }
+  ): void {
+    const difficulty = this.currentDifficulty.difficultyMultiplier
+    this.scaleField(
+      prefab,
+      overrides,
+      'health',
+      ['maximum'],
+      factors.health * difficulty
+    )
+    this.scaleField(
+      prefab,
+      overrides,
+      'combat',
+      ['weapon', 'damage'],
+      factors.damage * difficulty
+    )
+    this.scaleField(
+      prefab,
+      overrides,
+      'movement',
+      ['maxSpeed'],
+      factors.speed * difficulty
+    )
+  }
 
-      // Create component from template
-      const component = this.createComponentFromTemplate(template, enemyType)
-      if (component) {
-        entity.addComponent(component)
-      }
-    })
+  /**
+   * Multiplies a number (or `{ min, max }` range) field of the data an
+   * instance of the prefab gets with these overrides. Fields no template
+   * sets start from the component's default.
+   */
+  private scaleField(
+    prefab: string,
+    overrides: PrefabOverrides,
+    type: ComponentType,
+    path: string[],
+    factor: number
+  ): void {
+    const inherited = PrefabRegistry.resolve(prefab).find(
+      (template) => template.type === type
+    )
+    const data = mergeTemplateData(inherited?.data ?? {}, overrides[type] ?? {})
+    const value = readField(data, path) ?? readDefaultField(type, path)
 
-    return entity as unknown as EntityQuery
+    const scaled = scaleTemplateValue(value, factor)
+    if (scaled === undefined) return
+
+    const field = path.reduceRight<unknown>(
+      (nested, key) => ({ [key]: nested }),
+      scaled
+    ) as Record<string, unknown>
+    overrides[type] = mergeTemplateData(overrides[type] ?? {}, field)
   }
 
   /**
@@ -424,60 +500,18 @@ export class SpawnSystem extends System {
    */
   private createBoss(
     bossType: EnemyType,
-    position: Vector2,
-    spawnerId: EntityId
-  ): EntityQuery | null {
+    position: Vector2
+  ): PendingEntity | null {
     if (!this.world) return null
 
-    const entity = this.world.createEntity()
-
-    // Add transform component
-    const transform = new TransformComponent(position.x, position.y)
-    entity.addComponent(transform)
-
-    // Add health component with boss scaling
-    const baseHealth = 1000
-    const scaledHealth = this.scaleValue(
-      baseHealth,
-      bossType.scalingFactors?.health || 5
-    )
-    const health = new HealthComponent(scaledHealth)
-    entity.addComponent(health)
-
-    // Add movement component (bosses are slower)
-    const baseSpeed = 30
-    const scaledSpeed = this.scaleValue(
-      baseSpeed,
-      bossType.scalingFactors?.speed || 0.8
-    )
-    const movement = new MovementComponent(scaledSpeed)
-    entity.addComponent(movement)
-
-    // Add combat component with boss stats
-    const baseDamage = 50
-    const scaledDamage = this.scaleValue(
-      baseDamage,
-      bossType.scalingFactors?.damage || 3
-    )
-    const combat = new CombatComponent({
-      damage: scaledDamage,
-      attackSpeed: 0.5,
-      range: 100,
-      criticalChance: 0.25,
-      criticalMultiplier: 2.0,
+    const overrides = this.createOverrides(position, bossType.components)
+    this.scaleStats(BOSS_PREFAB.name, overrides, {
+      health: bossType.scalingFactors?.health ?? 5,
+      damage: bossType.scalingFactors?.damage ?? 3,
+      speed: bossType.scalingFactors?.speed ?? 0.8,
     })
-    entity.addComponent(combat)
-
-    // Add AI component with boss personality
-    const ai = new AIComponent(AIPersonality.BERSERKER)
-    ai.sightRange = 400
-    ai.attackRange = 100
-    ai.moveSpeed = 0.8
-    ai.fearLevel = 0
-    ai.aggressionLevel = 1.0
-    entity.addComponent(ai)
 
-    return entity as unknown as EntityQuery
+    return this.world.commands.instantiate(BOSS_PREFAB.name, overrides)
   }
 
   /**
@@ -500,78 +534,40 @@ export class SpawnSystem extends System {
   }
 
   /**
-   * Configures AI component based on enemy type
+   * Gets the AI tuning for an enemy type as template data
    */
-  private configureAIForType(ai: AIComponent, enemyType: EnemyType): void {
-    // Configure based on enemy type ID
-    switch (enemyType.id) {
-      case 'basic_melee':
-        ai.sightRange = 150
-        ai.attackRange = 40
-        ai.moveSpeed = 1.0
-        break
-
-      case 'basic_ranged':
-        ai.sightRange = 200
-        ai.attackRange = 150
-        ai.moveSpeed = 0.8
-        ai.preferredDistance = 120
-        break
-
-      case 'fast_scout':
-        ai.sightRange = 250
-        ai.attackRange = 30
-        ai.moveSpeed = 1.5
-        ai.curiosity = 0.8
-        break
-
-      case 'tank':
-        ai.sightRange = 100
-        ai.attackRange = 50
-        ai.moveSpeed = 0.6
-        ai.fearLevel = 0.1
-        break
-
-      case 'swarm':
-        ai.sightRange = 120
-        ai.attackRange = 30
-        ai.moveSpeed = 1.2
-        ai.loyalty = 0.9
-        break
-
-      case 'elite':
-        ai.sightRange = 200
-        ai.attackRange = 60
-        ai.moveSpeed = 1.1
-        ai.updateInterval = 50 // Faster AI updates
-        break
+  private getAITemplateForType(enemyType: EnemyType): Record<string, unknown> {
+    const templates: Record<string, Record<string, unknown>> = {
+      basic_melee: { sightRange: 150, attackRange: 40, moveSpeed: 1.0 },
+      basic_ranged: {
+        sightRange: 200,
+        attackRange: 150,
+        moveSpeed: 0.8,
+        preferredDistance: 120,
+      },
+      fast_scout: {
+        sightRange: 250,
+        attackRange: 30,
+        moveSpeed: 1.5,
+        curiosity: 0.8,
+      },
+      tank: {
+        sightRange: 100,
+        attackRange: 50,
+        moveSpeed: 0.6,
+        fearLevel: 0.1,
+      },
+      swarm: { sightRange: 120, attackRange: 30, moveSpeed: 1.2, loyalty: 0.9 },
+      // Elites get faster AI updates
+      elite: {
+        sightRange: 200,
+        attackRange: 60,
+        moveSpeed: 1.1,
+        updateInterval: 50,
+      },
     }
 
-    // Apply level-based modifiers
-    const levelModifier = 1 + (enemyType.minLevel - 1) * 0.05
-    ai.sightRange *= levelModifier
-    ai.moveSpeed *= levelModifier
-  }
-
-  /**
-   * Creates component from template
-   */
-  private createComponentFromTemplate(
-    template: any,
-    enemyType: EnemyType
-  ): any {
-    // This would create components based on template data
-    // For now, return null as we handle core components manually
-    return null
-  }
-
-  /**
-   * Scales a value based on difficulty
-   */
-  private scaleValue(baseValue: number, scalingFactor: number): number {
-    return (
-      baseValue * scalingFactor * this.currentDifficulty.difficultyMultiplier
-    )
+    return templates[enemyType.id] ?? {}
   }
 
   /**
@@ -588,20 +584,20 @@ export class SpawnSystem extends System {
     })
 
     const nearbyEntities = nearbyEntityIds
-      .map((id) => this.world?.getEntity?.(id))
+      .map((id) => this.world?.getEntity(id))
       .filter((e) => e != null)
 
-    for (const entity of nearbyEntities) {
-      const hasAI = entity.hasComponent('ai')
-      if (!hasAI) {
-        // Assume non-AI entities are players
-        return false // Too close to player
-      }
+    if (
+      nearbyEntities.some(
+        (entity) => entity.name === 'player' || entity.hasTag('player')
+      )
+    ) {
+      return false // Too close to player
     }
 
     // Check density (prevent overcrowding)
-    const nearbyEnemies = nearbyEntities.filter((e: any) =>
-      e.hasComponent('ai')
+    const nearbyEnemies = nearbyEntities.filter((entity) =>
+      entity.hasComponent('ai')
     )
     if (nearbyEnemies.length > 5) {
       return false // Too crowded
@@ -670,12 +666,14 @@ export class SpawnSystem extends System {
   /**
    * Handles entity killed event
    */
-  private handleEntityKilled(event: any): void {
-    const { entityId, killerType } = event.data
+  private handleEntityKilled(
+    event: EventOf<GameEventType.ENTITY_KILLED>
+  ): void {
+    const { entityId } = event.data
 
     // Update enemy counts
     if (this.world) {
-      const entity = this.world.getEntity?.(entityId)
+      const entity = this.world.getEntity(entityId)
       if (entity?.hasComponent('ai')) {
         this.globalEnemyCount--
         this.currentDifficulty.enemiesKilled++
@@ -692,14 +690,14 @@ export class SpawnSystem extends System {
             this.eventSystem.emit('BOSS_DEFEATED', {
               bossType,
               entityId,
-              timestamp: Date.now(),
+              timestamp: this.clock.now(),
             })
           }
         }
 
         // Update spawner counts
         this.activeSpawners.forEach((spawnerId) => {
-          const spawner = this.world!.getEntity?.(spawnerId)
+          const spawner = this.world!.getEntity(spawnerId)
           if (spawner) {
             const spawnerComponent = spawner.getComponent(
               'spawner'
@@ -714,9 +712,8 @@ export class SpawnSystem extends System {
   /**
    * Handles level up event
    */
-  private handleLevelUp(event: any): void {
-    const { level } = event.data
-    this.currentDifficulty.playerLevel = level
+  private handleLevelUp(event: EventOf<GameEventType.LEVEL_UP>): void {
+    this.currentDifficulty.playerLevel = event.data.newLevel
   }
 
   /**
@@ -730,7 +727,7 @@ export class SpawnSystem extends System {
 
       // Spawn adds for boss phase
       if (this.world) {
-        const boss = this.world.getEntity?.(entityId)
+        const boss = this.world.getEntity(entityId)
         if (boss) {
           const transform = boss.getComponent('transform') as TransformComponent
           this.spawnBossAdds(entityId, transform.position, phase)
@@ -781,7 +778,7 @@ export class SpawnSystem extends System {
         y: bossPosition.y + Math.sin(angle) * distance,
       }
 
-      this.createEnemy(addType, position, bossId)
+      this.createEnemy(addType, position)
     }
   }
 
@@ -831,3 +828,41 @@ export class SpawnSystem extends System {
     }
   }
 }
+
+/**
+ * Reads a nested field of template data
+ */
+function readField(data: Record<string, unknown>, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    data
+  )
+}
+
+/**
+ * Reads a nested field of a component type's default data
+ */
+function readDefaultField(type: ComponentType, path: string[]): unknown {
+  const component = ComponentRegistry.create(type)
+  const value = readField(component.serialize(), path)
+  ComponentRegistry.release(component)
+  return value
+}
+
+/**
+ * Multiplies a template number or range marker, returning undefined for
+ * anything else
+ */
+function scaleTemplateValue(value: unknown, factor: number): unknown {
+  if (typeof value === 'number') {
+    return value * factor
+  }
+  const range = getPrefabRange(value)
+  if (range) {
+    return { [PREFAB_RANGE_KEY]: [range[0] * factor, range[1] * factor] }
+  }
+  return undefined
+}
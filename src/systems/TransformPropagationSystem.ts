@@ -0,0 +1,107 @@
+import { System } from '../core/ECS/System'
+import type { World } from '../core/ECS/World'
+import type { Entity } from '../core/ECS/Entity'
+import type {
+  EntityQuery,
+  SystemUpdateContext,
+  ComponentType,
+  SystemName,
+  SystemPhase,
+} from '../types/CoreTypes'
+import type { TransformComponent } from '../components/Transform'
+import type { HierarchyComponent } from '../components/Hierarchy'
+
+/**
+ * Transform propagation system computes the world transform of every entity
+ * that has a parent from its parent's world transform and its own local
+ * transform. Runs after movement so children follow their parent within the
+ * same fixed step.
+ *
+ * Entities whose parent has no transform (or no longer exists) are treated
+ * as roots and keep their own transform.
+ */
+export class TransformPropagationSystem extends System {
+  readonly name = 'transformPropagation'
+  readonly requiredComponents: ComponentType[] = ['transform', 'hierarchy']
+  readonly phase: SystemPhase = 'fixedUpdate'
+  readonly runAfter: SystemName[] = ['movement']
+
+  private world: World
+
+  constructor(world: World) {
+    super()
+    this.world = world
+  }
+
+  update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+    entities.forEach((entityQuery) => {
+      const entity = this.world.getEntity(entityQuery.id)
+      if (entity && !this.getParentTransform(entity)) {
+        this.propagate(entity)
+      }
+    })
+  }
+
+  /**
+   * Updates the world transforms of all descendants of an entity
+   */
+  private propagate(parent: Entity): void {
+    const parentTransform = parent.getComponent<TransformComponent>('transform')
+    this.world.getChildren(parent.id).forEach((child) => {
+      const transform = child.getComponent<TransformComponent>('transform')
+      const hierarchy = child.getComponent<HierarchyComponent>('hierarchy')
+      if (parentTransform && transform && hierarchy) {
+        this.applyParentTransform(transform, hierarchy, parentTransform)
+      }
+      this.propagate(child)
+    })
+  }
+
+  /**
+   * Combines the parent's world transform with a child's local transform
+   */
+  private applyParentTransform(
+    transform: TransformComponent,
+    hierarchy: HierarchyComponent,
+    parent: TransformComponent
+  ): void {
+    const localX = hierarchy.localPosition.x * parent.scale.x
+    const localY = hierarchy.localPosition.y * parent.scale.y
+    const cos = Math.cos(parent.rotation)
+    const sin = Math.sin(parent.rotation)
+
+    const x = parent.position.x + localX * cos - localY * sin
+    const y = parent.position.y + localX * sin + localY * cos
+    const rotation = parent.rotation + hierarchy.localRotation
+    const scaleX = parent.scale.x * hierarchy.localScale.x
+    const scaleY = parent.scale.y * hierarchy.localScale.y
+
+    if (
+      x === transform.position.x &&
+      y === transform.position.y &&
+      rotation === transform.rotation &&
+      scaleX === transform.scale.x &&
+      scaleY === transform.scale.y
+    ) {
+      return
+    }
+
+    transform.position.x = x
+    transform.position.y = y
+    transform.rotation = rotation
+    transform.scale.x = scaleX
+    transform.scale.y = scaleY
+    transform.markChanged()
+  }
+
+  /**
+   * Gets the transform of an entity's parent, if it has one
+   */
+  private getParentTransform(entity: Entity): TransformComponent | null {
+    return (
+      this.world
+        .getParent(entity.id)
+        ?.getComponent<TransformComponent>('transform') ?? null
+    )
+  }
+}
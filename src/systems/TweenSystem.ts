@@ -0,0 +1,308 @@
+import { System } from '../core/ECS/System'
+import type { World } from '../core/ECS/World'
+import type { Entity } from '../core/ECS/Entity'
+import type { Component } from '../core/ECS/Component'
+import type { EventSystem } from '../core/EventSystem'
+import type {
+  EntityQuery,
+  SystemUpdateContext,
+  ComponentType,
+  SystemPhase,
+} from '../types/CoreTypes'
+import type { Vector2 } from '../types/GameTypes'
+import { GameEventType } from '../types/Events'
+import { Easing, type EasingName } from '../utils/Easing'
+import {
+  TweenComponent,
+  type Tween,
+  type TweenStep,
+  type TweenValue,
+  type TweenOptions,
+} from '../components/Tween'
+
+/**
+ * Options of a single-step tween started with TweenSystem.to()
+ */
+export interface TweenToOptions extends TweenOptions {
+  easing?: EasingName
+  delay?: number
+}
+
+/**
+ * The object holding a tweened property, and the property's key in it
+ */
+interface PropertyTarget {
+  component: Component
+  owner: Record<string, unknown>
+  key: string
+}
+
+/**
+ * Tween system animates numeric and Vector2 component properties over game
+ * time. Tweens are sequences of steps with an easing curve each; a tween
+ * can repeat and play back and forth (yoyo). TWEEN_COMPLETED is emitted
+ * when a tween ends.
+ *
+ * Time left over when a step ends carries into the next step, so a tween
+ * ends in the same state however the time is split into frames.
+ */
+export class TweenSystem extends System {
+  readonly name = 'tween'
+  readonly requiredComponents: ComponentType[] = ['tween']
+  readonly phase: SystemPhase = 'update'
+
+  private world: Pick<World, 'getEntity'>
+  private eventSystem?: Pick<EventSystem, 'emit'>
+
+  constructor(
+    world: Pick<World, 'getEntity'>,
+    eventSystem?: Pick<EventSystem, 'emit'>
+  ) {
+    super()
+    this.world = world
+    this.eventSystem = eventSystem
+  }
+
+  /**
+   * Animates a component property to a value and returns the tween's ID
+   */
+  to(
+    entity: Entity,
+    component: ComponentType,
+    property: string,
+    to: TweenValue,
+    duration: number,
+    options: TweenToOptions = {}
+  ): number {
+    const { easing, delay, ...tweenOptions } = options
+    return this.sequence(
+      entity,
+      [{ component, property, to, duration, easing, delay }],
+      tweenOptions
+    )
+  }
+
+  /**
+   * Plays steps one after another and returns the tween's ID. Each step
+   * starts from the property's value when the step first runs.
+   */
+  sequence(
+    entity: Entity,
+    steps: TweenStep[],
+    options: TweenOptions = {}
+  ): number {
+    if (steps.length === 0) {
+      throw new Error('Cannot start a tween without steps')
+    }
+    steps.forEach((step) => this.validateStep(entity, step))
+
+    let tweens = entity.getComponent<TweenComponent>('tween')
+    if (!tweens) {
+      tweens = new TweenComponent()
+      entity.addComponent(tweens)
+    }
+    return tweens.add(steps, options)
+  }
+
+  /**
+   * Stops a tween, leaving the property at its current value
+   */
+  stop(entity: Entity, tweenId: number): boolean {
+    return (
+      entity.getComponent<TweenComponent>('tween')?.remove(tweenId) ?? false
+    )
+  }
+
+  /**
+   * Stops every tween of an entity
+   */
+  stopAll(entity: Entity): void {
+    entity.getComponent<TweenComponent>('tween')?.clear()
+  }
+
+  update(context: SystemUpdateContext, entities: EntityQuery[]): void {
+    entities.forEach((entityQuery) => {
+      const entity = this.world.getEntity(entityQuery.id)
+      const tweens = entity?.getComponent<TweenComponent>('tween')
+      if (!entity || !tweens || tweens.tweens.length === 0) {
+        return
+      }
+
+      // Copy, so tweens started or stopped by event listeners are safe
+      tweens.tweens.slice().forEach((tween) => {
+        if (
+          tweens.has(tween.id) &&
+          this.advance(entity, tween, context.deltaTime)
+        ) {
+          tweens.remove(tween.id)
+          this.eventSystem?.emit(
+            GameEventType.TWEEN_COMPLETED,
+            { entityId: entity.id, tweenId: tween.id, name: tween.name },
+            'tween',
+            entity.id
+          )
+        }
+      })
+      tweens.markChanged()
+    })
+  }
+
+  /**
+   * Advances a tween by deltaTime. Returns true once it has ended, or when
+   * the property it animates no longer exists.
+   */
+  private advance(entity: Entity, tween: Tween, deltaTime: number): boolean {
+    let time = deltaTime
+
+    for (;;) {
+      const index = tween.reversed
+        ? tween.steps.length - 1 - tween.stepIndex
+        : tween.stepIndex
+      const step = tween.steps[index]
+      const target = this.resolve(entity, step)
+      if (!target) {
+        return true
+      }
+
+      const from = (tween.from[index] ??= copyValue(read(target)))
+      const delay = step.delay ?? 0
+      const used = Math.min(time, delay + step.duration - tween.elapsed)
+      tween.elapsed += used
+      time -= used
+
+      if (tween.elapsed >= delay) {
+        const progress = Math.min(1, (tween.elapsed - delay) / step.duration)
+        const eased = Easing[step.easing ?? 'linear'](progress)
+        write(
+          target,
+          tween.reversed
+            ? interpolate(step.to, from, eased)
+            : interpolate(from, step.to, eased)
+        )
+      }
+
+      if (tween.elapsed < delay + step.duration) {
+        return false
+      }
+
+      // The step ended; move on to the next step, pass or run
+      tween.elapsed = 0
+      tween.stepIndex++
+      if (tween.stepIndex < tween.steps.length) {
+        continue
+      }
+      tween.stepIndex = 0
+      if (tween.yoyo && !tween.reversed) {
+        tween.reversed = true
+        continue
+      }
+      tween.reversed = false
+      if (tween.repeat === 0) {
+        return true
+      }
+      if (tween.repeat > 0) {
+        tween.repeat--
+      }
+    }
+  }
+
+  /**
+   * Checks that a step animates an existing number or Vector2 property
+   * with a value of the same kind
+   */
+  private validateStep(entity: Entity, step: TweenStep): void {
+    const name = `${step.component}.${step.property}`
+    if (!(step.duration > 0)) {
+      throw new Error(`Cannot tween ${name}: duration must be greater than 0`)
+    }
+    if (
+      step.easing !== undefined &&
+      !Object.prototype.hasOwnProperty.call(Easing, step.easing)
+    ) {
+      throw new Error(`Cannot tween ${name}: unknown easing "${step.easing}"`)
+    }
+
+    const target = this.resolve(entity, step)
+    if (!target) {
+      throw new Error(
+        `Cannot tween ${name}: entity ${entity.id} has no such property`
+      )
+    }
+    const value = target.owner[target.key]
+    const isNumber = typeof step.to === 'number'
+    if (isNumber ? typeof value !== 'number' : !isVector(value)) {
+      throw new Error(
+        `Cannot tween ${name}: expected a ${isNumber ? 'number' : 'Vector2'} property`
+      )
+    }
+  }
+
+  /**
+   * Finds the object holding a step's property
+   */
+  private resolve(entity: Entity, step: TweenStep): PropertyTarget | null {
+    const component = entity.getComponent<Component>(step.component)
+    if (!component) {
+      return null
+    }
+
+    const path = step.property.split('.')
+    const key = path.pop()!
+    let owner: unknown = component
+    for (const part of path) {
+      owner = (owner as Record<string, unknown> | null)?.[part]
+      if (owner === null || typeof owner !== 'object') {
+        return null
+      }
+    }
+    if (!(key in (owner as object))) {
+      return null
+    }
+
+    return { component, owner: owner as Record<string, unknown>, key }
+  }
+}
+
+function isVector(value: unknown): value is Vector2 {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as Vector2).x === 'number' &&
+    typeof (value as Vector2).y === 'number'
+  )
+}
+
+function copyValue(value: TweenValue): TweenValue {
+  return typeof value === 'number' ? value : { x: value.x, y: value.y }
+}
+
+function read(target: PropertyTarget): TweenValue {
+  return target.owner[target.key] as TweenValue
+}
+
+/**
+ * Sets a property, updating Vector2 values in place so references to them
+ * stay valid
+ */
+function write(target: PropertyTarget, value: TweenValue): void {
+  const current = target.owner[target.key]
+  if (typeof value !== 'number' && isVector(current)) {
+    current.x = value.x
+    current.y = value.y
+  } else {
+    target.owner[target.key] = value
+  }
+  target.component.markChanged()
+}
+
+/**
+ * Interpolates between two values; t may leave [0, 1] for overshooting
+ * easing curves
+ */
+function interpolate(from: TweenValue, to: TweenValue, t: number): TweenValue {
+  if (typeof from === 'number') {
+    return from + ((to as number) - from) * t
+  }
+  const end = to as Vector2
+  return { x: from.x + (end.x - from.x) * t, y: from.y + (end.y - from.y) * t }
+}
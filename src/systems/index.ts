@@ -6,10 +6,13 @@ export {
   type ResourceDrop,
   type ShopItem,
 } from './EconomySystem'
-export { SkillSystem } from './SkillSystem'
+export { SkillSystem, type SkillSystemConfig } from './SkillSystem'
 export { AISystem, PathfindingType, type AISystemConfig } from './AISystem'
 export { SpawnSystem, type SpawnSystemConfig } from './SpawnSystem'
-export { EnemySystem } from './EnemySystem'
+export { EnemySystem, type EnemySystemConfig } from './EnemySystem'
 export { CollectionSystem } from './CollectionSystem'
 export { SimpleCollectionSystem } from './SimpleCollectionSystem'
 export { DifficultySystem } from './DifficultySystem'
+export { TransformPropagationSystem } from './TransformPropagationSystem'
+export { InputSystem, type InputSystemConfig } from './InputSystem'
+export { TweenSystem, type TweenToOptions } from './TweenSystem'
@@ -4,18 +4,57 @@
 
 export type EntityId = number
 
+declare const entityHandleBrand: unique symbol
+
+/**
+ * Generational reference to an entity (entity ID + generation). Stays
+ * invalid once the entity is destroyed, even if its ID is recycled.
+ * Branded, so a plain EntityId can't be passed where a handle is expected;
+ * create handles with createEntityHandle() or entity.handle.
+ */
+export type EntityHandle = number & { readonly [entityHandleBrand]: true }
+
 export type ComponentType = string
 
 export type SystemName = string
 
 export interface Component {
   readonly type: ComponentType
+  addedTick: number
+  changedTick: number
+  markChanged(): void
+  setChangeListener(listener: ((component: Component) => void) | null): void
   clone(): Component
   serialize(): Record<string, unknown>
   deserialize(data: Record<string, unknown>): void
+  applyTemplate(data: Record<string, unknown>): void
   reset(): void
 }
 
+export type SchemaFieldType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'vector2'
+  | 'array'
+  | 'object'
+
+/**
+ * Fields that serialized component data must contain, by type. A trailing
+ * "?" makes a field optional (it may also be null).
+ */
+export type ComponentSchema = Record<
+  string,
+  SchemaFieldType | `${SchemaFieldType}?`
+>
+
+/**
+ * Upgrades serialized component data by one version
+ */
+export type ComponentMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>
+
 export interface ComponentConstructor<T extends Component = Component> {
   readonly type: ComponentType
   new (...args: unknown[]): T
@@ -23,10 +62,40 @@ export interface ComponentConstructor<T extends Component = Component> {
 
 export type ComponentMap = Map<ComponentType, Component>
 
+/**
+ * Data for one component of a prefab, in the component's serialized format.
+ * Any `{ min, max }` number pair is replaced by a random value in that range
+ * when the prefab is instantiated.
+ */
+export interface ComponentTemplate {
+  type: ComponentType
+  data: Record<string, unknown>
+}
+
+/**
+ * Named entity template. A prefab that extends another one inherits its
+ * components and tags; templates for the same component type are merged.
+ */
+export interface Prefab {
+  name: string
+  extends?: string
+  components: ComponentTemplate[]
+  tags?: string[]
+}
+
+/**
+ * Per-instance template data keyed by component type. Types the prefab does
+ * not have are added.
+ */
+export type PrefabOverrides = Record<ComponentType, Record<string, unknown>>
+
 export interface EntitySnapshot {
   id: EntityId
-  components: Record<ComponentType, Component>
+  generation: number
+  components: Record<ComponentType, Record<string, unknown>>
   active: boolean
+  name?: string
+  tags?: string[]
 }
 
 export interface SystemSnapshot {
@@ -47,6 +116,28 @@ export interface WorldSnapshot {
   entityCount: number
   componentCount: number
   timestamp: number
+  frameCount: number
+  totalTime: number
+  fixedTime: number
+  /** State of the world's random source, restored along with the world */
+  randomState?: number
+  /** Timers of the scheduler attached to the world */
+  timers?: SchedulerSnapshot
+}
+
+export interface TimerSnapshot {
+  id: number
+  /** Name of the registered handler the timer calls */
+  handler: string
+  dueTime: number
+  /** Time between runs of a repeating timer; null for one-shot timers */
+  interval: number | null
+  data?: unknown
+}
+
+export interface SchedulerSnapshot {
+  nextId: number
+  timers: TimerSnapshot[]
 }
 
 export type EntityQuery<T extends Component = Component> = {
@@ -54,17 +145,93 @@ export type EntityQuery<T extends Component = Component> = {
   components: T
 }
 
+/**
+ * Maps component type strings to their component classes so queries can
+ * return typed components. Extend it through declaration merging to type
+ * custom components.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface ComponentTypeMap {}
+
+/**
+ * Describes which entities a query matches:
+ * - all: entities must have every one of these components
+ * - none: entities must have none of these components
+ * - any: entities must have at least one of these components
+ * - optional: included in results when present, never required
+ * - added / changed: entities must have these components, and they must
+ *   have been added / changed since the last run of the system (or since
+ *   the start of the frame for World.query())
+ * - removed: these components must have been removed from the entity in
+ *   that same window
+ */
+export interface QueryDescriptor {
+  all?: readonly ComponentType[]
+  none?: readonly ComponentType[]
+  any?: readonly ComponentType[]
+  optional?: readonly ComponentType[]
+  added?: readonly ComponentType[]
+  changed?: readonly ComponentType[]
+  removed?: readonly ComponentType[]
+}
+
+/**
+ * Phases of a frame, run in this order:
+ * - preUpdate: input and AI decisions, once per frame
+ * - fixedUpdate: physics, zero or more times per frame at a fixed step
+ * - update: general gameplay, once per frame
+ * - lateUpdate: camera, cleanup and anything reacting to the frame, once per frame
+ */
+export type SystemPhase = 'preUpdate' | 'fixedUpdate' | 'update' | 'lateUpdate'
+
+/**
+ * Source of the current game time in milliseconds
+ */
+export interface TimeSource {
+  now(): number
+}
+
+/**
+ * Source of random numbers. Seeded sources produce the same sequence on
+ * every run.
+ */
+export interface RandomSource {
+  /** Returns a number in [0, 1) */
+  next(): number
+  /** Returns a number in [min, max) */
+  range(min: number, max: number): number
+  /** Returns an integer in [min, max] */
+  int(min: number, max: number): number
+  /** Returns true with the given probability */
+  chance(probability: number): boolean
+  /** Returns a random item, or undefined for an empty list */
+  pick<T>(items: readonly T[]): T | undefined
+}
+
+/**
+ * Passed to System.update(). Contexts built by the World always include the
+ * world's clock and random source.
+ */
 export interface SystemUpdateContext {
   deltaTime: number
   totalTime: number
   frameCount: number
   timestamp?: number
+  phase?: SystemPhase
+  clock?: TimeSource
+  random?: RandomSource
 }
 
 export interface System {
   name: SystemName
   enabled: boolean
   requiredComponents: ComponentType[]
+  query?: QueryDescriptor
+  priority?: number
+  runAfter?: SystemName[]
+  runBefore?: SystemName[]
+  syncPoint?: boolean
+  phase?: SystemPhase
   update(context: SystemUpdateContext, entities: EntityQuery[]): void
   initialize?(): void
   destroy?(): void
@@ -83,6 +250,7 @@ export interface EventSystem {
 
 export interface Entity {
   readonly id: EntityId
+  readonly name: string | null
   addComponent<T extends Component>(component: T): Entity
   removeComponent(componentType: ComponentType): Entity
   getComponent<T extends Component>(componentType: ComponentType): T | null
@@ -92,6 +260,11 @@ export interface Entity {
   getComponentTypes(): ComponentType[]
   setActive(active: boolean): void
   isActive(): boolean
+  setName(name: string | null): Entity
+  addTag(tag: string): Entity
+  removeTag(tag: string): Entity
+  hasTag(tag: string): boolean
+  getTags(): string[]
   snapshot(): EntitySnapshot
   clear(): void
 }
@@ -101,4 +274,9 @@ export interface World {
   getEntity(id: EntityId): Entity | null
   removeEntity(id: EntityId): void
   createEntity(): Entity
+  getByName(name: string): Entity | null
+  getTagged(tag: string): Entity[]
+  readonly commands: {
+    destroyEntity(id: EntityId): void
+  }
 }
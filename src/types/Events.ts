@@ -7,13 +7,32 @@ import type { EntityId } from './CoreTypes'
 export interface GameEvent {
   type: string
   timestamp: number
+  /** Engine frame the event was emitted in (or after, between frames) */
+  frame?: number
   data: unknown
   source?: string
   entityId?: EntityId
 }
 
+/**
+ * An event as passed to listeners
+ */
+export type DispatchedEvent<T = unknown> = GameEvent & {
+  data: T
+  /** Stops the event from reaching listeners of lower priority */
+  stopPropagation(): void
+}
+
 export interface EventListener<T = unknown> {
-  (event: GameEvent & { data: T }): void
+  (event: DispatchedEvent<T>): void
+}
+
+export interface ListenerOptions {
+  /**
+   * Listeners with a higher priority are called first. Listeners with the
+   * same priority are called in the order they subscribed. Defaults to 0.
+   */
+  priority?: number
 }
 
 export interface EventSubscription {
@@ -29,6 +48,25 @@ export interface EventHistory {
   endTime: number
 }
 
+export interface ReplayOptions {
+  /**
+   * Selects the recorded events to re-emit: the ones that came from outside
+   * the simulation (e.g. input). Required because the replayed simulation
+   * emits its own events (world, system, combat...) again, so re-emitting
+   * them from the recording would apply them twice.
+   */
+  filter: EventFilter
+}
+
+/**
+ * Event history exported from an engine, e.g. attached to a bug report, with
+ * the seed needed to replay it
+ */
+export interface EventRecording {
+  seed: number
+  events: GameEvent[]
+}
+
 /**
  * Common game event types
  */
@@ -80,6 +118,9 @@ export enum GameEventType {
   // Spawn events
   ENEMY_SPAWNED = 'ENEMY_SPAWNED',
 
+  // Animation events
+  TWEEN_COMPLETED = 'TWEEN_COMPLETED',
+
   // Performance events
   PERFORMANCE_WARNING = 'PERFORMANCE_WARNING',
   QUALITY_ADJUSTED = 'QUALITY_ADJUSTED',
@@ -99,16 +140,44 @@ export interface EntityDestroyedEventData {
   entityId: EntityId
 }
 
+export interface EntityActivationEventData {
+  entityId: EntityId
+  active: boolean
+}
+
 export interface ComponentEventData {
   entityId: EntityId
   componentType: string
 }
 
+export interface SystemEventData {
+  systemName: string
+}
+
+export interface GameStateEventData {
+  timestamp: number
+  frameCount?: number
+}
+
 export interface DamageEventData {
   targetId: EntityId
   sourceId?: EntityId
   damage: number
+  totalDamage?: number
   damageType?: string
+  timestamp?: number
+}
+
+export interface EntityKilledEventData {
+  entityId: EntityId
+  killerId?: EntityId
+  victimType?: string
+  timestamp?: number
+}
+
+export interface HealthRestoredEventData {
+  entityId: EntityId
+  amount: number
 }
 
 export interface PositionChangedEventData {
@@ -117,18 +186,148 @@ export interface PositionChangedEventData {
   newPosition: { x: number; y: number }
 }
 
+export interface VelocityChangedEventData {
+  entityId: EntityId
+  previousVelocity: { x: number; y: number }
+  newVelocity: { x: number; y: number }
+}
+
+export interface CollisionEventData {
+  entityId: EntityId
+  otherEntityId: EntityId
+}
+
 export interface ExperienceGainedEventData {
   entityId: EntityId
   amount: number
   source: string
+  sourceDetails?: Record<string, unknown>
+  timestamp?: number
 }
 
 export interface LevelUpEventData {
   entityId: EntityId
   previousLevel: number
   newLevel: number
+  timestamp?: number
+}
+
+export interface SkillUnlockedEventData {
+  entityId: EntityId
+  skillId: string
+}
+
+export interface ItemCollectedEventData {
+  entityId: EntityId
+  itemType: string
+}
+
+export interface ResourceGainedEventData {
+  entityId: EntityId
+  resourceType: string
+  amount: number
+  source: string
+  timestamp?: number
+}
+
+export interface ResourceTransferredEventData {
+  fromEntityId: EntityId
+  toEntityId: EntityId
+  resourceType: string
+  amount: number
+  timestamp?: number
+}
+
+export interface ItemPurchasedEventData {
+  entityId: EntityId
+  itemType: string
+  cost: Record<string, number>
+  timestamp?: number
+}
+
+export interface EnemySpawnedEventData {
+  entityId: EntityId
+  enemyType: string
+  position: { x: number; y: number }
+  spawnerId?: EntityId
+  timestamp?: number
 }
 
+export interface TweenCompletedEventData {
+  entityId: EntityId
+  tweenId: number
+  name?: string
+}
+
+export interface PerformanceWarningEventData {
+  type: string
+  limit: number
+  current: number
+}
+
+export interface QualityAdjustedEventData {
+  previousQuality: string
+  newQuality: string
+}
+
+/**
+ * Payload type of each event type, used to type EventSystem.on() and emit().
+ * Custom events are typed by merging into this interface:
+ *
+ *   declare module 'vital-engine-sdk' {
+ *     interface EventMap {
+ *       BOSS_DEFEATED: { bossId: number }
+ *     }
+ *   }
+ */
+export interface EventMap {
+  ENTITY_CREATED: EntityCreatedEventData
+  ENTITY_DESTROYED: EntityDestroyedEventData
+  ENTITY_ACTIVATED: EntityActivationEventData
+  ENTITY_DEACTIVATED: EntityActivationEventData
+  COMPONENT_ADDED: ComponentEventData
+  COMPONENT_REMOVED: ComponentEventData
+  COMPONENT_UPDATED: ComponentEventData
+  SYSTEM_ADDED: SystemEventData
+  SYSTEM_REMOVED: SystemEventData
+  SYSTEM_ENABLED: SystemEventData
+  SYSTEM_DISABLED: SystemEventData
+  GAME_STARTED: GameStateEventData
+  GAME_PAUSED: GameStateEventData
+  GAME_RESUMED: GameStateEventData
+  GAME_ENDED: GameStateEventData
+  DAMAGE_DEALT: DamageEventData
+  ENTITY_KILLED: EntityKilledEventData
+  HEALTH_RESTORED: HealthRestoredEventData
+  POSITION_CHANGED: PositionChangedEventData
+  VELOCITY_CHANGED: VelocityChangedEventData
+  COLLISION_DETECTED: CollisionEventData
+  EXPERIENCE_GAINED: ExperienceGainedEventData
+  LEVEL_UP: LevelUpEventData
+  SKILL_UNLOCKED: SkillUnlockedEventData
+  ITEM_COLLECTED: ItemCollectedEventData
+  RESOURCE_GAINED: ResourceGainedEventData
+  ITEM_PURCHASED: ItemPurchasedEventData
+  RESOURCE_TRANSFERRED: ResourceTransferredEventData
+  ENEMY_SPAWNED: EnemySpawnedEventData
+  TWEEN_COMPLETED: TweenCompletedEventData
+  PERFORMANCE_WARNING: PerformanceWarningEventData
+  QUALITY_ADJUSTED: QualityAdjustedEventData
+  CUSTOM: unknown
+}
+
+/**
+ * Payload type of an event type; unknown for types missing from EventMap
+ */
+export type EventData<K extends string> = K extends keyof EventMap
+  ? EventMap[K]
+  : unknown
+
+/**
+ * An event of the given type with its payload typed from EventMap
+ */
+export type EventOf<K extends string> = DispatchedEvent<EventData<K>>
+
 export interface CollectionEvent {
   type: 'collection'
   timestamp: number
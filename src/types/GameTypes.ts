@@ -36,6 +36,19 @@ export interface EngineConfig {
   enableEventHistory?: boolean
   eventHistorySize?: number
   debug?: boolean
+  /** Emit COMPONENT_UPDATED whenever a component is marked as changed */
+  componentUpdateEvents?: boolean
+  /**
+   * Buffer events and dispatch them at the start of each frame, after each
+   * world phase, after syncPoint systems and at the end of each frame
+   * instead of inside emit()
+   */
+  queuedEvents?: boolean
+  /**
+   * Seed for the world's random source. Engines with the same seed and the
+   * same inputs run the same simulation. Defaults to the current time.
+   */
+  seed?: number
 }
 
 export interface GameConfig {
@@ -49,7 +62,42 @@ export interface InputState {
   mousePosition?: Vector2
 }
 
+/**
+ * Abstract player command. move and aim set state that is held until the
+ * next move or aim command; dash and activateSkill act once.
+ */
+export type InputCommand =
+  | { type: 'move'; x: number; y: number }
+  | { type: 'aim'; x: number; y: number }
+  | { type: 'dash' }
+  | { type: 'activateSkill'; skillId: string; target?: Vector2 }
+
+/**
+ * A command applied to a player's entities in a frame, counted from the
+ * start of the recording
+ */
+export interface RecordedInput {
+  frame: number
+  playerId: number
+  command: InputCommand
+}
+
+/**
+ * Input stream recorded by the InputSystem. Only commands are stored, so
+ * frames without input changes take no space.
+ */
+export interface InputRecording {
+  /** Number of frames recorded */
+  frames: number
+  inputs: RecordedInput[]
+}
+
 export type UpdateCallback = (deltaTime: number) => void
-export type RenderCallback = (state: GameState) => void
+/**
+ * Called once per rendered frame. alpha is how far the real time has moved
+ * from the last fixed step towards the next one (0 to 1); renderers draw
+ * lerp(previous, current, alpha).
+ */
+export type RenderCallback = (alpha: number, state: Readonly<GameState>) => void
 
 export type CollectibleType = 'experience' | 'currency' | 'health' | 'powerup' | 'item'
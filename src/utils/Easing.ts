@@ -0,0 +1,62 @@
+/**
+ * Maps progress in [0, 1] to eased progress. Curves start at 0 and end at 1
+ * but may leave the range in between (back and elastic overshoot).
+ */
+export type EasingFunction = (t: number) => number
+
+const BACK_OVERSHOOT = 1.70158
+const ELASTIC_PERIOD = (2 * Math.PI) / 3
+
+const bounceOut: EasingFunction = (t) => {
+  if (t < 1 / 2.75) {
+    return 7.5625 * t * t
+  }
+  if (t < 2 / 2.75) {
+    t -= 1.5 / 2.75
+    return 7.5625 * t * t + 0.75
+  }
+  if (t < 2.5 / 2.75) {
+    t -= 2.25 / 2.75
+    return 7.5625 * t * t + 0.9375
+  }
+  t -= 2.625 / 2.75
+  return 7.5625 * t * t + 0.984375
+}
+
+/**
+ * Standard easing curves, by name
+ */
+export const Easing = {
+  linear: (t: number): number => t,
+
+  easeInQuad: (t: number): number => t * t,
+  easeOutQuad: (t: number): number => t * (2 - t),
+  easeInOutQuad: (t: number): number =>
+    t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+  easeInCubic: (t: number): number => t * t * t,
+  easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number): number =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+  easeInSine: (t: number): number => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: (t: number): number => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2,
+
+  easeInBack: (t: number): number =>
+    (BACK_OVERSHOOT + 1) * t * t * t - BACK_OVERSHOOT * t * t,
+  easeOutBack: (t: number): number =>
+    1 +
+    (BACK_OVERSHOOT + 1) * Math.pow(t - 1, 3) +
+    BACK_OVERSHOOT * Math.pow(t - 1, 2),
+
+  easeOutElastic: (t: number): number =>
+    t === 0 || t === 1
+      ? t
+      : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC_PERIOD) + 1,
+
+  easeInBounce: (t: number): number => 1 - bounceOut(1 - t),
+  easeOutBounce: bounceOut,
+}
+
+export type EasingName = keyof typeof Easing
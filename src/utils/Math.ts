@@ -1,4 +1,6 @@
 import type { Vector2, Circle, Rectangle } from '../types/GameTypes'
+import type { RandomSource } from '../types/CoreTypes'
+import { unseededRandom } from './Random'
 
 export type { Vector2, Circle, Rectangle }
 
@@ -203,12 +205,20 @@ export class MathUtils {
     return degrees * (Math.PI / 180)
   }
 
-  static randomRange(min: number, max: number): number {
-    return Math.random() * (max - min) + min
+  static randomRange(
+    min: number,
+    max: number,
+    random: RandomSource = unseededRandom
+  ): number {
+    return random.range(min, max)
   }
 
-  static randomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min
+  static randomInt(
+    min: number,
+    max: number,
+    random: RandomSource = unseededRandom
+  ): number {
+    return random.int(min, max)
   }
 
   static isPowerOfTwo(value: number): boolean {
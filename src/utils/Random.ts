@@ -0,0 +1,79 @@
+import type { RandomSource } from '../types/CoreTypes'
+
+/**
+ * Seeded pseudo-random number generator (mulberry32). Two generators with
+ * the same seed produce the same sequence, and the state can be saved and
+ * restored to continue a sequence.
+ */
+export class Random implements RandomSource {
+  private state: number
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Returns a number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Returns a number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Returns an integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Returns a random item, or undefined for an empty list
+   */
+  pick<T>(items: readonly T[]): T | undefined {
+    return items.length > 0 ? items[this.int(0, items.length - 1)] : undefined
+  }
+
+  /**
+   * Gets the generator state
+   */
+  getState(): number {
+    return this.state
+  }
+
+  /**
+   * Sets the generator state, e.g. one saved with getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0
+  }
+}
+
+/**
+ * Random source backed by Math.random(). Used by systems that run outside
+ * of a World.
+ */
+class MathRandom extends Random {
+  next(): number {
+    return Math.random()
+  }
+}
+
+export const unseededRandom: RandomSource = new MathRandom()
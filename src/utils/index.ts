@@ -1,4 +1,6 @@
 export { Vector2Math, CollisionDetection, MathUtils } from './Math'
+export { Random, unseededRandom } from './Random'
+export { Easing, type EasingName, type EasingFunction } from './Easing'
 export {
   ObjectPool,
   PoolManager,
@@ -0,0 +1,157 @@
+import { World } from '@/core/ECS/World'
+import { ComponentRegistry } from '@/core/ECS/Component'
+import { encodeSnapshot, decodeSnapshot } from '@/core/ECS/BinarySnapshot'
+import { Scheduler } from '@/core/Scheduler'
+import {
+  BUILTIN_COMPONENTS,
+  registerBuiltinComponents,
+  TransformComponent,
+  HealthComponent,
+  TweenComponent,
+  CollectibleType,
+} from '@/components'
+import type { WorldSnapshot } from '@/types/CoreTypes'
+
+/** Arguments for the built-in components that need them to be valid */
+const constructorArgs: Record<string, unknown[]> = {
+  spawner: [{ center: { x: 0, y: 0 }, radius: 50 }],
+  collectible: [CollectibleType.EXPERIENCE],
+}
+
+/** What the snapshot looks like after a trip through JSON */
+function viaJson(snapshot: WorldSnapshot): WorldSnapshot {
+  return JSON.parse(JSON.stringify(snapshot)) as WorldSnapshot
+}
+
+describe('Binary snapshots', () => {
+  let world: World
+
+  beforeEach(() => {
+    ComponentRegistry.clear()
+    registerBuiltinComponents()
+    world = new World({ seed: 7 })
+  })
+
+  afterEach(() => {
+    ComponentRegistry.clear()
+  })
+
+  test('should round-trip every built-in component', () => {
+    const entity = world.createEntity()
+    Object.entries(BUILTIN_COMPONENTS).forEach(([type, componentClass]) => {
+      entity.addComponent(new componentClass(...(constructorArgs[type] ?? [])))
+    })
+    entity.setName('everything')
+    entity.addTag('boss')
+    entity.addTag('elite')
+
+    const transform = entity.getComponent<TransformComponent>('transform')!
+    transform.setPosition(-12.75, 1e-7)
+    transform.rotation = Math.PI
+    entity.getComponent<HealthComponent>('health')!.takeDamage(33.3, 0)
+    entity.getComponent<TweenComponent>('tween')!.add([
+      {
+        component: 'transform',
+        property: 'scale',
+        to: { x: 2, y: 2 },
+        duration: 100,
+      },
+    ])
+
+    const inactive = world.createEntity()
+    inactive.addComponent(new TransformComponent(1, 2))
+    inactive.setActive(false)
+    world.update(16)
+
+    const snapshot = world.snapshot()
+    const decoded = decodeSnapshot(encodeSnapshot(snapshot))
+
+    expect(decoded).toEqual(viaJson(snapshot))
+    expect(World.fromSnapshot(decoded).snapshot()).toEqual(snapshot)
+  })
+
+  test('should keep timers, negative and large numbers and unicode strings', () => {
+    const scheduler = new Scheduler(world.clock)
+    scheduler.registerHandler('spawn', () => undefined)
+    world.setScheduler(scheduler)
+    scheduler.every(250, 'spawn', { wave: -3, label: 'ñandú 🐉' })
+
+    const entity = world.createEntity()
+    entity.addComponent(new HealthComponent(Number.MAX_SAFE_INTEGER))
+    entity.setName('')
+
+    const snapshot = world.snapshot()
+    const decoded = decodeSnapshot(encodeSnapshot(snapshot))
+
+    expect(decoded).toEqual(viaJson(snapshot))
+    expect(decoded.timers!.timers[0].data).toEqual({
+      wave: -3,
+      label: 'ñandú 🐉',
+    })
+    expect(decoded.entities[0].name).toBe('')
+  })
+
+  test('should be much smaller than JSON', () => {
+    for (let i = 0; i < 200; i++) {
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(i * 1.5, -i))
+      entity.addComponent(new HealthComponent(100))
+    }
+    const snapshot = world.snapshot()
+
+    const json = new TextEncoder().encode(JSON.stringify(snapshot)).length
+    expect(encodeSnapshot(snapshot).length).toBeLessThan(json / 3)
+  })
+
+  test('should store floats at the chosen precision', () => {
+    world
+      .createEntity()
+      .addComponent(new TransformComponent(0.1234567891, -2.5))
+    const snapshot = world.snapshot()
+    const position = (bytes: Uint8Array): { x: number; y: number } =>
+      decodeSnapshot(bytes).entities[0].components.transform.position as {
+        x: number
+        y: number
+      }
+
+    const exact = encodeSnapshot(snapshot)
+    const float32 = encodeSnapshot(snapshot, { floats: 'float32' })
+    const quantized = encodeSnapshot(snapshot, {
+      floats: 'quantized',
+      quantizationStep: 0.01,
+    })
+
+    expect(position(exact)).toEqual({ x: 0.1234567891, y: -2.5 })
+    expect(position(float32).x).toBe(Math.fround(0.1234567891))
+    expect(position(quantized)).toEqual({ x: 0.12, y: -2.5 })
+    expect(float32.length).toBeLessThan(exact.length)
+    expect(quantized.length).toBeLessThan(float32.length)
+  })
+
+  test('should keep NaN and Infinity, which JSON turns into null', () => {
+    const entity = world.createEntity()
+    entity.addComponent(new TransformComponent(Infinity, -Infinity))
+    entity.getComponent<TransformComponent>('transform')!.rotation = NaN
+
+    const transform = decodeSnapshot(encodeSnapshot(world.snapshot()))
+      .entities[0].components.transform
+
+    expect(transform.position).toEqual({ x: Infinity, y: -Infinity })
+    expect(transform.rotation).toBeNaN()
+  })
+
+  test('should reject invalid options and data', () => {
+    const snapshot = world.snapshot()
+    const bytes = encodeSnapshot(snapshot)
+
+    expect(() =>
+      encodeSnapshot(snapshot, { floats: 'quantized', quantizationStep: 0 })
+    ).toThrow('Quantization step must be greater than 0')
+    expect(() => decodeSnapshot(new TextEncoder().encode('{}'))).toThrow(
+      'Cannot decode binary snapshot: not a binary world snapshot'
+    )
+    expect(() => decodeSnapshot(bytes.subarray(0, bytes.length - 1))).toThrow(
+      'Cannot decode binary snapshot: unexpected end of data'
+    )
+  })
+})
@@ -0,0 +1,236 @@
+import {
+  Component,
+  ComponentRegistry,
+  COMPONENT_VERSION_KEY,
+} from '@/core/ECS/Component'
+import {
+  BUILTIN_COMPONENTS,
+  registerBuiltinComponents,
+  MagnetComponent,
+  SkillsComponent,
+  TransformComponent,
+  CollectibleType,
+} from '@/components'
+import type { ComponentSchema } from '@/types/CoreTypes'
+
+/**
+ * Version 3 of a shield: version 1 stored `hp`, version 2 renamed it to
+ * `strength` and version 3 added `color`
+ */
+class ShieldComponent extends Component {
+  static readonly version = 3
+  static readonly schema: ComponentSchema = {
+    strength: 'number',
+    color: 'string',
+    offset: 'vector2?',
+  }
+
+  readonly type = 'shield'
+  strength = 0
+  color = 'blue'
+
+  serialize(): Record<string, unknown> {
+    return { strength: this.strength, color: this.color }
+  }
+
+  deserialize(data: Record<string, unknown>): void {
+    this.strength = data.strength as number
+    this.color = data.color as string
+  }
+
+  clone(): ShieldComponent {
+    const shield = new ShieldComponent()
+    shield.deserialize(this.serialize())
+    return shield
+  }
+}
+
+/** Arguments for the built-in components that need them to be valid */
+const constructorArgs: Record<string, unknown[]> = {
+  spawner: [{ center: { x: 0, y: 0 }, radius: 50 }],
+  collectible: [CollectibleType.EXPERIENCE],
+}
+
+describe('ComponentRegistry', () => {
+  beforeEach(() => {
+    ComponentRegistry.clear()
+    ComponentRegistry.register(
+      'shield',
+      ShieldComponent as unknown as new (...args: unknown[]) => Component
+    )
+    ComponentRegistry.registerMigration('shield', 1, ({ hp, ...data }) => ({
+      ...data,
+      strength: hp,
+    }))
+    ComponentRegistry.registerMigration('shield', 2, (data) => ({
+      ...data,
+      color: 'blue',
+    }))
+  })
+
+  afterEach(() => {
+    ComponentRegistry.clear()
+  })
+
+  describe('versions', () => {
+    test('should save the schema version with serialized data', () => {
+      const shield = new ShieldComponent()
+      shield.strength = 5
+
+      expect(ComponentRegistry.serialize(shield)).toEqual({
+        strength: 5,
+        color: 'blue',
+        [COMPONENT_VERSION_KEY]: 3,
+      })
+    })
+
+    test('should round-trip data of the current version', () => {
+      const shield = ComponentRegistry.create('shield', {
+        strength: 7,
+        color: 'red',
+        [COMPONENT_VERSION_KEY]: 3,
+      }) as ShieldComponent
+
+      expect(shield.serialize()).toEqual({ strength: 7, color: 'red' })
+    })
+
+    test('should migrate older data step by step', () => {
+      const migrated = ComponentRegistry.migrate('shield', {
+        hp: 40,
+        [COMPONENT_VERSION_KEY]: 1,
+      })
+
+      expect(migrated).toEqual({
+        strength: 40,
+        color: 'blue',
+        [COMPONENT_VERSION_KEY]: 3,
+      })
+    })
+
+    test('should treat data without a version as version 1', () => {
+      const shield = ComponentRegistry.create('shield', {
+        hp: 12,
+      }) as ShieldComponent
+
+      expect(shield.strength).toBe(12)
+    })
+
+    test('should reject data it cannot migrate', () => {
+      expect(() =>
+        ComponentRegistry.create('shield', { [COMPONENT_VERSION_KEY]: 4 })
+      ).toThrow(
+        'Cannot load "shield" component data of version 4: the latest version is 3'
+      )
+
+      ComponentRegistry.clear()
+      ComponentRegistry.register(
+        'shield',
+        ShieldComponent as unknown as new (...args: unknown[]) => Component
+      )
+      expect(() => ComponentRegistry.create('shield', { hp: 1 })).toThrow(
+        'Cannot migrate "shield" component data from version 1: no migration is registered'
+      )
+    })
+
+    test('should reject a second migration from the same version', () => {
+      expect(() =>
+        ComponentRegistry.registerMigration('shield', 1, (data) => data)
+      ).toThrow(
+        'A migration of component type "shield" from version 1 is already registered'
+      )
+    })
+  })
+
+  describe('schemas', () => {
+    test('should name missing fields', () => {
+      expect(() =>
+        ComponentRegistry.create('shield', {
+          color: 'red',
+          [COMPONENT_VERSION_KEY]: 3,
+        })
+      ).toThrow('Invalid "shield" component data: field "strength" is missing')
+    })
+
+    test('should name fields of the wrong type', () => {
+      expect(() =>
+        ComponentRegistry.create('shield', {
+          strength: '10',
+          color: 'red',
+          [COMPONENT_VERSION_KEY]: 3,
+        })
+      ).toThrow(
+        'Invalid "shield" component data: field "strength" must be of type number, got string'
+      )
+      expect(() =>
+        ComponentRegistry.create('shield', {
+          strength: 10,
+          color: 'red',
+          offset: { x: 1 },
+          [COMPONENT_VERSION_KEY]: 3,
+        })
+      ).toThrow(
+        'Invalid "shield" component data: field "offset" must be of type vector2, got object'
+      )
+    })
+
+    test('should accept missing and null optional fields', () => {
+      expect(() =>
+        ComponentRegistry.create('shield', {
+          strength: 10,
+          color: 'red',
+          offset: null,
+          [COMPONENT_VERSION_KEY]: 3,
+        })
+      ).not.toThrow()
+    })
+
+    test('should validate built-in components with schemas', () => {
+      ComponentRegistry.register(
+        'skills',
+        SkillsComponent as unknown as new (...args: unknown[]) => Component
+      )
+      ComponentRegistry.register(
+        'magnet',
+        MagnetComponent as unknown as new (...args: unknown[]) => Component
+      )
+      const skills = ComponentRegistry.serialize(new SkillsComponent(3))
+      const magnet = ComponentRegistry.serialize(new MagnetComponent())
+
+      expect(() => ComponentRegistry.create('skills', skills)).not.toThrow()
+      expect(() => ComponentRegistry.create('magnet', magnet)).not.toThrow()
+
+      delete skills.selectedSkills
+      expect(() => ComponentRegistry.create('skills', skills)).toThrow(
+        'field "selectedSkills" is missing'
+      )
+      expect(() =>
+        ComponentRegistry.create('magnet', { ...magnet, stats: [] })
+      ).toThrow('field "stats" must be of type object, got array')
+    })
+
+    test('should give every built-in component a schema that fits its data', () => {
+      registerBuiltinComponents()
+
+      Object.entries(BUILTIN_COMPONENTS).forEach(([type, componentClass]) => {
+        const data = ComponentRegistry.serialize(
+          new componentClass(...(constructorArgs[type] ?? []))
+        )
+        expect(() => ComponentRegistry.create(type, data)).not.toThrow()
+        expect(() => ComponentRegistry.create(type, {})).toThrow('is missing')
+      })
+
+      const transform = ComponentRegistry.serialize(
+        new TransformComponent(1, 2)
+      )
+      expect(() =>
+        ComponentRegistry.create('transform', { ...transform, rotation: null })
+      ).toThrow('field "rotation" must be of type number, got null')
+      expect(() =>
+        ComponentRegistry.create('transform', {
+          ...transform,
+          position: { x: 1 },
+        })
+      ).toThrow('field "position" must be of type vector2, got object')
+    })
+  })
+})
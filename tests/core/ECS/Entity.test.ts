@@ -106,6 +106,27 @@ describe('Entity', () => {
     expect(entity.isActive()).toBe(false)
   })
 
+  test('should manage tags and name', () => {
+    const entity = new Entity()
+
+    entity.addTag('enemy').addTag('boss').addTag('enemy')
+    entity.setName('dragon')
+    expect(entity.getTags()).toEqual(['enemy', 'boss'])
+    expect(entity.hasTag('boss')).toBe(true)
+    expect(entity.name).toBe('dragon')
+
+    entity.removeTag('boss')
+    expect(entity.hasTag('boss')).toBe(false)
+
+    const snapshot = entity.snapshot()
+    expect(snapshot.name).toBe('dragon')
+    expect(snapshot.tags).toEqual(['enemy'])
+
+    entity.reset()
+    expect(entity.name).toBeNull()
+    expect(entity.getTags()).toEqual([])
+  })
+
   test('should create snapshot', () => {
     const entity = new Entity()
     const component = new TestComponent(123)
@@ -116,8 +137,8 @@ describe('Entity', () => {
     
     expect(snapshot.id).toBe(entity.id)
     expect(snapshot.active).toBe(false)
-    expect(snapshot.components.test).toBeDefined()
-    expect(snapshot.components.test).not.toBe(component) // Should be cloned
+    expect(snapshot.components.test).toEqual({ value: 123, $version: 1 }) // Serialized data, with its schema version
+    expect(snapshot.components.test).not.toBe(component)
   })
 
   test('should clear all components', () => {
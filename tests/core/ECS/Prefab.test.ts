@@ -0,0 +1,256 @@
+import { World, ComponentRegistry, PrefabRegistry } from '@/core/ECS'
+import {
+  TransformComponent,
+  HealthComponent,
+  CombatComponent,
+  AIComponent,
+  AIPersonality,
+  DifficultyComponent,
+  registerBuiltinComponents,
+} from '@/components'
+import { BASIC_ENEMIES } from '@/config/EnemyConfig'
+import { ENEMY_PREFAB, registerDefaultPrefabs } from '@/config/PrefabConfig'
+import type { Component } from '@/core/ECS'
+
+const findComponent = <T extends Component>(
+  components: Component[],
+  type: string
+): T => components.find((component) => component.type === type) as T
+
+describe('PrefabRegistry', () => {
+  beforeEach(() => {
+    ComponentRegistry.clear()
+    PrefabRegistry.clear()
+    registerBuiltinComponents()
+
+    PrefabRegistry.register({
+      name: 'grunt',
+      components: [
+        { type: 'transform', data: {} },
+        { type: 'health', data: { maximum: 50 } },
+        {
+          type: 'combat',
+          data: { weapon: { damage: 5, range: 30, attackSpeed: 1 } },
+        },
+      ],
+      tags: ['enemy'],
+    })
+  })
+
+  test('should reject duplicate prefab names', () => {
+    expect(() =>
+      PrefabRegistry.register({ name: 'grunt', components: [] })
+    ).toThrow('Prefab "grunt" is already registered')
+  })
+
+  test('should build components from templates', () => {
+    const components = PrefabRegistry.createComponents('grunt')
+
+    expect(components.map((component) => component.type)).toEqual([
+      'transform',
+      'health',
+      'combat',
+    ])
+    const health = findComponent<HealthComponent>(components, 'health')
+    expect(health).toBeInstanceOf(HealthComponent)
+    expect(health.maximum).toBe(50)
+    expect(health.current).toBe(50)
+    expect(findComponent<CombatComponent>(components, 'combat').weapon).toEqual(
+      expect.objectContaining({ damage: 5, range: 30, attackSpeed: 1 })
+    )
+  })
+
+  test('should merge inherited templates and tags', () => {
+    PrefabRegistry.register({
+      name: 'veteran',
+      extends: 'grunt',
+      components: [
+        { type: 'combat', data: { weapon: { damage: 9 } } },
+        { type: 'movement', data: { maxSpeed: 70 } },
+      ],
+      tags: ['elite'],
+    })
+
+    const templates = PrefabRegistry.resolve('veteran')
+    expect(templates.map((template) => template.type)).toEqual([
+      'transform',
+      'health',
+      'combat',
+      'movement',
+    ])
+    expect(templates[2].data).toEqual({
+      weapon: { damage: 9, range: 30, attackSpeed: 1 },
+    })
+    expect(PrefabRegistry.getTags('veteran')).toEqual(['enemy', 'elite'])
+  })
+
+  test('should resolve ranges with the given random source', () => {
+    PrefabRegistry.register({
+      name: 'random',
+      components: [
+        { type: 'health', data: { maximum: { $range: [100, 200] } } },
+      ],
+    })
+
+    const low = PrefabRegistry.createComponents('random', {}, () => 0)
+    const high = PrefabRegistry.createComponents('random', {}, () => 0.5)
+
+    expect(findComponent<HealthComponent>(low, 'health').maximum).toBe(100)
+    expect(findComponent<HealthComponent>(high, 'health').maximum).toBe(150)
+  })
+
+  test('should keep data fields shaped like a range', () => {
+    PrefabRegistry.register({
+      name: 'tuned',
+      components: [
+        {
+          type: 'difficulty',
+          data: {
+            adaptiveSettings: {
+              targetPerformanceRange: { min: 0.5, max: 0.9 },
+            },
+          },
+        },
+      ],
+    })
+
+    const components = PrefabRegistry.createComponents('tuned', {}, () => 0.5)
+
+    expect(
+      findComponent<DifficultyComponent>(components, 'difficulty')
+        .adaptiveSettings.targetPerformanceRange
+    ).toEqual({ min: 0.5, max: 0.9 })
+  })
+
+  test('should apply overrides and add missing components', () => {
+    const components = PrefabRegistry.createComponents('grunt', {
+      transform: { position: { x: 10, y: 20 } },
+      health: { maximum: 80 },
+      experience: { level: 3 },
+    })
+
+    expect(
+      findComponent<TransformComponent>(components, 'transform').position
+    ).toEqual({ x: 10, y: 20 })
+    expect(findComponent<HealthComponent>(components, 'health').maximum).toBe(
+      80
+    )
+    expect(components.map((component) => component.type)).toContain(
+      'experience'
+    )
+  })
+
+  test('should derive AI traits from the personality', () => {
+    PrefabRegistry.register({
+      name: 'coward',
+      components: [
+        {
+          type: 'ai',
+          data: { personality: AIPersonality.COWARD, curiosity: 0.9 },
+        },
+      ],
+    })
+
+    const ai = findComponent<AIComponent>(
+      PrefabRegistry.createComponents('coward'),
+      'ai'
+    )
+
+    expect(ai.personality).toBe(AIPersonality.COWARD)
+    expect(ai.fearLevel).toBe(0.8)
+    expect(ai.curiosity).toBe(0.9)
+  })
+
+  test('should report unknown prefabs, unregistered types and cycles', () => {
+    expect(() => PrefabRegistry.createComponents('missing')).toThrow(
+      'Unknown prefab: missing'
+    )
+
+    PrefabRegistry.register({
+      name: 'custom',
+      components: [{ type: 'unregistered', data: {} }],
+    })
+    expect(() => PrefabRegistry.createComponents('custom')).toThrow(
+      'component type "unregistered" is not registered'
+    )
+
+    PrefabRegistry.register({ name: 'a', extends: 'b', components: [] })
+    PrefabRegistry.register({ name: 'b', extends: 'a', components: [] })
+    expect(() => PrefabRegistry.resolve('a')).toThrow(
+      'Prefab inheritance cycle detected: a -> b -> a'
+    )
+  })
+
+  describe('instantiation', () => {
+    test('should instantiate entities in a world', () => {
+      const world = new World()
+
+      const entity = world.instantiate('grunt', {
+        transform: { position: { x: 5, y: 6 } },
+      })
+
+      expect(entity.getComponentTypes()).toEqual([
+        'transform',
+        'health',
+        'combat',
+      ])
+      expect(entity.getComponent<TransformComponent>('transform')?.position)
+        .toEqual({ x: 5, y: 6 })
+      expect(world.getTagged('enemy')).toEqual([entity])
+    })
+
+    test('should not create an entity for an unknown prefab', () => {
+      const world = new World()
+
+      expect(() => world.instantiate('missing')).toThrow()
+      expect(world.getAllEntities()).toHaveLength(0)
+    })
+
+    test('should queue instances through the command buffer', () => {
+      const world = new World()
+
+      const pending = world.commands.instantiate('grunt')
+      expect(world.getEntity(pending.id)).toBeNull()
+
+      world.commands.flush()
+      const entity = world.getEntity(pending.id)
+      expect(entity?.hasComponent('health')).toBe(true)
+      expect(entity?.hasTag('enemy')).toBe(true)
+    })
+
+    test('should return destroyed instances to the pools', () => {
+      const world = new World()
+      PrefabRegistry.register({
+        name: 'thinker',
+        components: [{ type: 'ai', data: {} }],
+      })
+
+      const entity = world.instantiate('thinker')
+      expect(() => world.destroyEntity(entity.id)).not.toThrow()
+      expect(world.instantiate('thinker').hasComponent('ai')).toBe(true)
+    })
+  })
+
+  describe('enemy configuration', () => {
+    test('should build every basic enemy type on top of the enemy prefab', () => {
+      registerDefaultPrefabs()
+      BASIC_ENEMIES.forEach((enemyType) => {
+        PrefabRegistry.register({
+          name: enemyType.id,
+          extends: ENEMY_PREFAB.name,
+          components: enemyType.components,
+        })
+      })
+
+      const melee = new World().instantiate('basic_melee')
+      const weapon = melee.getComponent<CombatComponent>('combat')!.weapon
+
+      expect(weapon.damage).toBeGreaterThanOrEqual(8)
+      expect(weapon.damage).toBeLessThanOrEqual(12)
+      expect(weapon.range).toBe(40)
+      expect(melee.getComponent<HealthComponent>('health')?.maximum).toBe(100)
+      expect(melee.hasComponent('ai')).toBe(true)
+      expect(melee.hasTag('enemy')).toBe(true)
+    })
+  })
+})
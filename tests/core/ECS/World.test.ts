@@ -0,0 +1,1077 @@
+import {
+  World,
+  Entity,
+  System,
+  ComponentRegistry,
+  createEntityHandle,
+  getHandleId,
+  getHandleGeneration,
+} from '@/core/ECS'
+import { EventSystem } from '@/core/EventSystem'
+import { Engine } from '@/core/Engine'
+import {
+  TransformComponent,
+  HealthComponent,
+  MovementComponent,
+  CombatComponent,
+  ExperienceComponent,
+  InventoryComponent,
+  SkillsComponent,
+  AIComponent,
+  EnemyAIComponent,
+  SpawnerComponent,
+  CollectibleComponent,
+  CollectibleType,
+  MagnetComponent,
+  DifficultyComponent,
+  HierarchyComponent,
+  registerBuiltinComponents,
+} from '@/components'
+import type {
+  WorldSnapshot,
+  SystemName,
+  SystemUpdateContext,
+  SystemPhase,
+  EntityQuery,
+  EntityId,
+} from '@/types/CoreTypes'
+import type { ComponentEventData, GameEvent } from '@/types/Events'
+
+class OrderedSystem extends System {
+  readonly requiredComponents = []
+
+  constructor(
+    readonly name: SystemName,
+    private log: SystemName[],
+    options: {
+      priority?: number
+      runAfter?: SystemName[]
+      runBefore?: SystemName[]
+      phase?: SystemPhase
+    } = {}
+  ) {
+    super()
+    Object.assign(this, options)
+  }
+
+  contexts: SystemUpdateContext[] = []
+
+  update(context: SystemUpdateContext): void {
+    this.log.push(this.name)
+    this.contexts.push(context)
+  }
+}
+
+describe('World', () => {
+  beforeEach(() => {
+    ComponentRegistry.clear()
+    Entity.resetIdCounter()
+    registerBuiltinComponents()
+  })
+
+  describe('entity handles', () => {
+    test('should resolve handles of live entities', () => {
+      const world = new World()
+      const entity = world.createEntity()
+
+      expect(world.isAlive(entity.handle)).toBe(true)
+      expect(world.resolve(entity.handle)).toBe(entity)
+    })
+
+    test('should not resolve a stale handle after its id is recycled', () => {
+      const world = new World()
+      const original = world.createEntity()
+      const staleHandle = original.handle
+      const originalId = original.id
+
+      world.destroyEntity(originalId)
+      const replacement = world.createEntity()
+
+      expect(replacement.id).toBe(originalId)
+      expect(replacement.handle).not.toBe(staleHandle)
+      expect(world.isAlive(staleHandle)).toBe(false)
+      expect(world.resolve(staleHandle)).toBeNull()
+      expect(world.resolve(replacement.handle)).toBe(replacement)
+    })
+
+    test('should encode id and generation in a handle', () => {
+      expect(getHandleId(createEntityHandle(42, 3))).toBe(42)
+      expect(getHandleGeneration(createEntityHandle(42, 3))).toBe(3)
+      expect(createEntityHandle(42, 0)).toBe(42)
+    })
+
+    test('should keep generations across snapshot and restore', () => {
+      const world = new World()
+      const first = world.createEntity()
+      world.destroyEntity(first.id)
+      const recycled = world.createEntity()
+      const handle = recycled.handle
+
+      const restored = World.fromSnapshot(world.snapshot())
+
+      expect(restored.resolve(handle)).not.toBeNull()
+      expect(restored.isAlive(createEntityHandle(recycled.id, 0))).toBe(false)
+    })
+
+    test('should not accept a plain entity id as a handle', () => {
+      const world = new World()
+      const entity = world.createEntity()
+
+      // @ts-expect-error EntityId is not an EntityHandle
+      expect(world.resolve(entity.id)).toBe(entity)
+      expect(world.resolve(entity.handle)).toBe(entity)
+    })
+  })
+
+  describe('queries', () => {
+    test('should track component changes made after creation', () => {
+      const world = new World()
+      const entity = world.createEntity()
+
+      expect(world.getEntitiesWithComponents(['transform'])).toEqual([])
+
+      entity.addComponent(new TransformComponent())
+      expect(world.getEntitiesWithComponents(['transform'])).toEqual([entity])
+
+      entity.removeComponent('transform')
+      expect(world.getEntitiesWithComponents(['transform'])).toEqual([])
+    })
+
+    test('should exclude inactive and destroyed entities', () => {
+      const world = new World()
+      const inactive = world.createEntity()
+      inactive.addComponent(new HealthComponent())
+      const destroyed = world.createEntity()
+      destroyed.addComponent(new HealthComponent())
+      const live = world.createEntity()
+      live.addComponent(new HealthComponent())
+
+      inactive.setActive(false)
+      world.destroyEntity(destroyed.id)
+
+      expect(world.getEntitiesWithComponents(['health'])).toEqual([live])
+
+      inactive.setActive(true)
+      expect(world.getEntitiesWithComponents(['health'])).toHaveLength(2)
+    })
+
+    test('should exclude entities with a none component', () => {
+      const world = new World()
+      const alive = world.createEntity()
+      alive.addComponent(new HealthComponent())
+      const collectible = world.createEntity()
+      collectible.addComponent(new HealthComponent())
+      collectible.addComponent(new CollectibleComponent(CollectibleType.EXPERIENCE))
+
+      const rows = world.query({ all: ['health'], none: ['collectible'] })
+      expect(rows.map(([entity]) => entity)).toEqual([alive])
+
+      collectible.removeComponent('collectible')
+      expect(
+        world.query({ all: ['health'], none: ['collectible'] })
+      ).toHaveLength(2)
+    })
+
+    test('should require at least one any component', () => {
+      const world = new World()
+      const player = world.createEntity()
+      player.addComponent(new AIComponent())
+      const enemy = world.createEntity()
+      enemy.addComponent(new EnemyAIComponent())
+      world.createEntity().addComponent(new TransformComponent())
+
+      const rows = world.query({ any: ['ai', 'enemyAI'] })
+
+      expect(rows).toHaveLength(2)
+      const [, ai, enemyAI] = rows[0]
+      expect(ai).toBe(player.getComponent('ai'))
+      expect(enemyAI).toBeNull()
+    })
+
+    test('should return null for absent optional components', () => {
+      const world = new World()
+      const withHealth = world.createEntity()
+      withHealth.addComponent(new TransformComponent())
+      withHealth.addComponent(new HealthComponent(50))
+      const withoutHealth = world.createEntity()
+      withoutHealth.addComponent(new TransformComponent())
+
+      const rows = world.query({ all: ['transform'], optional: ['health'] })
+
+      expect(rows).toHaveLength(2)
+      expect(rows[0][2]?.maximum).toBe(50)
+      expect(rows[1][2]).toBeNull()
+    })
+
+    test('should return typed component tuples', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(3, 4))
+      entity.addComponent(new MovementComponent(120))
+
+      for (const [row, transform, movement] of world.query({
+        all: ['transform', 'movement'],
+      })) {
+        expect(row).toBe(entity)
+        expect(transform.position).toEqual({ x: 3, y: 4 })
+        expect(movement.maxSpeed).toBe(120)
+      }
+    })
+
+    test('should order rows by the descriptor regardless of earlier queries', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      const transform = new TransformComponent()
+      const movement = new MovementComponent()
+      entity.addComponent(transform)
+      entity.addComponent(movement)
+
+      expect(world.query({ all: ['movement', 'transform'] })[0]).toEqual([
+        entity,
+        movement,
+        transform,
+      ])
+      expect(world.query({ all: ['transform', 'movement'] })[0]).toEqual([
+        entity,
+        transform,
+        movement,
+      ])
+    })
+
+    test('should pass entities matching a system query to the system', () => {
+      class HealthyOnlySystem extends System {
+        readonly name = 'healthyOnly'
+        readonly requiredComponents = ['health']
+        readonly query = { all: ['health'], none: ['collectible'] }
+        seen: number[] = []
+
+        update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+          this.seen = entities.map((entity) => entity.id)
+        }
+      }
+
+      const world = new World()
+      const system = new HealthyOnlySystem()
+      world.addSystem(system)
+      const included = world.createEntity()
+      included.addComponent(new HealthComponent())
+      const excluded = world.createEntity()
+      excluded.addComponent(new HealthComponent())
+      excluded.addComponent(new CollectibleComponent(CollectibleType.EXPERIENCE))
+
+      world.update(16)
+
+      expect(system.seen).toEqual([included.id])
+    })
+  })
+
+  describe('command buffer', () => {
+    class DestroySystem extends System {
+      readonly name = 'destroyer'
+      readonly requiredComponents = ['health']
+
+      constructor(
+        private world: World,
+        readonly syncPoint = false
+      ) {
+        super()
+      }
+
+      update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+        entities.forEach((entity) => this.world.commands.destroyEntity(entity.id))
+      }
+    }
+
+    class CountSystem extends System {
+      readonly name = 'counter'
+      readonly requiredComponents = ['health']
+      readonly runAfter = ['destroyer']
+      counts: number[] = []
+
+      update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+        this.counts.push(entities.length)
+      }
+    }
+
+    test('should reserve ids for queued entities and create them on flush', () => {
+      const world = new World()
+      const pending = world.commands
+        .createEntity([new TransformComponent(1, 2)])
+        .addComponent(new HealthComponent())
+
+      expect(world.getEntity(pending.id)).toBeNull()
+      expect(world.createEntity().id).not.toBe(pending.id)
+
+      world.commands.flush()
+
+      const entity = world.resolve(pending.handle)
+      expect(entity).not.toBeNull()
+      expect(entity!.getComponentTypes().sort()).toEqual(['health', 'transform'])
+    })
+
+    test('should apply commands recorded by a system at the end of the phase', () => {
+      const world = new World()
+      const counter = new CountSystem()
+      world.addSystem(new DestroySystem(world))
+      world.addSystem(counter)
+      world.createEntity().addComponent(new HealthComponent())
+
+      world.update(16)
+
+      expect(counter.counts).toEqual([1])
+      expect(world.getAllEntities()).toHaveLength(0)
+    })
+
+    test('should apply commands right after a sync point system', () => {
+      const world = new World()
+      const counter = new CountSystem()
+      world.addSystem(new DestroySystem(world, true))
+      world.addSystem(counter)
+      world.createEntity().addComponent(new HealthComponent())
+
+      world.update(16)
+
+      expect(counter.counts).toEqual([0])
+    })
+
+    test('should skip commands for entities destroyed before the flush', () => {
+      const world = new World()
+      const original = world.createEntity()
+      world.commands.addComponent(original.id, new HealthComponent())
+      world.commands.destroyEntity(original.id)
+
+      world.destroyEntity(original.id)
+      const replacement = world.createEntity()
+      world.commands.flush()
+
+      expect(replacement.id).toBe(original.id)
+      expect(world.resolve(replacement.handle)).toBe(replacement)
+      expect(replacement.hasComponent('health')).toBe(false)
+    })
+
+    test('should apply the remaining commands when one throws', () => {
+      const world = new World()
+      world.createEntity().setName('boss')
+      const target = world.createEntity()
+      const duplicate = world.commands
+        .createEntity([new TransformComponent()])
+        .setName('boss')
+      const valid = world.commands.createEntity([new HealthComponent()])
+      world.commands.addComponent(target.id, new HealthComponent())
+
+      expect(() => world.commands.flush()).toThrow('is used by entity')
+
+      expect(world.commands.isEmpty()).toBe(true)
+      expect(world.isAlive(duplicate.handle)).toBe(false)
+      expect(world.resolve(valid.handle)?.hasComponent('health')).toBe(true)
+      expect(target.hasComponent('health')).toBe(true)
+      expect(world.createEntity().id).toBe(duplicate.id)
+    })
+
+    test('should release reserved ids when commands are discarded', () => {
+      const world = new World()
+      const pending = world.commands.createEntity()
+
+      world.commands.clear()
+
+      expect(world.commands.isEmpty()).toBe(true)
+      expect(world.createEntity().id).toBe(pending.id)
+      expect(world.isAlive(pending.handle)).toBe(false)
+    })
+  })
+
+  describe('change detection', () => {
+    class ChangedHealthSystem extends System {
+      readonly name = 'changedHealth'
+      readonly requiredComponents = ['health']
+      readonly query = { all: ['health'], changed: ['health'] }
+      seen: EntityId[][] = []
+
+      update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+        this.seen.push(entities.map((entity) => entity.id))
+      }
+    }
+
+    test('should pass only components changed since the system last ran', () => {
+      const world = new World()
+      const system = new ChangedHealthSystem()
+      world.addSystem(system)
+      const damaged = world.createEntity()
+      damaged.addComponent(new HealthComponent(100))
+      const untouched = world.createEntity()
+      untouched.addComponent(new HealthComponent(100))
+
+      world.update(16)
+      world.update(16)
+      damaged.getComponent<HealthComponent>('health')!.takeDamage(10, world.clock.now())
+      world.update(16)
+
+      expect(system.seen).toEqual([[damaged.id, untouched.id], [], [damaged.id]])
+    })
+
+    test('should not report changes a system made itself on its next run', () => {
+      class RegenSystem extends System {
+        readonly name = 'regen'
+        readonly requiredComponents = ['health']
+
+        update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+          entities.forEach((entity) => {
+            ;(entity.components as any).health.heal(1)
+          })
+        }
+      }
+
+      const world = new World()
+      const regen = new RegenSystem()
+      const observer = new ChangedHealthSystem()
+      world.addSystem(observer)
+      world.addSystem(regen)
+      const entity = world.createEntity()
+      entity.addComponent(new HealthComponent(100, 50))
+
+      world.update(16)
+      world.update(16)
+
+      // The observer runs before regen, so it sees regen's change from the
+      // previous frame
+      expect(observer.seen).toEqual([[entity.id], [entity.id]])
+    })
+
+    test('should filter query rows by added, changed and removed components', () => {
+      const world = new World()
+      const existing = world.createEntity()
+      existing.addComponent(new TransformComponent())
+      existing.addComponent(new HealthComponent())
+      world.update(16)
+
+      const added = world.createEntity()
+      added.addComponent(new TransformComponent())
+      existing.getComponent<TransformComponent>('transform')!.translate(1, 0)
+      existing.removeComponent('health')
+
+      const ids = (rows: ReadonlyArray<[Entity, ...unknown[]]>) =>
+        rows.map(([entity]) => entity.id)
+
+      expect(ids(world.query({ added: ['transform'] }))).toEqual([added.id])
+      expect(ids(world.query({ changed: ['transform'] }))).toEqual([
+        existing.id,
+        added.id,
+      ])
+      expect(ids(world.query({ all: ['transform'], removed: ['health'] }))).toEqual(
+        [existing.id]
+      )
+
+      const tick = world.getChangeTick()
+      world.update(16)
+      world.update(16)
+
+      expect(world.query({ changed: ['transform'] })).toHaveLength(0)
+      expect(world.query({ removed: ['health'] })).toHaveLength(0)
+      expect(world.query({ changed: ['transform'] }, tick - 1)).toHaveLength(2)
+    })
+
+    test('should emit component events when connected to an event system', () => {
+      const world = new World()
+      const eventSystem = new EventSystem()
+      const events: string[] = []
+      eventSystem.onAll((event) => {
+        if (event.type.startsWith('COMPONENT_')) {
+          const data = event.data as ComponentEventData
+          events.push(`${event.type}:${data.componentType}`)
+        }
+      })
+
+      world.setEventSystem(eventSystem)
+      const entity = world.createEntity()
+      entity.addComponent(new HealthComponent())
+      entity.getComponent<HealthComponent>('health')!.takeDamage(5, world.clock.now())
+      entity.removeComponent('health')
+
+      world.setEventSystem(eventSystem, { componentUpdates: true })
+      entity.addComponent(new TransformComponent())
+      world.update(16)
+      const transform = entity.getComponent<TransformComponent>('transform')!
+      transform.translate(1, 0)
+      transform.translate(1, 0)
+
+      expect(events).toEqual([
+        'COMPONENT_ADDED:health',
+        'COMPONENT_REMOVED:health',
+        'COMPONENT_ADDED:transform',
+        'COMPONENT_UPDATED:transform',
+      ])
+    })
+  })
+
+  describe('lifecycle events', () => {
+    test('should emit entity and system lifecycle events', () => {
+      const world = new World()
+      const eventSystem = new EventSystem()
+      const events: GameEvent[] = []
+      eventSystem.onAll((event) => events.push(event))
+      world.setEventSystem(eventSystem)
+
+      const entity = world.createEntity()
+      entity.setActive(false)
+      entity.setActive(true)
+      world.destroyEntity(entity.id)
+      world.addSystem(new OrderedSystem('logic', []))
+      world.removeSystem('logic')
+
+      expect(events.map((event) => [event.type, event.data])).toEqual([
+        ['ENTITY_CREATED', { entityId: entity.id }],
+        ['ENTITY_DEACTIVATED', { entityId: entity.id, active: false }],
+        ['ENTITY_ACTIVATED', { entityId: entity.id, active: true }],
+        ['ENTITY_DESTROYED', { entityId: entity.id }],
+        ['SYSTEM_ADDED', { systemName: 'logic' }],
+        ['SYSTEM_REMOVED', { systemName: 'logic' }],
+      ])
+      expect(events[0].entityId).toBe(entity.id)
+      expect(events[0].source).toBe('world')
+    })
+
+    test('should not emit events for entities replaced by a restore', () => {
+      const world = new World()
+      world.createEntity().addComponent(new HealthComponent())
+      const snapshot = world.snapshot()
+      const eventSystem = new EventSystem()
+      const listener = jest.fn()
+      eventSystem.onAll(listener)
+      world.setEventSystem(eventSystem)
+
+      world.restore(snapshot)
+      expect(listener).not.toHaveBeenCalled()
+
+      world.createEntity()
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    test('should publish world events on the engine event bus', () => {
+      const engine = new Engine()
+      const created = jest.fn()
+      engine.getEvents().on('ENTITY_CREATED', created)
+
+      const entity = engine.getWorld().createEntity()
+
+      expect(created).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { entityId: entity.id } })
+      )
+    })
+  })
+
+  describe('system ordering', () => {
+    test('should run systems in insertion order by default', () => {
+      const world = new World()
+      const log: SystemName[] = []
+      world.addSystem(new OrderedSystem('a', log))
+      world.addSystem(new OrderedSystem('b', log))
+
+      world.update(16)
+
+      expect(log).toEqual(['a', 'b'])
+    })
+
+    test('should run lower priorities first', () => {
+      const world = new World()
+      const log: SystemName[] = []
+      world.addSystem(new OrderedSystem('late', log, { priority: 10 }))
+      world.addSystem(new OrderedSystem('early', log, { priority: -10 }))
+      world.addSystem(new OrderedSystem('default', log))
+
+      world.update(16)
+
+      expect(log).toEqual(['early', 'default', 'late'])
+    })
+
+    test('should respect runAfter and runBefore regardless of add order', () => {
+      const world = new World()
+      const log: SystemName[] = []
+      world.addSystem(new OrderedSystem('combat', log, { runAfter: ['movement'] }))
+      world.addSystem(new OrderedSystem('movement', log))
+      world.addSystem(new OrderedSystem('ai', log, { runBefore: ['movement'] }))
+
+      expect(world.getSystemOrder()).toEqual(['ai', 'movement', 'combat'])
+      world.update(16)
+      expect(log).toEqual(['ai', 'movement', 'combat'])
+    })
+
+    test('should ignore dependencies on missing systems', () => {
+      const world = new World()
+      world.addSystem(new OrderedSystem('combat', [], { runAfter: ['movement'] }))
+
+      expect(world.getSystemOrder()).toEqual(['combat'])
+    })
+
+    test('should throw on dependency cycles and leave the world unchanged', () => {
+      const world = new World()
+      world.addSystem(new OrderedSystem('a', [], { runAfter: ['b'] }))
+
+      expect(() =>
+        world.addSystem(new OrderedSystem('b', [], { runAfter: ['a'] }))
+      ).toThrow('System dependency cycle detected between: a, b')
+      expect(world.getSystem('b')).toBeNull()
+      expect(world.getSystemOrder()).toEqual(['a'])
+    })
+
+    test('should only order systems within their phase', () => {
+      const world = new World()
+      const log: SystemName[] = []
+      // Edges across phases (which form a cycle here) are ignored
+      world.addSystem(
+        new OrderedSystem('render', log, {
+          phase: 'lateUpdate',
+          runBefore: ['physics'],
+        })
+      )
+      world.addSystem(
+        new OrderedSystem('physics', log, { runBefore: ['input'] })
+      )
+      world.addSystem(
+        new OrderedSystem('input', log, {
+          phase: 'preUpdate',
+          runBefore: ['render'],
+        })
+      )
+      world.addSystem(
+        new OrderedSystem('camera', log, {
+          phase: 'lateUpdate',
+          priority: -1,
+        })
+      )
+
+      expect(world.getSystemOrder()).toEqual([
+        'input',
+        'physics',
+        'camera',
+        'render',
+      ])
+      world.update(16)
+      expect(log).toEqual(['input', 'physics', 'camera', 'render'])
+    })
+  })
+
+  describe('tags and names', () => {
+    test('should look up entities by name and tag', () => {
+      const world = new World()
+      const player = world.createEntity().setName('player').addTag('player')
+      const first = world.createEntity().addTag('enemy')
+      const second = world.createEntity().addTag('enemy').addTag('boss')
+
+      expect(world.getByName('player')).toBe(player)
+      expect(world.getByName('missing')).toBeNull()
+      expect(world.getTagged('enemy')).toEqual([first, second])
+      expect(world.getTagged('boss')).toEqual([second])
+      expect(world.getTagged('pickup')).toEqual([])
+
+      second.removeTag('enemy')
+      player.setName('hero')
+      expect(world.getTagged('enemy')).toEqual([first])
+      expect(world.getByName('player')).toBeNull()
+      expect(world.getByName('hero')).toBe(player)
+    })
+
+    test('should reject duplicate names', () => {
+      const world = new World()
+      const player = world.createEntity().setName('player')
+      const other = world.createEntity()
+
+      expect(() => other.setName('player')).toThrow('is used by entity')
+      expect(other.name).toBeNull()
+      expect(world.getByName('player')).toBe(player)
+    })
+
+    test('should drop destroyed entities from the indices', () => {
+      const world = new World()
+      const player = world.createEntity().setName('player').addTag('player')
+
+      world.destroyEntity(player.id)
+
+      expect(world.getByName('player')).toBeNull()
+      expect(world.getTagged('player')).toEqual([])
+      expect(() => world.createEntity().setName('player')).not.toThrow()
+    })
+
+    test('should apply tags and names of queued entities on flush', () => {
+      const world = new World()
+      const pending = world.commands
+        .createEntity()
+        .addTag('enemy')
+        .setName('boss')
+
+      expect(world.getByName('boss')).toBeNull()
+      world.commands.flush()
+
+      expect(world.getByName('boss')?.id).toBe(pending.id)
+      expect(world.getTagged('enemy').map((e) => e.id)).toEqual([pending.id])
+    })
+
+    test('should keep tags and names across snapshot and restore', () => {
+      const world = new World()
+      const player = world.createEntity().setName('player').addTag('player')
+      world.createEntity().addTag('enemy')
+
+      const restored = World.fromSnapshot(world.snapshot())
+
+      expect(restored.getByName('player')?.id).toBe(player.id)
+      expect(restored.getTagged('player').map((e) => e.id)).toEqual([
+        player.id,
+      ])
+      expect(restored.getTagged('enemy')).toHaveLength(1)
+    })
+
+    test('should reject snapshots with duplicate names', () => {
+      const world = new World()
+      const snapshot = world.snapshot()
+      snapshot.entities = [
+        { id: 1, generation: 0, components: {}, active: true, name: 'a' },
+        { id: 2, generation: 0, components: {}, active: true, name: 'a' },
+      ]
+
+      expect(() => world.restore(snapshot)).toThrow('name "a"')
+    })
+  })
+
+  describe('hierarchy', () => {
+    test('should link parent and children', () => {
+      const world = new World()
+      const parent = world.createEntity()
+      const child = world.createEntity()
+
+      world.setParent(child.id, parent.id)
+
+      expect(world.getParent(child.id)).toBe(parent)
+      expect(world.getChildren(parent.id)).toEqual([child])
+      expect(
+        child.getComponent<HierarchyComponent>('hierarchy')?.parent
+      ).toBe(parent.handle)
+    })
+
+    test('should move a child between parents and detach it', () => {
+      const world = new World()
+      const first = world.createEntity()
+      const second = world.createEntity()
+      const child = world.createEntity()
+
+      world.setParent(child.id, first.id)
+      world.setParent(child.id, second.id)
+      expect(world.getChildren(first.id)).toEqual([])
+      expect(world.getChildren(second.id)).toEqual([child])
+
+      world.setParent(child.id, null)
+      expect(world.getParent(child.id)).toBeNull()
+      expect(world.getChildren(second.id)).toEqual([])
+    })
+
+    test('should reject cycles', () => {
+      const world = new World()
+      const root = world.createEntity()
+      const middle = world.createEntity()
+      const leaf = world.createEntity()
+      world.setParent(middle.id, root.id)
+      world.setParent(leaf.id, middle.id)
+
+      expect(() => world.setParent(root.id, leaf.id)).toThrow('cycle')
+      expect(() => world.setParent(root.id, root.id)).toThrow('cycle')
+      expect(world.getParent(root.id)).toBeNull()
+    })
+
+    test('should keep the world transform when parenting', () => {
+      const world = new World()
+      const parent = world.createEntity()
+      parent.addComponent(new TransformComponent(10, 0, Math.PI / 2, 2, 2))
+      const child = world.createEntity()
+      child.addComponent(new TransformComponent(10, 20))
+
+      world.setParent(child.id, parent.id)
+
+      const hierarchy = child.getComponent<HierarchyComponent>('hierarchy')!
+      expect(hierarchy.localPosition.x).toBeCloseTo(10)
+      expect(hierarchy.localPosition.y).toBeCloseTo(0)
+      expect(hierarchy.localRotation).toBeCloseTo(-Math.PI / 2)
+      expect(hierarchy.localScale).toEqual({ x: 0.5, y: 0.5 })
+    })
+
+    test('should destroy children with their parent', () => {
+      const world = new World()
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      const grandchild = world.createEntity()
+      const sibling = world.createEntity()
+      world.setParent(child.id, parent.id)
+      world.setParent(grandchild.id, child.id)
+      const handles = [parent.handle, child.handle, grandchild.handle]
+
+      world.destroyEntity(parent.id)
+
+      handles.forEach((handle) => expect(world.isAlive(handle)).toBe(false))
+      expect(world.getEntity(sibling.id)).toBe(sibling)
+    })
+
+    test('should detach a destroyed child from its parent', () => {
+      const world = new World()
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      world.setParent(child.id, parent.id)
+
+      world.commands.destroyEntity(child.id)
+      world.commands.flush()
+
+      expect(world.getEntity(parent.id)).toBe(parent)
+      expect(world.getChildren(parent.id)).toEqual([])
+      expect(
+        parent.getComponent<HierarchyComponent>('hierarchy')?.children
+      ).toEqual([])
+    })
+
+    test('should keep the hierarchy across snapshot and restore', () => {
+      const world = new World()
+      const parent = world.createEntity()
+      const child = world.createEntity()
+      world.setParent(child.id, parent.id)
+
+      const restored = World.fromSnapshot(world.snapshot())
+
+      expect(restored.getParent(child.id)?.id).toBe(parent.id)
+      expect(restored.getChildren(parent.id).map((e) => e.id)).toEqual([
+        child.id,
+      ])
+    })
+  })
+
+  describe('entity transfer', () => {
+    test('should move an entity with its children to another world', () => {
+      const source = new World()
+      const target = new World()
+      const player = source.createEntity()
+      const transform = new TransformComponent(5, 5)
+      player.addComponent(transform).addTag('player').setName('hero')
+      const weapon = source.createEntity()
+      weapon.addComponent(new TransformComponent(8, 5)).setName('sword')
+      source.setParent(weapon.id, player.id)
+      const oldHandle = player.handle
+
+      const moved = source.transferEntity(player.id, target)
+
+      expect(source.getAllEntities()).toHaveLength(0)
+      expect(source.isAlive(oldHandle)).toBe(false)
+      expect(target.getByName('hero')).toBe(moved)
+      expect(target.getTagged('player')).toEqual([moved])
+      expect(moved.getComponent('transform')).toBe(transform)
+      expect(target.getChildren(moved.id).map((child) => child.name)).toEqual(
+        ['sword']
+      )
+      expect(target.getEntitiesWithComponents(['transform'])).toHaveLength(2)
+    })
+
+    test('should detach the moved entity from its parent', () => {
+      const source = new World()
+      const target = new World()
+      const parent = source.createEntity()
+      const child = source.createEntity()
+      source.setParent(child.id, parent.id)
+
+      const moved = source.transferEntity(child.id, target)
+
+      expect(source.getChildren(parent.id)).toEqual([])
+      expect(target.getParent(moved.id)).toBeNull()
+    })
+
+    test('should reject name conflicts without moving anything', () => {
+      const source = new World()
+      const target = new World()
+      const parent = source.createEntity()
+      const child = source.createEntity().setName('taken')
+      source.setParent(child.id, parent.id)
+      target.createEntity().setName('taken')
+
+      expect(() => source.transferEntity(parent.id, target)).toThrow(
+        'the name "taken" is used by entity'
+      )
+      expect(source.getChildren(parent.id)).toEqual([child])
+      expect(target.getAllEntities()).toHaveLength(1)
+    })
+  })
+
+  describe('update phases', () => {
+    test('should run phases in order regardless of add order', () => {
+      const world = new World()
+      const log: SystemName[] = []
+      world.addSystem(new OrderedSystem('camera', log, { phase: 'lateUpdate' }))
+      world.addSystem(new OrderedSystem('combat', log))
+      world.addSystem(new OrderedSystem('physics', log, { phase: 'fixedUpdate' }))
+      world.addSystem(new OrderedSystem('input', log, { phase: 'preUpdate' }))
+
+      world.update(16)
+
+      expect(log).toEqual(['input', 'physics', 'combat', 'camera'])
+    })
+
+    test('should advance fixed time separately from frame time', () => {
+      const world = new World()
+      const physics = new OrderedSystem('physics', [], { phase: 'fixedUpdate' })
+      const gameplay = new OrderedSystem('gameplay', [])
+      world.addSystem(physics)
+      world.addSystem(gameplay)
+
+      world.beginFrame(25)
+      world.updatePhase('fixedUpdate', 10)
+      world.updatePhase('fixedUpdate', 10)
+      world.updatePhase('update', 25)
+
+      expect(physics.contexts.map((c) => c.totalTime)).toEqual([10, 20])
+      expect(physics.contexts.every((c) => c.phase === 'fixedUpdate')).toBe(true)
+      expect(gameplay.contexts[0]).toMatchObject({
+        deltaTime: 25,
+        totalTime: 25,
+        frameCount: 1,
+        phase: 'update',
+      })
+    })
+  })
+
+  describe('snapshot and restore', () => {
+    test('should round-trip every built-in component through JSON', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(10, 20, 0.5, 2, 3))
+      entity.addComponent(new HealthComponent(150, 75, 2))
+      entity.addComponent(new MovementComponent(120))
+      entity.addComponent(
+        new CombatComponent({ damage: 12, range: 60, attackSpeed: 1.5 })
+      )
+      entity.addComponent(new ExperienceComponent(3))
+      entity.addComponent(new InventoryComponent(10))
+      entity.addComponent(new SkillsComponent(2))
+      entity.addComponent(new AIComponent())
+      entity.addComponent(new EnemyAIComponent())
+      entity.addComponent(new SpawnerComponent({ center: { x: 0, y: 0 } }))
+      entity.addComponent(new CollectibleComponent(CollectibleType.EXPERIENCE))
+      entity.addComponent(new MagnetComponent(80, 150))
+      entity.addComponent(new DifficultyComponent())
+
+      const snapshot = world.snapshot()
+      const saved = JSON.parse(JSON.stringify(snapshot)) as WorldSnapshot
+
+      const restored = World.fromSnapshot(saved)
+      const restoredEntity = restored.getEntity(entity.id)
+
+      expect(restoredEntity).not.toBeNull()
+      expect(restoredEntity!.getComponentTypes().sort()).toEqual(
+        entity.getComponentTypes().sort()
+      )
+      expect(restored.snapshot().entities).toEqual(saved.entities)
+    })
+
+    test('should keep entity ids, active state and timing', () => {
+      const world = new World()
+      const first = world.createEntity()
+      first.addComponent(new TransformComponent(5, 5))
+      const second = world.createEntity()
+      second.addComponent(new HealthComponent(50, 10))
+      second.setActive(false)
+
+      world.update(16)
+      world.update(16)
+
+      const restored = World.fromSnapshot(world.snapshot())
+      const stats = restored.getStats()
+
+      expect(restored.getEntity(first.id)).not.toBeNull()
+      expect(restored.getEntity(second.id)!.isActive()).toBe(false)
+      expect(
+        restored.getEntity(second.id)!.getComponent<HealthComponent>('health')!
+          .current
+      ).toBe(10)
+      expect(stats.frameCount).toBe(2)
+      expect(stats.totalTime).toBe(32)
+    })
+
+    test('should not reuse restored ids for new entities', () => {
+      const world = new World()
+      world.createEntity()
+      world.createEntity()
+      const snapshot = world.snapshot()
+
+      Entity.resetIdCounter()
+      const restored = World.fromSnapshot(snapshot)
+      const created = restored.createEntity()
+
+      expect(snapshot.entities.map((e) => e.id)).not.toContain(created.id)
+    })
+
+    test('should not share component state with the snapshot', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(1, 2))
+      const snapshot = world.snapshot()
+
+      const restored = World.fromSnapshot(snapshot)
+      restored
+        .getEntity(entity.id)!
+        .getComponent<TransformComponent>('transform')!
+        .setPosition(100, 100)
+
+      expect(snapshot.entities[0].components.transform.position).toEqual({
+        x: 1,
+        y: 2,
+      })
+    })
+
+    test('should reject unregistered component types without changing the world', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(1, 2))
+
+      const snapshot = world.snapshot()
+      snapshot.entities[0].components.unknown = {}
+
+      expect(() => world.restore(snapshot)).toThrow(
+        'component type "unknown" is not registered'
+      )
+      expect(world.getEntity(entity.id)).toBe(entity)
+    })
+
+    test('should reject component data that fails its schema without changing the world', () => {
+      const world = new World()
+      const entity = world.createEntity()
+      entity.addComponent(new SkillsComponent(2))
+
+      const snapshot = world.snapshot()
+      delete snapshot.entities[0].components.skills.activeEffects
+
+      expect(() => world.restore(snapshot)).toThrow(
+        `Cannot restore entity ${entity.id}: Invalid "skills" component data: field "activeEffects" is missing`
+      )
+      expect(world.getEntity(entity.id)).toBe(entity)
+    })
+
+    test('should migrate and validate each component once', () => {
+      const world = new World()
+      world.createEntity().addComponent(new TransformComponent(4, 5))
+      const snapshot = world.snapshot()
+      const migrate = jest.spyOn(ComponentRegistry, 'migrate')
+
+      try {
+        world.restore(snapshot)
+
+        expect(migrate).toHaveBeenCalledTimes(1)
+      } finally {
+        migrate.mockRestore()
+      }
+    })
+
+    test('should restore component data saved without a version', () => {
+      const world = new World()
+      world.createEntity().addComponent(new TransformComponent(4, 5))
+
+      const snapshot = world.snapshot()
+      delete snapshot.entities[0].components.transform.$version
+      const restored = World.fromSnapshot(snapshot)
+
+      expect(
+        restored.getAllEntities()[0].getComponent<TransformComponent>('transform')!
+          .position
+      ).toEqual({ x: 4, y: 5 })
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import { Engine } from '@/core/Engine'
+import { System } from '@/core/ECS/System'
+import { MovementSystem } from '@/systems/MovementSystem'
+import { TransformComponent } from '@/components/Transform'
+import { MovementComponent } from '@/components/Movement'
+import type { ComponentType, SystemUpdateContext } from '@/types/CoreTypes'
+
+class CountingSystem extends System {
+  readonly name = 'counting'
+  readonly requiredComponents: ComponentType[] = []
+  readonly deltas: number[] = []
+
+  update(context: SystemUpdateContext): void {
+    this.deltas.push(context.deltaTime)
+  }
+}
+
+describe('Engine', () => {
+  let engine: Engine
+  let system: CountingSystem
+
+  beforeEach(() => {
+    engine = new Engine({ engine: { targetFPS: 50, seed: 1 } })
+    system = new CountingSystem()
+    engine.getWorld().addSystem(system)
+  })
+
+  afterEach(() => {
+    engine.destroy()
+  })
+
+  describe('step', () => {
+    test('should run frames without starting the engine', () => {
+      const result = engine.step(3)
+
+      expect(result).toEqual({ frames: 3, elapsed: 60, stopped: false })
+      expect(system.deltas).toEqual([20, 20, 20])
+      expect(engine.getWorld().clock.now()).toBe(60)
+      expect(engine.getState()).toEqual(
+        expect.objectContaining({ running: false, frameCount: 3 })
+      )
+    })
+
+    test('should run a single frame by default', () => {
+      expect(engine.step().frames).toBe(1)
+    })
+
+    test('should use the given fixed delta', () => {
+      engine.step(2, { fixedDelta: 5 })
+
+      expect(system.deltas).toEqual([5, 5])
+    })
+
+    test('should stop once the condition is met', () => {
+      const result = engine.step(100, {
+        until: (world) => world.clock.now() >= 100,
+      })
+
+      expect(result).toEqual({ frames: 5, elapsed: 100, stopped: true })
+    })
+
+    test('should run while paused', () => {
+      engine.start()
+      engine.pause()
+
+      engine.update(20)
+      expect(system.deltas).toEqual([])
+
+      engine.step(1)
+      expect(system.deltas).toEqual([20])
+      engine.stop()
+    })
+  })
+
+  describe('runFor', () => {
+    test('should advance exactly the simulated time', () => {
+      const result = engine.runFor(50)
+
+      expect(result).toEqual({ frames: 3, elapsed: 50, stopped: false })
+      expect(system.deltas).toEqual([20, 20, 10])
+      expect(engine.getWorld().clock.now()).toBe(50)
+    })
+
+    test('should run long simulations synchronously', () => {
+      const callback = jest.fn()
+      engine.onUpdate(callback)
+
+      const result = engine.runFor(60 * 60 * 1000, { fixedDelta: 100 })
+
+      expect(result.frames).toBe(36000)
+      expect(callback).toHaveBeenCalledTimes(36000)
+      expect(engine.getState().currentTime).toBe(60 * 60 * 1000)
+    })
+
+    test('should stop once the condition is met', () => {
+      const entity = engine.getWorld().createEntity()
+      engine.onUpdate(() => {
+        if (engine.getWorld().clock.now() >= 200) {
+          engine.getWorld().removeEntity(entity.id)
+        }
+      })
+
+      const result = engine.runFor(1000, {
+        until: (world) => world.getEntity(entity.id) === null,
+      })
+
+      expect(result).toEqual({ frames: 10, elapsed: 200, stopped: true })
+    })
+
+    test('should reject a non-positive fixed delta', () => {
+      expect(() => engine.runFor(100, { fixedDelta: 0 })).toThrow(
+        'fixedDelta must be greater than 0'
+      )
+    })
+  })
+
+  describe('rendering', () => {
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    test('should render every real frame with an interpolation alpha', () => {
+      jest.useFakeTimers()
+      const alphas: number[] = []
+      engine.onRender((alpha, state) => {
+        expect(state.running).toBe(true)
+        alphas.push(alpha)
+      })
+
+      engine.start()
+      jest.advanceTimersByTime(200)
+      engine.stop()
+
+      expect(alphas.length).toBeGreaterThan(5)
+      alphas.forEach((alpha) => {
+        expect(alpha).toBeGreaterThanOrEqual(0)
+        expect(alpha).toBeLessThan(1)
+      })
+    })
+
+    test('should stop calling unsubscribed render callbacks', () => {
+      jest.useFakeTimers()
+      const callback = jest.fn()
+      const unsubscribe = engine.onRender(callback)
+
+      engine.start()
+      jest.advanceTimersByTime(50)
+      unsubscribe()
+      const calls = callback.mock.calls.length
+      jest.advanceTimersByTime(50)
+      engine.stop()
+
+      expect(calls).toBeGreaterThan(0)
+      expect(callback).toHaveBeenCalledTimes(calls)
+    })
+
+    test('should keep the previous step of transforms for interpolation', () => {
+      engine.getWorld().addSystem(new MovementSystem())
+      const entity = engine.getWorld().createEntity()
+      const transform = new TransformComponent(0, 0)
+      const movement = new MovementComponent(1000)
+      movement.setVelocity(100, 0)
+      movement.friction = 0
+      entity.addComponent(transform)
+      entity.addComponent(movement)
+
+      engine.step(1)
+      const before = transform.position.x
+      engine.step(1)
+
+      expect(transform.previousPosition.x).toBe(before)
+      expect(transform.position.x).toBeGreaterThan(before)
+      expect(transform.getInterpolatedPosition(0)).toEqual(
+        transform.previousPosition
+      )
+      expect(transform.getInterpolatedPosition(0.5).x).toBeCloseTo(
+        (before + transform.position.x) / 2
+      )
+    })
+  })
+
+  test('should ignore update() until started', () => {
+    engine.update(16)
+
+    expect(system.deltas).toEqual([])
+  })
+})
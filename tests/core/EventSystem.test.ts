@@ -0,0 +1,306 @@
+import { EventSystem } from '@/core/EventSystem'
+import { Engine } from '@/core/Engine'
+import { System, World } from '@/core/ECS'
+import { GameEventType } from '@/types/Events'
+import type { ComponentType, SystemUpdateContext } from '@/types/CoreTypes'
+
+declare module '@/types/Events' {
+  interface EventMap {
+    TEST_BOSS_DEFEATED: { bossId: number; bossType: string }
+  }
+}
+
+class EmittingSystem extends System {
+  readonly name: string
+  readonly requiredComponents: ComponentType[] = []
+
+  constructor(
+    name: string,
+    private readonly events: EventSystem,
+    private readonly log: string[],
+    readonly syncPoint: boolean = false
+  ) {
+    super()
+    this.name = name
+  }
+
+  update(_context: SystemUpdateContext): void {
+    this.log.push(`${this.name}:update`)
+    this.events.emit('TEST_EVENT', this.name)
+  }
+}
+
+describe('EventSystem', () => {
+  let events: EventSystem
+
+  beforeEach(() => {
+    events = new EventSystem()
+  })
+
+  describe('typed events', () => {
+    test('should type listener payloads from the event map', () => {
+      const damage: number[] = []
+      events.on(GameEventType.DAMAGE_DEALT, (event) => {
+        damage.push(event.data.damage)
+      })
+
+      events.emit(GameEventType.DAMAGE_DEALT, { targetId: 1, damage: 12 })
+
+      expect(damage).toEqual([12])
+    })
+
+    test('should accept event type strings as well as enum members', () => {
+      const levels: number[] = []
+      events.once('LEVEL_UP', (event) => {
+        levels.push(event.data.newLevel)
+      })
+
+      events.emit(GameEventType.LEVEL_UP, {
+        entityId: 1,
+        previousLevel: 1,
+        newLevel: 2,
+      })
+      events.emit('LEVEL_UP', { entityId: 1, previousLevel: 2, newLevel: 3 })
+
+      expect(levels).toEqual([2])
+    })
+
+    test('should reject payloads that do not match the event map', () => {
+      // @ts-expect-error damage is required
+      events.emit(GameEventType.DAMAGE_DEALT, { targetId: 1 })
+
+      events.on(GameEventType.ENTITY_KILLED, (event) => {
+        // @ts-expect-error ENTITY_KILLED payloads have no damage
+        return event.data.damage
+      })
+      // @ts-expect-error bossType is required
+      events.emit('TEST_BOSS_DEFEATED', { bossId: 7 })
+    })
+
+    test('should type custom events merged into the event map', () => {
+      const bosses: string[] = []
+      events.on('TEST_BOSS_DEFEATED', (event) => {
+        bosses.push(event.data.bossType)
+      })
+
+      events.emit('TEST_BOSS_DEFEATED', { bossId: 7, bossType: 'dragon' })
+
+      expect(bosses).toEqual(['dragon'])
+    })
+
+    test('should leave unmapped event payloads unknown', () => {
+      const listener = jest.fn()
+      events.on('UNMAPPED_EVENT', (event) => listener(event.data))
+
+      events.emit('UNMAPPED_EVENT', 42)
+
+      expect(listener).toHaveBeenCalledWith(42)
+    })
+  })
+
+  describe('listeners', () => {
+    test('should call listeners by priority, then in subscription order', () => {
+      const calls: string[] = []
+      events.on('TEST_EVENT', () => calls.push('default'))
+      events.on('TEST_EVENT', () => calls.push('late'), { priority: -1 })
+      events.on('TEST_EVENT', () => calls.push('first'), { priority: 10 })
+      events.once('TEST_EVENT', () => calls.push('default once'))
+
+      events.emit('TEST_EVENT', null)
+      events.emit('TEST_EVENT', null)
+
+      expect(calls).toEqual([
+        'first',
+        'default',
+        'default once',
+        'late',
+        'first',
+        'default',
+        'late',
+      ])
+    })
+
+    test('should stop propagation to lower priority listeners', () => {
+      const low = jest.fn()
+      const global = jest.fn()
+      events.on('TEST_EVENT', low)
+      events.on('TEST_EVENT', (event) => event.stopPropagation(), {
+        priority: 1,
+      })
+      events.onAll(global)
+
+      events.emit('TEST_EVENT', null)
+
+      expect(low).not.toHaveBeenCalled()
+      expect(global).toHaveBeenCalledTimes(1)
+    })
+
+    test('should remove a single listener with off()', () => {
+      const kept = jest.fn()
+      const removed = jest.fn()
+      const removedOnce = jest.fn()
+      events.on('TEST_EVENT', kept)
+      events.on('TEST_EVENT', removed)
+      events.once('TEST_EVENT', removedOnce)
+
+      events.off('TEST_EVENT', removed)
+      events.off('TEST_EVENT', removedOnce)
+      events.emit('TEST_EVENT', null)
+
+      expect(kept).toHaveBeenCalledTimes(1)
+      expect(removed).not.toHaveBeenCalled()
+      expect(removedOnce).not.toHaveBeenCalled()
+
+      events.off('TEST_EVENT')
+      events.emit('TEST_EVENT', null)
+
+      expect(kept).toHaveBeenCalledTimes(1)
+      expect(events.getStats().listenerCount).toBe(0)
+    })
+
+    test('should skip listeners removed during dispatch', () => {
+      const second = jest.fn()
+      events.on('TEST_EVENT', () => events.off('TEST_EVENT', second))
+      events.on('TEST_EVENT', second)
+
+      events.emit('TEST_EVENT', null)
+
+      expect(second).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('queued mode', () => {
+    beforeEach(() => {
+      events.setQueued(true)
+    })
+
+    test('should dispatch queued events on flush', () => {
+      const received: unknown[] = []
+      events.on('TEST_EVENT', (event) => {
+        received.push(event.data)
+        if (event.data === 1) {
+          events.emit('TEST_EVENT', 3)
+        }
+      })
+
+      events.emit('TEST_EVENT', 1)
+      events.emit('TEST_EVENT', 2)
+
+      expect(received).toEqual([])
+      expect(events.getQueuedCount()).toBe(2)
+
+      events.flush()
+
+      expect(received).toEqual([1, 2, 3])
+      expect(events.getQueuedCount()).toBe(0)
+    })
+
+    test('should flush when queued mode is disabled', () => {
+      const listener = jest.fn()
+      events.on('TEST_EVENT', listener)
+      events.emit('TEST_EVENT', null)
+
+      events.setQueued(false)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(events.isQueued()).toBe(false)
+    })
+
+    test('should dispatch after each world phase and sync point', () => {
+      const log: string[] = []
+      const world = new World()
+      world.setEventSystem(events)
+      world.addSystem(new EmittingSystem('first', events, log))
+      world.addSystem(new EmittingSystem('second', events, log, true))
+      world.addSystem(new EmittingSystem('third', events, log))
+      events.on('TEST_EVENT', (event) =>
+        log.push(`${String(event.data)}:event`)
+      )
+
+      world.updatePhase('update', 16)
+
+      expect(log).toEqual([
+        'first:update',
+        'second:update',
+        'first:event',
+        'second:event',
+        'third:update',
+        'third:event',
+      ])
+    })
+
+    test('should dispatch engine events by the end of each frame', () => {
+      const engine = new Engine({ engine: { queuedEvents: true, seed: 1 } })
+      const created = jest.fn()
+      engine.getEvents().on(GameEventType.ENTITY_CREATED, created)
+
+      engine.getWorld().createEntity()
+      expect(created).not.toHaveBeenCalled()
+
+      engine.step()
+      expect(created).toHaveBeenCalledTimes(1)
+      engine.destroy()
+    })
+  })
+
+  describe('lockstep replay', () => {
+    let frame: number
+
+    beforeEach(() => {
+      frame = 0
+      events.setFrameCounter(() => frame)
+    })
+
+    test('should stamp events with the current frame', () => {
+      const frames: (number | undefined)[] = []
+      events.on('TEST_EVENT', (event) => frames.push(event.frame))
+
+      events.emit('TEST_EVENT', null)
+      frame = 4
+      events.emit('TEST_EVENT', null)
+
+      expect(frames).toEqual([0, 4])
+    })
+
+    test('should re-emit recorded events once their frame is reached', () => {
+      const recorded = [
+        { type: 'INPUT', timestamp: 0, frame: 0, data: 'a' },
+        { type: 'DAMAGE', timestamp: 0, frame: 1, data: 'ignored' },
+        { type: 'INPUT', timestamp: 16, frame: 1, data: 'b' },
+        { type: 'INPUT', timestamp: 48, frame: 3, data: 'c' },
+      ]
+      const received: unknown[] = []
+      events.on('INPUT', (event) => received.push(event.data))
+      events.on('DAMAGE', (event) => received.push(event.data))
+
+      events.startReplay(recorded, {
+        filter: (event) => event.type === 'INPUT',
+      })
+      expect(received).toEqual(['a'])
+
+      frame = 2
+      events.advanceReplay()
+      expect(received).toEqual(['a', 'b'])
+      expect(events.isReplaying()).toBe(true)
+
+      frame = 3
+      events.advanceReplay()
+      expect(received).toEqual(['a', 'b', 'c'])
+      expect(events.isReplaying()).toBe(false)
+    })
+
+    test('should drop pending events when the replay is stopped', () => {
+      const listener = jest.fn()
+      events.on('INPUT', listener)
+      events.startReplay([{ type: 'INPUT', timestamp: 0, frame: 1, data: 1 }], {
+        filter: () => true,
+      })
+
+      events.stopReplay()
+      frame = 1
+      events.advanceReplay()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+})
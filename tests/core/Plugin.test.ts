@@ -0,0 +1,273 @@
+import { Engine } from '@/core/Engine'
+import { System, ComponentRegistry, Component } from '@/core/ECS'
+import type { Plugin } from '@/core/Plugin'
+import {
+  BUILTIN_PLUGINS,
+  CORE_PLUGIN,
+  COMBAT_PLUGIN,
+  PROGRESSION_PLUGIN,
+  ECONOMY_PLUGIN,
+  SKILLS_PLUGIN,
+  AI_PLUGIN,
+  SPAWNING_PLUGIN,
+} from '@/plugins'
+import { TransformComponent } from '@/components/Transform'
+import { HealthComponent } from '@/components/Health'
+import { CombatComponent } from '@/components/Combat'
+import { ExperienceComponent } from '@/components/Experience'
+import { InventoryComponent } from '@/components/Inventory'
+import { GameEventType } from '@/types/Events'
+import type { SkillSystem } from '@/systems/SkillSystem'
+import type { ComponentType, SystemUpdateContext } from '@/types/CoreTypes'
+
+class TimerComponent extends Component {
+  readonly type = 'timer'
+  remaining = 0
+
+  reset(): void {
+    this.remaining = 0
+  }
+
+  serialize(): Record<string, unknown> {
+    return { remaining: this.remaining }
+  }
+
+  deserialize(data: Record<string, unknown>): void {
+    this.remaining = data.remaining as number
+  }
+
+  clone(): TimerComponent {
+    const timer = new TimerComponent()
+    timer.remaining = this.remaining
+    return timer
+  }
+}
+
+class TimerSystem extends System {
+  readonly name = 'timer'
+  readonly requiredComponents: ComponentType[] = ['timer']
+
+  constructor(readonly step: number) {
+    super()
+  }
+
+  update(_context: SystemUpdateContext): void {}
+}
+
+interface TimerConfig {
+  step: number
+  label: string
+}
+
+const createTimerPlugin = (
+  overrides: Partial<Plugin<TimerConfig>> = {}
+): Plugin<TimerConfig> => ({
+  name: 'timers',
+  components: {
+    timer: TimerComponent as unknown as new (...args: unknown[]) => Component,
+  },
+  defaults: { step: 10, label: 'default' },
+  eventTypes: ['TIMER_EXPIRED'],
+  systems: ({ config }) => [new TimerSystem(config.step)],
+  ...overrides,
+})
+
+describe('Plugins', () => {
+  let engine: Engine
+
+  beforeEach(() => {
+    ComponentRegistry.clear()
+    engine = new Engine({ engine: { seed: 1 }, timers: { label: 'game' } })
+  })
+
+  afterEach(() => {
+    engine.destroy()
+  })
+
+  test('should register components, event types and systems', () => {
+    engine.use(createTimerPlugin())
+
+    expect(engine.hasPlugin('timers')).toBe(true)
+    expect(ComponentRegistry.has('timer')).toBe(true)
+    expect(engine.getEvents().hasEventType('TIMER_EXPIRED')).toBe(true)
+    expect(engine.getWorld().getSystem('timer')).toBeInstanceOf(TimerSystem)
+  })
+
+  test('should merge defaults, the game config and use() config', () => {
+    let config: TimerConfig | undefined
+    engine.use(
+      createTimerPlugin({
+        install: (context) => {
+          config = context.config
+        },
+      }),
+      { step: 5 }
+    )
+
+    expect(config).toEqual({ step: 5, label: 'game' })
+    expect(engine.getWorld().getSystem<TimerSystem>('timer')?.step).toBe(5)
+  })
+
+  test('should remove everything a plugin added', () => {
+    const uninstall = jest.fn()
+    engine.use(createTimerPlugin({ uninstall }))
+
+    engine.removePlugin('timers')
+
+    expect(uninstall).toHaveBeenCalledTimes(1)
+    expect(engine.hasPlugin('timers')).toBe(false)
+    expect(ComponentRegistry.has('timer')).toBe(false)
+    expect(engine.getEvents().hasEventType('TIMER_EXPIRED')).toBe(false)
+    expect(engine.getWorld().getSystem('timer')).toBeNull()
+  })
+
+  test('should keep component types it did not register', () => {
+    ComponentRegistry.register(
+      'timer',
+      TimerComponent as unknown as new (...args: unknown[]) => Component
+    )
+    engine.use(createTimerPlugin())
+
+    engine.removePlugin('timers')
+
+    expect(ComponentRegistry.has('timer')).toBe(true)
+  })
+
+  test('should keep component types while another engine uses them', () => {
+    const other = new Engine({ engine: { seed: 2 } })
+    engine.use(createTimerPlugin())
+    other.use(createTimerPlugin())
+
+    engine.removePlugin('timers')
+    expect(ComponentRegistry.create('timer')).toBeInstanceOf(TimerComponent)
+
+    other.destroy()
+    expect(ComponentRegistry.has('timer')).toBe(false)
+  })
+
+  test('should check dependencies', () => {
+    expect(() => engine.use(COMBAT_PLUGIN)).toThrow(
+      'Plugin "combat" requires plugin "core"'
+    )
+
+    engine.use(CORE_PLUGIN).use(COMBAT_PLUGIN)
+
+    expect(() => engine.removePlugin('core')).toThrow(
+      'Cannot remove plugin "core": plugin "combat" depends on it'
+    )
+    expect(() => engine.use(CORE_PLUGIN)).toThrow(
+      'Plugin "core" is already installed'
+    )
+  })
+
+  test('should undo a failed install', () => {
+    engine.getWorld().addSystem(new TimerSystem(1))
+
+    expect(() => engine.use(createTimerPlugin())).toThrow()
+
+    expect(engine.hasPlugin('timers')).toBe(false)
+    expect(ComponentRegistry.has('timer')).toBe(false)
+    expect(engine.getEvents().hasEventType('TIMER_EXPIRED')).toBe(false)
+  })
+
+  test('should remove plugins on reset', () => {
+    engine.use(CORE_PLUGIN).use(COMBAT_PLUGIN)
+
+    engine.reset()
+
+    expect(engine.getPlugins()).toEqual([])
+    expect(ComponentRegistry.has('health')).toBe(false)
+  })
+
+  describe('built-in plugins', () => {
+    test('should install every built-in system', () => {
+      BUILTIN_PLUGINS.forEach((plugin) => engine.use(plugin))
+
+      expect(engine.getWorld().getSystemOrder()).toEqual(
+        expect.arrayContaining([
+          'movement',
+          'transformPropagation',
+          'input',
+          'tween',
+          'combat',
+          'progression',
+          'economy',
+          'skill',
+          'ai',
+          'spawn',
+          'enemy',
+          'collection',
+          'difficulty',
+        ])
+      )
+    })
+
+    test('should run a game built from plugins', () => {
+      BUILTIN_PLUGINS.forEach((plugin) => engine.use(plugin))
+      const world = engine.getWorld()
+      const attacker = world.createEntity()
+      attacker.addComponent(new TransformComponent(0, 0))
+      attacker.addComponent(new HealthComponent(100))
+      attacker.addComponent(
+        new CombatComponent({ damage: 10, range: 100, attackSpeed: 10 })
+      )
+      const target = world.createEntity()
+      target.addComponent(new TransformComponent(10, 0))
+      target.addComponent(new HealthComponent(100))
+
+      engine.runFor(1000)
+
+      const health = target.getComponent<HealthComponent>('health')!
+      expect(health.current).toBeLessThan(100)
+    })
+
+    test('should unsubscribe the systems of a removed plugin from events', () => {
+      engine
+        .use(CORE_PLUGIN)
+        .use(COMBAT_PLUGIN)
+        .use(AI_PLUGIN)
+        .use(PROGRESSION_PLUGIN)
+        .use(ECONOMY_PLUGIN)
+        .use(SPAWNING_PLUGIN)
+      const events = engine.getEvents()
+      const listeners = events.getStats().listenerCount
+
+      ;['spawning', 'economy', 'progression'].forEach((name) =>
+        engine.removePlugin(name)
+      )
+      engine.use(PROGRESSION_PLUGIN).use(ECONOMY_PLUGIN).use(SPAWNING_PLUGIN)
+      expect(events.getStats().listenerCount).toBe(listeners)
+
+      const killer = engine.getWorld().createEntity()
+      killer.addComponent(new ExperienceComponent())
+      killer.addComponent(new InventoryComponent())
+      const xpGained = jest.fn()
+      events.on(GameEventType.EXPERIENCE_GAINED, xpGained)
+
+      events.emit(GameEventType.ENTITY_KILLED, {
+        entityId: killer.id + 1,
+        killerId: killer.id,
+      })
+
+      expect(xpGained).toHaveBeenCalledTimes(1)
+      expect(
+        killer
+          .getComponent<InventoryComponent>('inventory')!
+          .getResource('gold')
+      ).toBe(5)
+    })
+
+    test('should pass plugin config to the skill system', () => {
+      engine
+        .use(CORE_PLUGIN)
+        .use(COMBAT_PLUGIN)
+        .use(PROGRESSION_PLUGIN)
+        .use(SKILLS_PLUGIN, { skillSelectionSeed: 7 })
+
+      const skills = engine.getWorld().getSystem<SkillSystem>('skill')!
+      expect(skills['config']).toEqual(
+        expect.objectContaining({ baseEffectRadius: 100, skillSelectionSeed: 7 })
+      )
+    })
+  })
+})
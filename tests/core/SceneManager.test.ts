@@ -0,0 +1,250 @@
+import { Engine } from '@/core/Engine'
+import { Scene, SceneManager } from '@/core/SceneManager'
+import { System, type World, type Entity } from '@/core/ECS'
+import { EventSystem } from '@/core/EventSystem'
+import { TransformComponent } from '@/components/Transform'
+import { GameEventType } from '@/types/Events'
+import type { ComponentType, SystemUpdateContext } from '@/types/CoreTypes'
+
+class CountingSystem extends System {
+  readonly name = 'counting'
+  readonly requiredComponents: ComponentType[] = []
+  updates = 0
+
+  update(_context: SystemUpdateContext): void {
+    this.updates++
+  }
+}
+
+class TestScene extends Scene {
+  readonly system = new CountingSystem()
+  readonly log: string[]
+  carried: Entity[] = []
+
+  constructor(
+    readonly name: string,
+    log: string[],
+    readonly updateWhenCovered: boolean = false
+  ) {
+    super()
+    this.log = log
+  }
+
+  onEnter(world: World, carried: Entity[]): void {
+    this.log.push(`${this.name}:enter`)
+    this.carried = carried
+    world.addSystem(this.system)
+  }
+
+  onExit(): void {
+    this.log.push(`${this.name}:exit`)
+  }
+
+  onPause(): void {
+    this.log.push(`${this.name}:pause`)
+  }
+
+  onResume(): void {
+    this.log.push(`${this.name}:resume`)
+  }
+}
+
+describe('SceneManager', () => {
+  let log: string[]
+  let scenes: SceneManager
+
+  beforeEach(() => {
+    log = []
+    scenes = new SceneManager()
+  })
+
+  test('should give each scene its own world', () => {
+    const menuWorld = scenes.push(new TestScene('menu', log))
+    menuWorld.createEntity()
+    const runWorld = scenes.push(new TestScene('run', log))
+
+    expect(runWorld).not.toBe(menuWorld)
+    expect(runWorld.getAllEntities()).toHaveLength(0)
+    expect(scenes.getWorld('menu')).toBe(menuWorld)
+    expect(scenes.getScenes().map((scene) => scene.name)).toEqual([
+      'menu',
+      'run',
+    ])
+    expect(scenes.getActiveScene()?.name).toBe('run')
+  })
+
+  test('should pause covered scenes and resume them on pop', () => {
+    const menu = new TestScene('menu', log)
+    const run = new TestScene('run', log)
+    scenes.push(menu)
+    scenes.push(run)
+    scenes.update(16)
+
+    expect(menu.system.updates).toBe(0)
+    expect(run.system.updates).toBe(1)
+
+    expect(scenes.pop()).toBe(run)
+    scenes.update(16)
+
+    expect(menu.system.updates).toBe(1)
+    expect(log).toEqual([
+      'menu:enter',
+      'menu:pause',
+      'run:enter',
+      'run:exit',
+      'menu:resume',
+    ])
+    expect(scenes.pop()).toBe(menu)
+    expect(scenes.pop()).toBeNull()
+  })
+
+  test('should keep updating covered scenes that ask for it', () => {
+    const run = new TestScene('run', log, true)
+    scenes.push(run)
+    scenes.push(new TestScene('hud', log))
+    scenes.update(16)
+
+    expect(run.system.updates).toBe(1)
+    expect(log).not.toContain('run:pause')
+  })
+
+  test('should replace the top scene and clear its world', () => {
+    const menu = new TestScene('menu', log)
+    const menuWorld = scenes.push(menu)
+    menuWorld.createEntity()
+
+    scenes.replace(new TestScene('run', log))
+
+    expect(menuWorld.getAllEntities()).toHaveLength(0)
+    expect(menuWorld.getSystem('counting')).toBeNull()
+    expect(scenes.getScenes().map((scene) => scene.name)).toEqual(['run'])
+    expect(log).toEqual(['menu:enter', 'menu:exit', 'run:enter'])
+  })
+
+  test('should let a scene replace itself to restart', () => {
+    const run = new TestScene('run', log)
+    const first = scenes.push(run)
+
+    const second = scenes.replace(run)
+
+    expect(second).not.toBe(first)
+    expect(scenes.getWorld('run')).toBe(second)
+  })
+
+  test('should reject a scene that is already in the stack', () => {
+    scenes.push(new TestScene('menu', log))
+    scenes.push(new TestScene('run', log))
+
+    expect(() => scenes.push(new TestScene('menu', log))).toThrow(
+      'Scene "menu" is already active'
+    )
+    expect(() => scenes.replace(new TestScene('menu', log))).toThrow(
+      'Scene "menu" is already active'
+    )
+  })
+
+  test('should pause and resume individual scenes', () => {
+    const run = new TestScene('run', log)
+    scenes.push(run)
+
+    scenes.pause('run')
+    scenes.update(16)
+    expect(scenes.isPaused('run')).toBe(true)
+    expect(run.system.updates).toBe(0)
+
+    scenes.resume('run')
+    scenes.update(16)
+    expect(run.system.updates).toBe(1)
+    expect(log).toEqual(['run:enter', 'run:pause', 'run:resume'])
+    expect(() => scenes.pause('missing')).toThrow('Scene "missing" is not active')
+  })
+
+  test('should carry entities into the next scene', () => {
+    const menuWorld = scenes.push(new TestScene('menu', log))
+    const profile = menuWorld.createEntity().setName('profile')
+    profile.addComponent(new TransformComponent(1, 2))
+    const run = new TestScene('run', log)
+
+    const runWorld = scenes.replace(run, { carry: [profile.id] })
+
+    expect(run.carried).toHaveLength(1)
+    expect(runWorld.getByName('profile')).toBe(run.carried[0])
+    expect(
+      run.carried[0].getComponent<TransformComponent>('transform')?.position
+    ).toEqual({ x: 1, y: 2 })
+  })
+
+  test('should not change scenes when a carried entity is missing', () => {
+    scenes.push(new TestScene('menu', log))
+
+    expect(() =>
+      scenes.push(new TestScene('run', log), { carry: [999] })
+    ).toThrow('Cannot carry entity 999: it is not in scene "menu"')
+    expect(scenes.getActiveScene()?.name).toBe('menu')
+  })
+
+  test('should publish scene world events on the shared event bus', () => {
+    const eventSystem = new EventSystem()
+    const created = jest.fn()
+    eventSystem.on(GameEventType.ENTITY_CREATED, created)
+    scenes = new SceneManager({ eventSystem })
+
+    scenes.push(new TestScene('menu', log)).createEntity()
+
+    expect(created).toHaveBeenCalledTimes(1)
+  })
+
+  describe('with an engine', () => {
+    let engine: Engine
+
+    beforeEach(() => {
+      engine = new Engine({ engine: { targetFPS: 50, seed: 1 } })
+    })
+
+    afterEach(() => {
+      engine.destroy()
+    })
+
+    test('should update the worlds of updating scenes every frame', () => {
+      const menu = new TestScene('menu', log)
+      const run = new TestScene('run', log)
+      engine.getScenes().push(menu)
+      const runWorld = engine.getScenes().push(run)
+
+      engine.step(3)
+
+      expect(run.system.updates).toBe(3)
+      expect(menu.system.updates).toBe(0)
+      expect(runWorld.clock.now()).toBe(60)
+    })
+
+    test('should seed scene worlds from the engine seed', () => {
+      const other = new Engine({ engine: { seed: 1 } })
+
+      const first = engine.getScenes().push(new TestScene('run', log))
+      const second = other.getScenes().push(new TestScene('run', log))
+
+      expect(second.random.getState()).toBe(first.random.getState())
+      other.destroy()
+    })
+
+    test('should keep event listeners when changing scenes', () => {
+      const listener = jest.fn()
+      engine.getEvents().on(GameEventType.ENTITY_CREATED, listener)
+
+      engine.getScenes().push(new TestScene('menu', log))
+      engine.getScenes().replace(new TestScene('run', log)).createEntity()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    test('should exit all scenes on reset', () => {
+      engine.getScenes().push(new TestScene('menu', log))
+
+      engine.reset()
+
+      expect(engine.getScenes().getScenes()).toEqual([])
+      expect(log).toEqual(['menu:enter', 'menu:exit'])
+    })
+  })
+})
@@ -0,0 +1,276 @@
+import { Scheduler } from '@/core/Scheduler'
+import { Clock } from '@/core/Clock'
+import { Engine } from '@/core/Engine'
+import { World } from '@/core/ECS'
+
+describe('Scheduler', () => {
+  let clock: Clock
+  let scheduler: Scheduler
+
+  const advance = (deltaTime: number) => {
+    clock.advance(deltaTime)
+    scheduler.update()
+  }
+
+  beforeEach(() => {
+    clock = new Clock()
+    scheduler = new Scheduler(clock)
+  })
+
+  describe('timers', () => {
+    test('should run a callback once after the delay', () => {
+      const callback = jest.fn()
+      const id = scheduler.after(100, callback, 'payload')
+
+      advance(99)
+      expect(callback).not.toHaveBeenCalled()
+      expect(scheduler.getRemaining(id)).toBe(1)
+
+      advance(1)
+      advance(100)
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith('payload')
+      expect(scheduler.isScheduled(id)).toBe(false)
+      expect(scheduler.getRemaining(id)).toBeNull()
+    })
+
+    test('should run repeating timers once per interval that passed', () => {
+      const callback = jest.fn()
+      scheduler.every(30, callback)
+
+      advance(20)
+      expect(callback).toHaveBeenCalledTimes(0)
+      advance(20)
+      expect(callback).toHaveBeenCalledTimes(1)
+      advance(100)
+      expect(callback).toHaveBeenCalledTimes(4)
+    })
+
+    test('should run due timers in order of due time', () => {
+      const order: string[] = []
+      scheduler.every(40, () => order.push('every'))
+      scheduler.after(50, () => order.push('late'))
+      scheduler.after(10, () => order.push('early'))
+      scheduler.after(40, () => order.push('tie'))
+
+      advance(100)
+
+      expect(order).toEqual(['early', 'every', 'tie', 'late', 'every'])
+    })
+
+    test('should keep the order when many timers are due at once', () => {
+      const delay = (index: number) => 500 - (index % 250)
+      const order: number[] = []
+      for (let i = 0; i < 500; i++) {
+        scheduler.after(delay(i), () => order.push(i))
+      }
+
+      advance(500)
+
+      const expected = Array.from({ length: 500 }, (_, i) => i).sort(
+        (a, b) => delay(a) - delay(b) || a - b
+      )
+      expect(order).toEqual(expected)
+    })
+
+    test('should cancel timers', () => {
+      const callback = jest.fn()
+      const id = scheduler.every(10, callback)
+
+      expect(scheduler.cancel(id)).toBe(true)
+      expect(scheduler.cancel(id)).toBe(false)
+      advance(100)
+
+      expect(callback).not.toHaveBeenCalled()
+      expect(scheduler.getTimerCount()).toBe(0)
+    })
+
+    test('should not keep many cancelled timers queued', () => {
+      const callback = jest.fn()
+      const kept = scheduler.after(2000, callback)
+      for (let i = 0; i < 1000; i++) {
+        scheduler.cancel(scheduler.after(1000, callback))
+      }
+
+      expect(scheduler['queue'].size).toBeLessThan(20)
+      advance(2000)
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(scheduler.isScheduled(kept)).toBe(false)
+    })
+
+    test('should let timers cancel timers that are due in the same update', () => {
+      const callback = jest.fn()
+      let id = 0
+      scheduler.after(10, () => scheduler.cancel(id))
+      id = scheduler.after(20, callback)
+
+      advance(50)
+
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    test('should run timers scheduled by a callback on a later update', () => {
+      const callback = jest.fn()
+      scheduler.after(10, () => scheduler.after(0, callback))
+
+      advance(10)
+      expect(callback).not.toHaveBeenCalled()
+
+      advance(0)
+      expect(callback).toHaveBeenCalledTimes(1)
+    })
+
+    test('should reject intervals that are not positive', () => {
+      expect(() => scheduler.every(0, jest.fn())).toThrow(
+        'Timer interval must be greater than 0'
+      )
+    })
+  })
+
+  describe('named handlers', () => {
+    test('should call registered handlers with the timer data', () => {
+      const spawned: number[] = []
+      scheduler.registerHandler<{ wave: number }>('spawnWave', (data) =>
+        spawned.push(data.wave)
+      )
+
+      scheduler.after(10, 'spawnWave', { wave: 3 })
+      advance(10)
+
+      expect(spawned).toEqual([3])
+    })
+
+    test('should reject handlers that are not registered', () => {
+      expect(() => scheduler.after(10, 'missing')).toThrow(
+        'Timer handler "missing" is not registered'
+      )
+    })
+
+    test('should cancel the timers of unregistered handlers', () => {
+      scheduler.registerHandler('tick', jest.fn())
+      scheduler.every(10, 'tick')
+
+      scheduler.unregisterHandler('tick')
+
+      expect(scheduler.getTimerCount()).toBe(0)
+    })
+
+    test('should save and restore timers that call named handlers', () => {
+      const ticks: string[] = []
+      scheduler.registerHandler<string>('tick', (data) => ticks.push(data))
+      scheduler.every(30, 'tick', 'saved')
+      scheduler.after(10, jest.fn())
+      advance(40)
+
+      const snapshot = JSON.parse(JSON.stringify(scheduler.snapshot()))
+      expect(snapshot.timers).toEqual([
+        { id: 1, handler: 'tick', dueTime: 60, interval: 30, data: 'saved' },
+      ])
+
+      const restoredClock = new Clock(40)
+      const restored = new Scheduler(restoredClock)
+      restored.registerHandler<string>('tick', (data) =>
+        ticks.push(`restored ${data}`)
+      )
+      restored.restore(snapshot)
+      restoredClock.advance(20)
+      restored.update()
+
+      expect(ticks).toEqual(['saved', 'restored saved'])
+      expect(restored.after(10, jest.fn())).toBe(3)
+    })
+
+    test('should not restore timers whose handler is not registered', () => {
+      scheduler.registerHandler('tick', jest.fn())
+      scheduler.every(30, 'tick')
+      const restored = new Scheduler(new Clock())
+      restored.registerHandler('other', jest.fn())
+      restored.every(10, 'other')
+
+      expect(() => restored.restore(scheduler.snapshot())).toThrow(
+        'Cannot restore timer 1: handler "tick" is not registered'
+      )
+      expect(restored.getTimerCount()).toBe(1)
+    })
+  })
+
+  describe('with an engine', () => {
+    let engine: Engine
+
+    beforeEach(() => {
+      engine = new Engine({ engine: { targetFPS: 50, seed: 1 } })
+    })
+
+    afterEach(() => {
+      engine.destroy()
+    })
+
+    test('should run timers on game time', () => {
+      const callback = jest.fn()
+      engine.getScheduler().after(100, callback)
+
+      engine.setTimeScale(0.5)
+      engine.runFor(180)
+      expect(callback).not.toHaveBeenCalled()
+
+      engine.setTimeScale(1)
+      engine.runFor(20)
+      expect(callback).toHaveBeenCalledTimes(1)
+    })
+
+    test('should not run timers while paused', () => {
+      const callback = jest.fn()
+      engine.getScheduler().after(20, callback)
+      engine.start()
+      engine.pause()
+
+      engine.update(100)
+      expect(callback).not.toHaveBeenCalled()
+
+      engine.resume()
+      engine.update(20)
+      expect(callback).toHaveBeenCalledTimes(1)
+      engine.stop()
+    })
+
+    test('should save timers with the world snapshot', () => {
+      const spawned: number[] = []
+      const scheduler = engine.getScheduler()
+      scheduler.registerHandler<number>('spawn', (wave) => spawned.push(wave))
+      scheduler.after(100, 'spawn', 1)
+      engine.runFor(60)
+      const snapshot = engine.getWorld().snapshot()
+
+      engine.runFor(60)
+      expect(spawned).toEqual([1])
+
+      engine.getWorld().restore(snapshot)
+      expect(scheduler.getRemaining(1)).toBe(40)
+      engine.runFor(40)
+      expect(spawned).toEqual([1, 1])
+    })
+
+    test('should clear timers when the world is cleared', () => {
+      engine.getScheduler().every(10, jest.fn())
+
+      engine.reset()
+
+      expect(engine.getScheduler().getTimerCount()).toBe(0)
+    })
+
+    test('should check timer handlers before restoring a world', () => {
+      const scheduler = new Scheduler(new Clock())
+      scheduler.registerHandler('spawn', jest.fn())
+      scheduler.after(10, 'spawn')
+      const source = new World({ seed: 1 })
+      source.setScheduler(scheduler)
+      source.createEntity()
+      const world = engine.getWorld()
+
+      expect(() => world.restore(source.snapshot())).toThrow(
+        'Cannot restore timer 1: handler "spawn" is not registered'
+      )
+      expect(world.getAllEntities()).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,296 @@
+import {
+  Engine,
+  Entity,
+  Random,
+  Clock,
+  TransformComponent,
+  HealthComponent,
+  MovementComponent,
+  CombatComponent,
+  ExperienceComponent,
+  InventoryComponent,
+  SpawnerComponent,
+  SpawnPattern,
+  MovementSystem,
+  CombatSystem,
+  ProgressionSystem,
+  EconomySystem,
+  AISystem,
+  SpawnSystem,
+  SpatialHashGrid,
+  BASIC_ENEMIES,
+} from '@/index'
+import type { WorldSnapshot, EventRecording, GameEvent } from '@/index'
+
+const FRAMES = 200
+
+/**
+ * Builds a small game (player, spawner and the gameplay systems) and runs it
+ * for a fixed number of frames
+ */
+const runSimulation = (seed: number): WorldSnapshot => {
+  // Entity IDs come from a process-wide counter
+  Entity.resetIdCounter()
+  const engine = new Engine({ engine: { seed, fixedTimeStep: false } })
+  const world = engine.getWorld()
+  const events = engine.getEvents()
+  const grid = () =>
+    new SpatialHashGrid({
+      cellSize: 100,
+      worldBounds: { minX: -2000, minY: -2000, maxX: 2000, maxY: 2000 },
+    })
+
+  world.addSystem(new MovementSystem(events))
+  world.addSystem(new CombatSystem(events, world))
+  world.addSystem(new ProgressionSystem(events, world))
+  world.addSystem(new EconomySystem(events, world))
+  world.addSystem(new AISystem(grid(), {}, events, world))
+  world.addSystem(new SpawnSystem(grid(), {}, events, world))
+
+  const player = world.createEntity()
+  player.setName('player')
+  player.addComponent(new TransformComponent(0, 0))
+  player.addComponent(new HealthComponent(1000))
+  player.addComponent(new MovementComponent(150))
+  player.addComponent(
+    new CombatComponent({
+      damage: 30,
+      range: 150,
+      attackSpeed: 4,
+      criticalChance: 0.5,
+      criticalMultiplier: 2,
+    })
+  )
+  player.addComponent(new ExperienceComponent(1))
+  player.addComponent(new InventoryComponent(20))
+
+  const spawner = new SpawnerComponent({ center: { x: 0, y: 0 }, radius: 300 })
+  spawner.spawnPattern = SpawnPattern.RANDOM
+  spawner.baseSpawnRate = 5
+  spawner.currentSpawnRate = 5
+  BASIC_ENEMIES.forEach((enemyType) => spawner.addEnemyType(enemyType))
+  const spawnerEntity = world.createEntity()
+  spawnerEntity.addComponent(new TransformComponent(0, 0))
+  spawnerEntity.addComponent(spawner)
+
+  engine.step(FRAMES, { fixedDelta: 16 })
+
+  const snapshot = world.snapshot()
+  engine.destroy()
+  return snapshot
+}
+
+/**
+ * Strips the parts of a snapshot that measure the host (update timings)
+ */
+const simulationState = (snapshot: WorldSnapshot) => ({
+  ...snapshot,
+  systems: snapshot.systems.map(({ name, enabled, entityCount }) => ({
+    name,
+    enabled,
+    entityCount,
+  })),
+})
+
+/**
+ * Runs a game driven by SPAWN_REQUEST events emitted between frames. Given a
+ * recording, the requests are replayed from it instead.
+ */
+const runEventDrivenGame = (recording?: EventRecording) => {
+  Entity.resetIdCounter()
+  const engine = new Engine({
+    engine: { seed: 99, enableEventHistory: true, eventHistorySize: 10000 },
+  })
+  const world = engine.getWorld()
+  const events = engine.getEvents()
+  world.addSystem(new MovementSystem(events))
+  world.addSystem(new CombatSystem(events, world))
+
+  events.on('SPAWN_REQUEST', (event) => {
+    const { x } = event.data as { x: number }
+    const entity = world.createEntity()
+    entity.addComponent(new TransformComponent(x, 0))
+    entity.addComponent(new HealthComponent(50))
+    const movement = new MovementComponent(100)
+    movement.velocity = {
+      x: world.random.range(-50, 50),
+      y: world.random.range(-50, 50),
+    }
+    entity.addComponent(movement)
+    entity.addComponent(
+      new CombatComponent({ damage: 5, range: 40, attackSpeed: 2 })
+    )
+  })
+
+  if (recording) {
+    engine.replayEvents(recording, {
+      filter: (event) => event.type === 'SPAWN_REQUEST',
+    })
+    engine.step(60, { fixedDelta: 16 })
+  } else {
+    for (let frame = 0; frame < 60; frame++) {
+      if (frame % 7 === 0) {
+        events.emit('SPAWN_REQUEST', { x: frame * 5 })
+      }
+      engine.step(1, { fixedDelta: 16 })
+    }
+  }
+
+  const result = {
+    recording: engine.exportEvents(),
+    snapshot: world.snapshot(),
+  }
+  engine.destroy()
+  return result
+}
+
+describe('Deterministic simulation', () => {
+  test('should produce identical snapshots for the same seed', () => {
+    const first = runSimulation(1234)
+    const second = runSimulation(1234)
+
+    // Make sure the run exercised spawning and randomness at all
+    expect(first.entityCount).toBeGreaterThan(2)
+    expect(simulationState(second)).toEqual(simulationState(first))
+  })
+
+  test('should diverge for different seeds', () => {
+    const first = runSimulation(1)
+    const second = runSimulation(2)
+
+    expect(simulationState(second)).not.toEqual(simulationState(first))
+  })
+
+  describe('Event replay', () => {
+    test('should reproduce a run from an exported event history', () => {
+      const original = runEventDrivenGame()
+      const file = JSON.stringify(original.recording)
+
+      const replayed = runEventDrivenGame(JSON.parse(file) as EventRecording)
+
+      expect(original.snapshot.entityCount).toBeGreaterThan(5)
+      expect(replayed.recording).toEqual(original.recording)
+      expect(simulationState(replayed.snapshot)).toEqual(
+        simulationState(original.snapshot)
+      )
+    })
+
+    test('should stamp events with the engine frame and game time', () => {
+      const engine = new Engine({ engine: { seed: 5, targetFPS: 50 } })
+      const stamped: GameEvent[] = []
+      engine.getEvents().on('TEST_EVENT', (event) => {
+        stamped.push(event)
+      })
+
+      engine.step(3)
+      engine.getEvents().emit('TEST_EVENT', {})
+
+      expect(stamped[0]).toEqual(
+        expect.objectContaining({ frame: 3, timestamp: 60 })
+      )
+      engine.destroy()
+    })
+
+    test('should reject a recording made with another seed', () => {
+      const engine = new Engine({ engine: { seed: 5 } })
+
+      expect(() =>
+        engine.replayEvents({ seed: 6, events: [] }, { filter: () => true })
+      ).toThrow(
+        'Cannot replay events recorded with seed 6 on an engine seeded with 5'
+      )
+      expect(() => engine.exportEvents()).toThrow(
+        'Cannot export events: event history is not enabled'
+      )
+      engine.destroy()
+    })
+  })
+
+  describe('Random', () => {
+    test('should repeat a sequence for the same seed', () => {
+      const a = new Random(42)
+      const b = new Random(42)
+
+      const sequence = Array.from({ length: 10 }, () => a.next())
+      expect(Array.from({ length: 10 }, () => b.next())).toEqual(sequence)
+      sequence.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      })
+    })
+
+    test('should continue a sequence from a saved state', () => {
+      const random = new Random(7)
+      random.next()
+      const state = random.getState()
+      const expected = [random.next(), random.next()]
+
+      const restored = new Random(0)
+      restored.setState(state)
+      expect([restored.next(), restored.next()]).toEqual(expected)
+    })
+
+    test('should keep values within range helpers', () => {
+      const random = new Random(3)
+      for (let i = 0; i < 100; i++) {
+        const value = random.int(1, 6)
+        expect(Number.isInteger(value)).toBe(true)
+        expect(value).toBeGreaterThanOrEqual(1)
+        expect(value).toBeLessThanOrEqual(6)
+        expect(random.range(-5, 5)).toBeGreaterThanOrEqual(-5)
+      }
+      expect(random.pick([])).toBeUndefined()
+      expect(['a', 'b']).toContain(random.pick(['a', 'b']))
+    })
+  })
+
+  describe('World clock', () => {
+    test('should advance with frame time and restore with snapshots', () => {
+      const engine = new Engine({ engine: { seed: 5 } })
+      const world = engine.getWorld()
+
+      world.update(16)
+      world.update(16)
+      expect(world.clock.now()).toBe(32)
+
+      const snapshot = world.snapshot()
+      const expected = world.random.next()
+      world.update(100)
+
+      world.restore(snapshot)
+      expect(world.clock.now()).toBe(32)
+      expect(world.random.next()).toBe(expected)
+      engine.destroy()
+    })
+
+    test('should timestamp events with game time', () => {
+      const engine = new Engine({ engine: { seed: 5 } })
+      const timestamps: number[] = []
+      engine.getEvents().on('TEST_EVENT', (event) => {
+        timestamps.push(event.timestamp)
+      })
+
+      engine.getWorld().update(250)
+      engine.getEvents().emit('TEST_EVENT', {})
+
+      expect(timestamps).toEqual([250])
+      engine.destroy()
+    })
+
+    test('should use a custom clock for event timestamps', () => {
+      const clock = new Clock(1000)
+      const engine = new Engine({ engine: { seed: 5 } })
+      engine.getEvents().setClock(clock)
+      const timestamps: number[] = []
+      engine.getEvents().on('TEST_EVENT', (event) => {
+        timestamps.push(event.timestamp)
+      })
+
+      clock.advance(500)
+      engine.getEvents().emit('TEST_EVENT', {})
+
+      expect(timestamps).toEqual([1500])
+      engine.destroy()
+    })
+  })
+})
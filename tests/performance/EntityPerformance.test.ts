@@ -1,6 +1,7 @@
 import {
   Engine,
   World,
+  System,
   TransformComponent,
   HealthComponent,
   MovementComponent,
@@ -12,6 +13,23 @@ import {
   ProgressionSystem,
   EconomySystem,
 } from '@/index'
+import type { EntityQuery, SystemUpdateContext } from '@/types/CoreTypes'
+
+// System that only records what it receives, so frame time is query cost
+class QueryProbeSystem extends System {
+  lastEntities: EntityQuery[] = []
+
+  constructor(
+    readonly name: string,
+    readonly requiredComponents: string[]
+  ) {
+    super()
+  }
+
+  update(_context: SystemUpdateContext, entities: EntityQuery[]): void {
+    this.lastEntities = entities
+  }
+}
 
 describe('Entity Performance Tests', () => {
   let engine: Engine
@@ -240,4 +258,65 @@ describe('Entity Performance Tests', () => {
       expect(world.getStats().activeEntityCount).toBe(0)
     }
   })
-})
\ No newline at end of file
+
+  test('should keep query maintenance proportional to entity changes', () => {
+    const entityCount = 3000
+    const probes = [
+      new QueryProbeSystem('probe.movement', ['transform', 'movement']),
+      new QueryProbeSystem('probe.combat', ['transform', 'combat']),
+      new QueryProbeSystem('probe.health', ['health']),
+    ]
+    probes.forEach((probe) => world.addSystem(probe))
+
+    const entities = []
+    for (let i = 0; i < entityCount; i++) {
+      const entity = world.createEntity()
+      entity.addComponent(new TransformComponent(i, i))
+      entity.addComponent(new MovementComponent(100))
+      entity.addComponent(new HealthComponent(100))
+      if (i % 2 === 0) {
+        entity.addComponent(new CombatComponent())
+      }
+      entities.push(entity)
+    }
+
+    // First update applies all pending creations
+    world.update(16.67)
+    const initialResults = probes[0].lastEntities
+    expect(initialResults.length).toBe(entityCount)
+    expect(probes[1].lastEntities.length).toBe(entityCount / 2)
+
+    // Unchanged frames reuse the query results without rebuilding them
+    const idleFrames = 60
+    const idleStart = performance.now()
+    for (let frame = 0; frame < idleFrames; frame++) {
+      world.update(16.67)
+    }
+    const idleFrameTime = (performance.now() - idleStart) / idleFrames
+    expect(probes[0].lastEntities).toBe(initialResults)
+
+    // Frames with a handful of structural changes only touch those entities
+    const changeFrames = 60
+    const changeStart = performance.now()
+    for (let frame = 0; frame < changeFrames; frame++) {
+      const entity = entities[frame]
+      if (entity.hasComponent('combat')) {
+        entity.removeComponent('combat')
+      } else {
+        entity.addComponent(new CombatComponent())
+      }
+      world.update(16.67)
+    }
+    const changeFrameTime = (performance.now() - changeStart) / changeFrames
+
+    console.log(
+      `Query maintenance with ${entityCount} entities: ` +
+        `idle ${idleFrameTime.toFixed(3)}ms/frame, ` +
+        `with changes ${changeFrameTime.toFixed(3)}ms/frame`
+    )
+
+    expect(probes[1].lastEntities.length).toBe(entityCount / 2)
+    expect(idleFrameTime).toBeLessThan(2)
+    expect(changeFrameTime).toBeLessThan(5)
+  })
+})
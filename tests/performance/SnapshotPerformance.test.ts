@@ -0,0 +1,104 @@
+import {
+  World,
+  ComponentRegistry,
+  registerBuiltinComponents,
+  encodeSnapshot,
+  decodeSnapshot,
+  TransformComponent,
+  HealthComponent,
+  MovementComponent,
+  CombatComponent,
+  ExperienceComponent,
+  InventoryComponent,
+} from '@/index'
+import type { WorldSnapshot } from '@/types/CoreTypes'
+
+// Best of a few runs, so one slow run (GC, JIT warm-up) doesn't decide
+function time(run: () => void, runs = 10): number {
+  let best = Infinity
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now()
+    run()
+    best = Math.min(best, performance.now() - start)
+  }
+  return best
+}
+
+describe('Snapshot Performance Tests', () => {
+  const entityCount = 3000
+  let snapshot: WorldSnapshot
+  let json: string
+  let binary: Uint8Array
+
+  beforeAll(() => {
+    ComponentRegistry.clear()
+    registerBuiltinComponents()
+
+    const world = new World({ seed: 3 })
+    const random = world.random
+    for (let i = 0; i < entityCount; i++) {
+      const entity = world.createEntity()
+      entity.addComponent(
+        new TransformComponent(
+          random.range(-2000, 2000),
+          random.range(-2000, 2000)
+        )
+      )
+      entity.addComponent(new HealthComponent(random.int(50, 500)))
+      const movement = new MovementComponent(random.range(50, 200))
+      movement.setVelocity(random.range(-1, 1), random.range(-1, 1))
+      entity.addComponent(movement)
+      if (i % 3 === 0) {
+        entity.addComponent(new CombatComponent())
+      }
+      if (i % 100 === 0) {
+        entity.addTag('player')
+        entity.addComponent(new ExperienceComponent())
+        entity.addComponent(new InventoryComponent())
+      }
+    }
+
+    snapshot = world.snapshot()
+    json = JSON.stringify(snapshot)
+    binary = encodeSnapshot(snapshot)
+  })
+
+  afterAll(() => {
+    ComponentRegistry.clear()
+  })
+
+  test('should be several times smaller than JSON', () => {
+    const jsonSize = new TextEncoder().encode(json).length
+    const quantizedSize = encodeSnapshot(snapshot, {
+      floats: 'quantized',
+    }).length
+
+    console.log(
+      `${entityCount} entities: JSON ${(jsonSize / 1024).toFixed(0)} KB, ` +
+        `binary ${(binary.length / 1024).toFixed(0)} KB, ` +
+        `quantized ${(quantizedSize / 1024).toFixed(0)} KB`
+    )
+
+    expect(binary.length).toBeLessThan(jsonSize / 3)
+    expect(quantizedSize).toBeLessThan(binary.length)
+  })
+
+  test('should encode about as fast as JSON and decode faster', () => {
+    const jsonEncode = time(() => JSON.stringify(snapshot))
+    const jsonDecode = time(() => JSON.parse(json))
+    const binaryEncode = time(() => encodeSnapshot(snapshot))
+    const binaryDecode = time(() => decodeSnapshot(binary))
+
+    console.log(
+      `Encode: JSON ${jsonEncode.toFixed(2)}ms, binary ${binaryEncode.toFixed(2)}ms; ` +
+        `decode: JSON ${jsonDecode.toFixed(2)}ms, binary ${binaryDecode.toFixed(2)}ms`
+    )
+
+    expect(binaryEncode).toBeLessThan(jsonEncode * 2)
+    expect(binaryDecode).toBeLessThan(jsonDecode)
+  })
+
+  test('should decode to the same snapshot as JSON', () => {
+    expect(decodeSnapshot(binary)).toEqual(JSON.parse(json))
+  })
+})
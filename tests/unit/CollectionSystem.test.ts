@@ -66,7 +66,7 @@ describe('CollectionSystem', () => {
       const collectionSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_COLLECTED', collectionSpy);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, timestamp: Date.now(), totalTime: 0, frameCount: 0 };
       const entities = [collector, collectible];
@@ -81,7 +81,7 @@ describe('CollectionSystem', () => {
           rarity: CollectibleRarity.COMMON
         })
       }));
-      expect(world.removeEntity).toHaveBeenCalledWith(collectible.id);
+      expect(world.commands.destroyEntity).toHaveBeenCalledWith(collectible.id);
     });
 
     it('should respect collection behavior types', () => {
@@ -94,7 +94,7 @@ describe('CollectionSystem', () => {
       const collectionSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_COLLECTED', collectionSpy);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, timestamp: Date.now(), totalTime: 0, frameCount: 0 };
       const entities = [collector, manualCollectible];
@@ -103,7 +103,7 @@ describe('CollectionSystem', () => {
 
       // Manual collection items should not be collected automatically
       expect(collectionSpy).not.toHaveBeenCalled();
-      expect(world.removeEntity).not.toHaveBeenCalled();
+      expect(world.commands.destroyEntity).not.toHaveBeenCalled();
     });
 
     it('should handle proximity collection behavior', () => {
@@ -116,7 +116,7 @@ describe('CollectionSystem', () => {
       const collectionSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_COLLECTED', collectionSpy);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, timestamp: Date.now(), totalTime: 0, frameCount: 0 };
       const entities = [collector, proximityCollectible];
@@ -250,7 +250,7 @@ describe('CollectionSystem', () => {
       const collectionSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_COLLECTED', collectionSpy);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, timestamp: Date.now(), totalTime: 0, frameCount: 0 };
       const entities = [collector, expOrb, coin];
@@ -301,7 +301,7 @@ describe('CollectionSystem', () => {
       const collectionSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_COLLECTED', collectionSpy);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, timestamp: Date.now(), totalTime: 0, frameCount: 0 };
       const entities = [collector, commonItem, rareItem];
@@ -317,7 +317,7 @@ describe('CollectionSystem', () => {
       expect(collectionCall.data.rarity).toBe(CollectibleRarity.RARE);
       
       // And that the correct entity was removed
-      expect(world.removeEntity).toHaveBeenCalledTimes(1);
+      expect(world.commands.destroyEntity).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -581,7 +581,7 @@ describe('CollectionSystem', () => {
       collectibleComp.spawnTime = Date.now() - 2000; // Spawned 2 seconds ago
       collectible.addComponent(collectibleComp);
 
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
       const expireSpy = jest.fn();
       eventSystem.on('COLLECTIBLE_EXPIRED', expireSpy);
 
@@ -596,7 +596,7 @@ describe('CollectionSystem', () => {
 
       collectionSystem.update(context, entities as any);
 
-      expect(world.removeEntity).toHaveBeenCalledWith(collectible.id);
+      expect(world.commands.destroyEntity).toHaveBeenCalledWith(collectible.id);
       expect(expireSpy).toHaveBeenCalledWith(expect.objectContaining({
         data: expect.objectContaining({
           entityId: collectible.id
@@ -604,6 +604,27 @@ describe('CollectionSystem', () => {
       }));
     });
 
+    it('should run lifetimes on game time from when a collectible is first seen', () => {
+      world.addSystem(collectionSystem);
+      const collectible = world.createEntity();
+      collectible.addComponent(new TransformComponent(500, 500));
+      const collectibleComp = new CollectibleComponent(CollectibleType.EXPERIENCE, 10);
+      collectibleComp.lifetime = 1000;
+      collectible.addComponent(collectibleComp);
+
+      expect(collectibleComp.spawnTime).toBeNull();
+
+      world.update(100);
+      const spawnTime = collectibleComp.spawnTime!;
+      expect(spawnTime).toBeLessThan(1000);
+
+      while (world.clock.now() - spawnTime < 1000) {
+        expect(world.getEntity(collectible.id)).toBe(collectible);
+        world.update(100);
+      }
+      expect(world.getEntity(collectible.id)).toBeNull();
+    });
+
     it('should auto-collect items after delay', () => {
       const collector = world.createEntity();
       collector.addComponent(new TransformComponent(0, 0));
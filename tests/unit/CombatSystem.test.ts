@@ -1,6 +1,7 @@
 import { CombatSystem } from '../../src/systems/CombatSystem';
 import { World } from '../../src/core/ECS/World';
 import { Entity } from '../../src/core/ECS/Entity';
+import { createEntityHandle } from '../../src/core/ECS/EntityHandle';
 import { HealthComponent } from '../../src/components/Health';
 import { CombatComponent, WeaponStats } from '../../src/components/Combat';
 import { TransformComponent } from '../../src/components/Transform';
@@ -73,7 +74,7 @@ describe('CombatSystem', () => {
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
       const targetHealth = target.getComponent('health') as HealthComponent;
 
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       // Simulate update cycle (use enough time to pass cooldown)
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
@@ -90,7 +91,7 @@ describe('CombatSystem', () => {
 
       // Move target out of range
       targetTransform.setPosition(100, 0);
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -102,7 +103,7 @@ describe('CombatSystem', () => {
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
       const targetHealth = target.getComponent('health') as HealthComponent;
 
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       // First attack
       const context1 = { deltaTime: 16, totalTime: 16, frameCount: 1 };
@@ -127,7 +128,7 @@ describe('CombatSystem', () => {
       eventSystem.on(GameEventType.DAMAGE_DEALT, damageSpy);
 
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -149,8 +150,8 @@ describe('CombatSystem', () => {
       const targetHealth = target.getComponent('health') as HealthComponent;
       
       // Set target health low
-      targetHealth.takeDamage(95);
-      attackerCombat.setTarget(target.id);
+      targetHealth.takeDamage(95, 0);
+      attackerCombat.setTarget(target.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -187,7 +188,7 @@ describe('CombatSystem', () => {
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
       const targetHealth = target.getComponent('health') as HealthComponent;
 
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -216,7 +217,7 @@ describe('CombatSystem', () => {
       target.addComponent(new TransformComponent(30, 0));
 
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       // Simulate multiple updates
       let totalTime = 0;
@@ -248,7 +249,7 @@ describe('CombatSystem', () => {
       target.addComponent(new TransformComponent(30, 0));
 
       const attackerCombat = attacker.getComponent('combat') as CombatComponent;
-      attackerCombat.setTarget(target.id);
+      attackerCombat.setTarget(target.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -295,7 +296,7 @@ describe('CombatSystem', () => {
       attacker.addComponent(new HealthComponent(100));
 
       const combat = attacker.getComponent('combat') as CombatComponent;
-      combat.setTarget(999); // Non-existent entity
+      combat.setTarget(createEntityHandle(999, 0)); // Non-existent entity
 
       expect(() => {
         const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
@@ -310,7 +311,7 @@ describe('CombatSystem', () => {
       attacker.addComponent(new HealthComponent(100));
 
       const combat = attacker.getComponent('combat') as CombatComponent;
-      combat.setTarget(attacker.id);
+      combat.setTarget(attacker.handle);
 
       const context = { deltaTime: 16, totalTime: 1100, frameCount: 1 };
       combatSystem.update(context, [createCombatQuery(attacker)]);
@@ -318,5 +319,28 @@ describe('CombatSystem', () => {
       const health = attacker.getComponent('health') as HealthComponent;
       expect(health.current).toBe(100); // Should not damage self
     });
+
+    it('should not attack an entity that reused a dead target\'s id', () => {
+      const attacker = world.createEntity();
+      attacker.addComponent(new CombatComponent({ damage: 10, range: 50, attackSpeed: 1.0 }, false));
+      attacker.addComponent(new TransformComponent(0, 0));
+
+      const target = world.createEntity();
+      target.addComponent(new TransformComponent(10, 0));
+      target.addComponent(new HealthComponent(100));
+
+      const combat = attacker.getComponent('combat') as CombatComponent;
+      combat.setTarget(target.handle);
+      const staleHandle = target.handle;
+
+      world.destroyEntity(target.id);
+      const newcomer = world.createEntity();
+      newcomer.addComponent(new TransformComponent(10, 0));
+      newcomer.addComponent(new HealthComponent(100));
+
+      expect(newcomer.id).toBe(target.id);
+      expect(combatSystem.triggerAttack(createCombatQuery(attacker), staleHandle)).toBe(false);
+      expect((newcomer.getComponent('health') as HealthComponent).current).toBe(100);
+    });
   });
 });
\ No newline at end of file
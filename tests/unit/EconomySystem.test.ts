@@ -369,8 +369,8 @@ describe('EconomySystem', () => {
       const mockRandom = jest.spyOn(Math, 'random').mockReturnValue(0.1);
 
       eventSystem.emit(GameEventType.ENTITY_KILLED, {
-        killerEntityId: killer.id,
-        victimEntityId: victim.id,
+        killerId: killer.id,
+        entityId: victim.id,
         victimType: 'enemy_goblin'
       });
 
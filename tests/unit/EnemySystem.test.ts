@@ -134,7 +134,7 @@ describe('EnemySystem', () => {
     it('should set and clear targets', () => {
       const enemyAI = enemy.getComponent('enemyAI') as EnemyAIComponent;
       
-      enemyAI.setTarget(target.id);
+      enemyAI.setTarget(target.handle);
       expect(enemyAI.targetEntityId).toBe(target.id);
       
       enemyAI.setTarget(null);
@@ -145,8 +145,8 @@ describe('EnemySystem', () => {
       const enemyAI = enemy.getComponent('enemyAI') as EnemyAIComponent;
       const targetTransform = target.getComponent('transform') as TransformComponent;
       
-      enemyAI.setTarget(target.id);
-      enemyAI.setTarget(target.id, targetTransform.position);
+      enemyAI.setTarget(target.handle);
+      enemyAI.setTarget(target.handle, targetTransform.position);
       
       expect(enemyAI.lastKnownTargetPosition).toEqual({ x: 50, y: 50 });
     });
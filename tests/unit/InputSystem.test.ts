@@ -0,0 +1,216 @@
+import { InputSystem } from '../../src/systems/InputSystem';
+import { MovementSystem } from '../../src/systems/MovementSystem';
+import { World } from '../../src/core/ECS/World';
+import { Entity } from '../../src/core/ECS/Entity';
+import { TransformComponent } from '../../src/components/Transform';
+import { MovementComponent } from '../../src/components/Movement';
+import { PlayerControllerComponent } from '../../src/components/PlayerController';
+import type { InputState, InputRecording } from '../../src/types/GameTypes';
+
+const input = (
+  x: number,
+  y: number,
+  actions: string[] = [],
+  mousePosition?: { x: number; y: number }
+): InputState => ({
+  movement: { x, y },
+  actions: new Set(actions),
+  mousePosition,
+});
+
+describe('InputSystem', () => {
+  let world: World;
+  let inputSystem: InputSystem;
+
+  const createPlayer = (playerId: number = 0): Entity => {
+    const player = world.createEntity();
+    player.addComponent(new TransformComponent(0, 0));
+    player.addComponent(new MovementComponent(100, 0));
+    player.addComponent(new PlayerControllerComponent(playerId, 50, 1000));
+    return player;
+  };
+
+  const position = (entity: Entity) =>
+    entity.getComponent<TransformComponent>('transform')!.position;
+
+  beforeEach(() => {
+    world = new World({ seed: 1 });
+    inputSystem = new InputSystem(world);
+    world.addSystem(inputSystem);
+    world.addSystem(new MovementSystem());
+  });
+
+  describe('initialization', () => {
+    it('should run in the pre-update phase', () => {
+      expect(inputSystem.name).toBe('input');
+      expect(inputSystem.phase).toBe('preUpdate');
+      expect(inputSystem.requiredComponents).toEqual([
+        'playerController',
+        'movement',
+        'transform',
+      ]);
+    });
+  });
+
+  describe('input state', () => {
+    it('should move players at full speed in the held direction', () => {
+      const player = createPlayer();
+
+      inputSystem.setInput(input(1, 0));
+      world.update(1000);
+
+      expect(position(player)).toEqual({ x: 100, y: 0 });
+
+      inputSystem.setInput(input(0, 0));
+      world.update(1000);
+
+      expect(position(player)).toEqual({ x: 100, y: 0 });
+    });
+
+    it('should not move diagonals faster', () => {
+      const player = createPlayer();
+
+      inputSystem.setInput(input(1, 1));
+      world.update(1000);
+
+      expect(position(player).x).toBeCloseTo(70.71);
+      expect(position(player).y).toBeCloseTo(70.71);
+    });
+
+    it('should only drive the controllers of the given player', () => {
+      const first = createPlayer(0);
+      const second = createPlayer(1);
+
+      inputSystem.setInput(input(0, 1), 1);
+      world.update(1000);
+
+      expect(position(first)).toEqual({ x: 0, y: 0 });
+      expect(position(second)).toEqual({ x: 0, y: 100 });
+    });
+
+    it('should send bound commands when an action is pressed', () => {
+      const player = createPlayer();
+      const controller =
+        player.getComponent<PlayerControllerComponent>('playerController')!;
+
+      inputSystem.setInput(input(1, 0, ['dash']));
+      world.update(0);
+      expect(position(player)).toEqual({ x: 50, y: 0 });
+      expect(controller.canDash(world.clock.now())).toBe(false);
+
+      // Holding the action does not dash again
+      world.update(1000);
+      expect(position(player)).toEqual({ x: 150, y: 0 });
+    });
+
+    it('should track the aim position', () => {
+      const player = createPlayer();
+
+      inputSystem.setInput(input(0, 0, [], { x: 30, y: 40 }));
+      world.update(16);
+
+      expect(
+        player.getComponent<PlayerControllerComponent>('playerController')!
+          .aimPosition
+      ).toEqual({ x: 30, y: 40 });
+    });
+  });
+
+  describe('commands', () => {
+    it('should dash along the facing direction once per cooldown', () => {
+      const player = createPlayer();
+      inputSystem.sendCommand({ type: 'move', x: 0, y: -1 });
+      inputSystem.sendCommand({ type: 'move', x: 0, y: 0 });
+      world.update(0);
+
+      inputSystem.sendCommand({ type: 'dash' });
+      world.update(500);
+      inputSystem.sendCommand({ type: 'dash' });
+      world.update(500);
+      inputSystem.sendCommand({ type: 'dash' });
+      world.update(1000);
+
+      expect(position(player)).toEqual({ x: 0, y: -100 });
+    });
+
+    it('should activate skills through the skill system', () => {
+      const activateSkill = jest.fn().mockReturnValue(true);
+      const skillWorld = {
+        getSystem: jest.fn().mockReturnValue({ activateSkill }),
+      };
+      world.removeSystem('input');
+      inputSystem = new InputSystem(skillWorld as never);
+      world.addSystem(inputSystem);
+      const player = createPlayer();
+
+      inputSystem.sendCommand({ type: 'aim', x: 5, y: 5 });
+      inputSystem.sendCommand({ type: 'activateSkill', skillId: 'fireball' });
+      world.update(16);
+
+      expect(skillWorld.getSystem).toHaveBeenCalledWith('skill');
+      expect(activateSkill).toHaveBeenCalledWith(player.id, 'fireball', undefined, {
+        x: 5,
+        y: 5,
+      });
+    });
+  });
+
+  describe('recording', () => {
+    const playRun = (recording?: InputRecording) => {
+      world = new World({ seed: 1 });
+      inputSystem = new InputSystem(world);
+      world.addSystem(inputSystem);
+      world.addSystem(new MovementSystem());
+      const player = createPlayer();
+
+      if (recording) {
+        inputSystem.play(recording);
+        for (let frame = 0; frame < recording.frames; frame++) {
+          // Live input is ignored during playback
+          inputSystem.setInput(input(-1, 0));
+          world.update(16);
+        }
+      } else {
+        inputSystem.startRecording();
+        for (let frame = 0; frame < 30; frame++) {
+          const x = frame < 10 ? 1 : frame < 20 ? 0 : -1;
+          inputSystem.setInput(input(x, 1, frame === 12 ? ['dash'] : []));
+          world.update(16);
+        }
+      }
+
+      return { position: { ...position(player) }, world };
+    };
+
+    it('should record only input changes', () => {
+      playRun();
+      const recording = inputSystem.stopRecording();
+
+      expect(recording.frames).toBe(30);
+      const diagonal = 1 / Math.sqrt(2);
+      expect(recording.inputs).toEqual([
+        { frame: 0, playerId: 0, command: { type: 'move', x: diagonal, y: diagonal } },
+        { frame: 10, playerId: 0, command: { type: 'move', x: 0, y: 1 } },
+        { frame: 12, playerId: 0, command: { type: 'dash' } },
+        { frame: 20, playerId: 0, command: { type: 'move', x: -diagonal, y: diagonal } },
+      ]);
+      expect(inputSystem.isRecording()).toBe(false);
+    });
+
+    it('should reproduce a run by playing the recording back', () => {
+      const original = playRun();
+      const recording = inputSystem.stopRecording();
+
+      const replayed = playRun(JSON.parse(JSON.stringify(recording)));
+
+      expect(replayed.position).toEqual(original.position);
+      expect(inputSystem.isPlaying()).toBe(false);
+    });
+
+    it('should throw when stopping without recording', () => {
+      expect(() => inputSystem.stopRecording()).toThrow(
+        'Cannot stop recording: input is not being recorded'
+      );
+    });
+  });
+});
@@ -101,8 +101,8 @@ describe('ProgressionSystem', () => {
       eventSystem.on(GameEventType.EXPERIENCE_GAINED, experienceSpy);
 
       eventSystem.emit(GameEventType.ENTITY_KILLED, {
-        killerEntityId: player.id,
-        victimEntityId: enemy.id,
+        killerId: player.id,
+        entityId: enemy.id,
         victimType: 'enemy_goblin'
       });
 
@@ -125,8 +125,8 @@ describe('ProgressionSystem', () => {
 
       // Regular enemy
       eventSystem.emit(GameEventType.ENTITY_KILLED, {
-        killerEntityId: player.id,
-        victimEntityId: enemy.id,
+        killerId: player.id,
+        entityId: enemy.id,
         victimType: 'enemy_goblin'
       });
 
@@ -134,8 +134,8 @@ describe('ProgressionSystem', () => {
 
       // Boss enemy
       eventSystem.emit(GameEventType.ENTITY_KILLED, {
-        killerEntityId: player.id,
-        victimEntityId: enemy.id,
+        killerId: player.id,
+        entityId: enemy.id,
         victimType: 'boss_dragon'
       });
 
@@ -206,8 +206,8 @@ describe('ProgressionSystem', () => {
 
       expect(() => {
         eventSystem.emit(GameEventType.ENTITY_KILLED, {
-          killerEntityId: entity.id,
-          victimEntityId: 999,
+          killerId: entity.id,
+          entityId: 999,
           victimType: 'enemy_goblin'
         });
       }).not.toThrow();
@@ -216,8 +216,8 @@ describe('ProgressionSystem', () => {
     it('should handle invalid entity IDs', () => {
       expect(() => {
         eventSystem.emit(GameEventType.ENTITY_KILLED, {
-          killerEntityId: 999,
-          victimEntityId: 998,
+          killerId: 999,
+          entityId: 998,
           victimType: 'enemy_goblin'
         });
       }).not.toThrow();
@@ -53,12 +53,12 @@ describe('SimpleCollectionSystem', () => {
 
       // Mock world methods
       world.getActiveEntities = jest.fn().mockReturnValue([collector, collectible]);
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, totalTime: 16, frameCount: 1 };
       simpleCollectionSystem.update(context, []);
 
-      expect(world.removeEntity).toHaveBeenCalledWith(collectible.id);
+      expect(world.commands.destroyEntity).toHaveBeenCalledWith(collectible.id);
       expect(collectionSpy).toHaveBeenCalledWith(expect.objectContaining({
         data: expect.objectContaining({
           collectorId: collector.id,
@@ -76,12 +76,12 @@ describe('SimpleCollectionSystem', () => {
       (collectible.getComponent('transform') as TransformComponent).setPosition(100, 0);
 
       world.getActiveEntities = jest.fn().mockReturnValue([collector, collectible]);
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const context = { deltaTime: 16, totalTime: 16, frameCount: 1 };
       simpleCollectionSystem.update(context, []);
 
-      expect(world.removeEntity).not.toHaveBeenCalled();
+      expect(world.commands.destroyEntity).not.toHaveBeenCalled();
       expect(collectionSpy).not.toHaveBeenCalled();
     });
   });
@@ -176,7 +176,7 @@ describe('SimpleCollectionSystem', () => {
       }
 
       world.getActiveEntities = jest.fn().mockReturnValue([...collectors, ...collectibles]);
-      world.removeEntity = jest.fn();
+      jest.spyOn(world.commands, 'destroyEntity');
 
       const startTime = performance.now();
       const context = { deltaTime: 16, totalTime: 16, frameCount: 1 };
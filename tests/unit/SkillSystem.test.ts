@@ -193,7 +193,7 @@ describe('SkillSystem', () => {
       
       // Damage player first
       const health = player.getComponent('health') as HealthComponent
-      health.takeDamage(40)
+      health.takeDamage(40, 0)
       const damagedHealth = health.current
       
       const success = skillSystem.activateSkill(player.id, 'heal')
@@ -0,0 +1,94 @@
+import { SpawnSystem } from '../../src/systems/SpawnSystem';
+import { World } from '../../src/core/ECS/World';
+import { ComponentRegistry } from '../../src/core/ECS/Component';
+import { PrefabRegistry } from '../../src/core/ECS/Prefab';
+import { SpawnerComponent, type EnemyType } from '../../src/components/Spawner';
+import { TransformComponent } from '../../src/components/Transform';
+import { HealthComponent } from '../../src/components/Health';
+import { SpatialHashGrid } from '../../src/utils/SpatialPartitioning';
+
+describe('SpawnSystem', () => {
+  let world: World;
+  let grunt: EnemyType;
+
+  const spawnOne = (): HealthComponent => {
+    const before = world.getTagged('enemy').length;
+    for (let frame = 0; frame < 100; frame++) {
+      world.update(100);
+      if (world.getTagged('enemy').length > before) break;
+    }
+    const enemies = world.getTagged('enemy');
+    return enemies[enemies.length - 1].getComponent<HealthComponent>('health')!;
+  };
+
+  beforeEach(() => {
+    world = new World({ seed: 1 });
+    world.addSystem(
+      new SpawnSystem(
+        new SpatialHashGrid({
+          cellSize: 100,
+          worldBounds: { minX: -1000, minY: -1000, maxX: 1000, maxY: 1000 },
+        }),
+        { difficultyScaling: false, dynamicDifficulty: false },
+        undefined,
+        world
+      )
+    );
+
+    grunt = {
+      id: 'grunt',
+      name: 'Grunt',
+      weight: 1,
+      minLevel: 1,
+      maxLevel: 99,
+      components: [{ type: 'health', data: { maximum: 40 } }],
+    };
+    const spawner = new SpawnerComponent({ center: { x: 0, y: 0 }, radius: 200 });
+    spawner.addEnemyType(grunt);
+    world
+      .createEntity()
+      .addComponent(new TransformComponent(0, 0))
+      .addComponent(spawner);
+  });
+
+  afterEach(() => {
+    PrefabRegistry.clear();
+    ComponentRegistry.clear();
+  });
+
+  describe('enemy creation', () => {
+    it('should instantiate the enemy prefab with the type templates', () => {
+      const health = spawnOne();
+
+      expect(health.maximum).toBe(40);
+      expect(health.current).toBe(40);
+      expect(PrefabRegistry.has('grunt')).toBe(false);
+    });
+
+    it('should use the current enemy type config for every spawn', () => {
+      spawnOne();
+      grunt.components = [{ type: 'health', data: { maximum: 80 } }];
+
+      expect(spawnOne().maximum).toBe(80);
+    });
+
+    it('should ignore game prefabs named like an enemy type', () => {
+      PrefabRegistry.register({
+        name: 'grunt',
+        components: [{ type: 'health', data: { maximum: 1 } }],
+      });
+
+      expect(spawnOne().maximum).toBe(40);
+    });
+
+    it('should return the components it reads defaults from to the pool', () => {
+      spawnOne();
+      spawnOne();
+
+      const stats = ComponentRegistry.getPoolStats('ai')!;
+      expect(stats.acquired - stats.released).toBe(
+        world.getTagged('enemy').length
+      );
+    });
+  });
+});
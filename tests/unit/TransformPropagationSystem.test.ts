@@ -0,0 +1,125 @@
+import { TransformPropagationSystem } from '../../src/systems/TransformPropagationSystem';
+import { MovementSystem } from '../../src/systems/MovementSystem';
+import { World } from '../../src/core/ECS/World';
+import { Entity } from '../../src/core/ECS/Entity';
+import { TransformComponent } from '../../src/components/Transform';
+import { MovementComponent } from '../../src/components/Movement';
+import { HierarchyComponent } from '../../src/components/Hierarchy';
+
+describe('TransformPropagationSystem', () => {
+  let world: World;
+  let parent: Entity;
+  let parentTransform: TransformComponent;
+
+  const createChild = (x: number, y: number, owner: Entity = parent) => {
+    const child = world.createEntity();
+    const transform = new TransformComponent(x, y);
+    child.addComponent(transform);
+    world.setParent(child.id, owner.id);
+    return { child, transform };
+  };
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new TransformPropagationSystem(world));
+
+    parent = world.createEntity();
+    parentTransform = new TransformComponent(100, 100);
+    parent.addComponent(parentTransform);
+  });
+
+  describe('initialization', () => {
+    it('should run in the fixed update phase after movement', () => {
+      const system = new TransformPropagationSystem(world);
+      expect(system.name).toBe('transformPropagation');
+      expect(system.phase).toBe('fixedUpdate');
+      expect(system.runAfter).toContain('movement');
+      expect(system.requiredComponents).toEqual(['transform', 'hierarchy']);
+    });
+  });
+
+  describe('propagation', () => {
+    it('should follow the parent when it moves', () => {
+      const { transform } = createChild(110, 100);
+
+      parentTransform.setPosition(200, 50);
+      world.update(16);
+
+      expect(transform.position).toEqual({ x: 210, y: 50 });
+    });
+
+    it('should apply the parent rotation and scale', () => {
+      const { transform } = createChild(110, 100);
+
+      parentTransform.rotate(Math.PI / 2);
+      parentTransform.setScale(2, 2);
+      world.update(16);
+
+      expect(transform.position.x).toBeCloseTo(100);
+      expect(transform.position.y).toBeCloseTo(120);
+      expect(transform.rotation).toBeCloseTo(Math.PI / 2);
+      expect(transform.scale).toEqual({ x: 2, y: 2 });
+    });
+
+    it('should propagate through nested children', () => {
+      const { child } = createChild(110, 100);
+      const { transform: grandchildTransform } = createChild(115, 100, child);
+
+      parentTransform.setPosition(0, 0);
+      world.update(16);
+
+      expect(grandchildTransform.position).toEqual({ x: 15, y: 0 });
+    });
+
+    it('should use the local transform when it changes', () => {
+      const { child, transform } = createChild(110, 100);
+
+      child
+        .getComponent<HierarchyComponent>('hierarchy')!
+        .setLocalPosition(0, -30);
+      world.update(16);
+
+      expect(transform.position).toEqual({ x: 100, y: 70 });
+    });
+
+    it('should not touch detached entities', () => {
+      const { child, transform } = createChild(110, 100);
+      world.setParent(child.id, null);
+
+      parentTransform.setPosition(0, 0);
+      world.update(16);
+
+      expect(transform.position).toEqual({ x: 110, y: 100 });
+    });
+
+    it('should mark child transforms as changed only when they move', () => {
+      const { transform } = createChild(110, 100);
+      world.update(16);
+      const changedTick = transform.changedTick;
+
+      world.update(16);
+      expect(transform.changedTick).toBe(changedTick);
+
+      parentTransform.translate(5, 0);
+      world.update(16);
+      expect(transform.changedTick).toBeGreaterThan(changedTick);
+    });
+  });
+
+  describe('with movement', () => {
+    it('should place children relative to the moved parent in the same frame', () => {
+      world.addSystem(new MovementSystem());
+      const movement = new MovementComponent(1000);
+      movement.setVelocity(100, 0);
+      parent.addComponent(movement);
+      const { transform } = createChild(110, 100);
+
+      world.update(1000);
+
+      expect(transform.position.x - parentTransform.position.x).toBeCloseTo(
+        10
+      );
+      expect(parentTransform.position.x).toBeGreaterThan(100);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { TweenSystem } from '../../src/systems/TweenSystem';
+import { World } from '../../src/core/ECS/World';
+import { Entity } from '../../src/core/ECS/Entity';
+import { ComponentRegistry } from '../../src/core/ECS/Component';
+import { EventSystem } from '../../src/core/EventSystem';
+import { TransformComponent } from '../../src/components/Transform';
+import { HealthComponent } from '../../src/components/Health';
+import { TweenComponent } from '../../src/components/Tween';
+import { registerBuiltinComponents } from '../../src/components/BuiltinComponents';
+import { Easing } from '../../src/utils/Easing';
+import { GameEventType } from '../../src/types/Events';
+
+describe('TweenSystem', () => {
+  let world: World;
+  let eventSystem: EventSystem;
+  let tweenSystem: TweenSystem;
+  let entity: Entity;
+
+  const transform = () => entity.getComponent<TransformComponent>('transform')!;
+  const health = () => entity.getComponent<HealthComponent>('health')!;
+
+  beforeEach(() => {
+    world = new World({ seed: 1 });
+    eventSystem = new EventSystem();
+    tweenSystem = new TweenSystem(world, eventSystem);
+    world.addSystem(tweenSystem);
+
+    entity = world.createEntity();
+    entity.addComponent(new TransformComponent(0, 0));
+    entity.addComponent(new HealthComponent(100));
+  });
+
+  describe('tweens', () => {
+    it('should animate numbers and Vector2 properties', () => {
+      tweenSystem.to(entity, 'transform', 'scale', { x: 3, y: 5 }, 100);
+      tweenSystem.to(entity, 'health', 'current', 50, 100);
+
+      world.update(50);
+      expect(transform().scale).toEqual({ x: 2, y: 3 });
+      expect(health().current).toBe(75);
+
+      world.update(50);
+      expect(transform().scale).toEqual({ x: 3, y: 5 });
+      expect(health().current).toBe(50);
+    });
+
+    it('should animate nested properties', () => {
+      tweenSystem.to(entity, 'transform', 'position.x', 40, 100);
+
+      world.update(25);
+
+      expect(transform().position).toEqual({ x: 10, y: 0 });
+    });
+
+    it('should apply the easing curve', () => {
+      tweenSystem.to(entity, 'health', 'current', 0, 100, {
+        easing: 'easeInQuad',
+      });
+
+      world.update(50);
+
+      expect(health().current).toBe(100 - 100 * Easing.easeInQuad(0.5));
+    });
+
+    it('should wait for the delay', () => {
+      tweenSystem.to(entity, 'health', 'current', 0, 100, { delay: 50 });
+
+      world.update(50);
+      expect(health().current).toBe(100);
+
+      world.update(50);
+      expect(health().current).toBe(50);
+    });
+
+    it('should remove finished tweens and emit TWEEN_COMPLETED', () => {
+      const completed = jest.fn();
+      eventSystem.on(GameEventType.TWEEN_COMPLETED, (event) =>
+        completed(event.data)
+      );
+      const id = tweenSystem.to(entity, 'health', 'current', 0, 100, {
+        name: 'drain',
+      });
+
+      world.update(60);
+      expect(completed).not.toHaveBeenCalled();
+
+      world.update(60);
+      expect(completed).toHaveBeenCalledWith({
+        entityId: entity.id,
+        tweenId: id,
+        name: 'drain',
+      });
+      expect(entity.getComponent<TweenComponent>('tween')!.has(id)).toBe(false);
+    });
+
+    it('should stop tweens', () => {
+      const id = tweenSystem.to(entity, 'health', 'current', 0, 100);
+      world.update(50);
+
+      expect(tweenSystem.stop(entity, id)).toBe(true);
+      world.update(50);
+
+      expect(health().current).toBe(50);
+      expect(tweenSystem.stop(entity, id)).toBe(false);
+    });
+
+    it('should reject properties that cannot be tweened', () => {
+      expect(() =>
+        tweenSystem.to(entity, 'transform', 'missing', 1, 100)
+      ).toThrow(
+        `Cannot tween transform.missing: entity ${entity.id} has no such property`
+      );
+      expect(() =>
+        tweenSystem.to(entity, 'transform', 'scale', 2, 100)
+      ).toThrow('Cannot tween transform.scale: expected a number property');
+      expect(() =>
+        tweenSystem.to(entity, 'health', 'current', 0, 0)
+      ).toThrow('Cannot tween health.current: duration must be greater than 0');
+    });
+  });
+
+  describe('sequences', () => {
+    it('should play steps one after another', () => {
+      tweenSystem.sequence(entity, [
+        {
+          component: 'transform',
+          property: 'position',
+          to: { x: 100, y: 0 },
+          duration: 100,
+        },
+        {
+          component: 'transform',
+          property: 'position',
+          to: { x: 100, y: 100 },
+          duration: 100,
+        },
+      ]);
+
+      world.update(150);
+      expect(transform().position).toEqual({ x: 100, y: 50 });
+
+      world.update(50);
+      expect(transform().position).toEqual({ x: 100, y: 100 });
+      expect(
+        entity.getComponent<TweenComponent>('tween')!.tweens
+      ).toHaveLength(0);
+    });
+
+    it('should play back and forth with yoyo and repeat', () => {
+      const completed = jest.fn();
+      eventSystem.on(GameEventType.TWEEN_COMPLETED, completed);
+      tweenSystem.to(entity, 'health', 'current', 0, 100, {
+        yoyo: true,
+        repeat: 1,
+      });
+
+      const values: number[] = [];
+      for (let frame = 0; frame < 8; frame++) {
+        world.update(50);
+        values.push(health().current);
+      }
+
+      expect(values).toEqual([50, 0, 50, 100, 50, 0, 50, 100]);
+      expect(completed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should repeat until stopped', () => {
+      const id = tweenSystem.to(entity, 'health', 'current', 0, 100, {
+        repeat: -1,
+      });
+
+      world.update(1050);
+
+      expect(health().current).toBe(50);
+      expect(entity.getComponent<TweenComponent>('tween')!.has(id)).toBe(true);
+    });
+
+    it('should end in the same state however frames are split', () => {
+      const run = (frameTimes: number[]) => {
+        world = new World({ seed: 1 });
+        tweenSystem = new TweenSystem(world);
+        world.addSystem(tweenSystem);
+        entity = world.createEntity();
+        entity.addComponent(new TransformComponent(0, 0));
+        tweenSystem.sequence(
+          entity,
+          [
+            {
+              component: 'transform',
+              property: 'rotation',
+              to: 2,
+              duration: 30,
+              easing: 'easeOutBack',
+            },
+            {
+              component: 'transform',
+              property: 'rotation',
+              to: 1,
+              duration: 45,
+              delay: 10,
+            },
+          ],
+          { yoyo: true }
+        );
+        frameTimes.forEach((deltaTime) => world.update(deltaTime));
+        return transform().rotation;
+      };
+
+      expect(run([100])).toBeCloseTo(run([16, 16, 16, 16, 16, 16, 4]));
+      expect(run([60])).toBeCloseTo(run([7, 13, 40]));
+    });
+  });
+
+  describe('serialization', () => {
+    it('should continue tweens restored from a snapshot', () => {
+      registerBuiltinComponents();
+      tweenSystem.to(entity, 'health', 'current', 0, 100, { name: 'drain' });
+      world.update(40);
+
+      const snapshot = JSON.parse(JSON.stringify(world.snapshot()));
+      const restored = World.fromSnapshot(snapshot);
+      restored.addSystem(new TweenSystem(restored));
+      restored.update(30);
+
+      expect(
+        restored.getEntity(entity.id)!.getComponent<HealthComponent>('health')!
+          .current
+      ).toBe(30);
+      ComponentRegistry.clear();
+    });
+  });
+});